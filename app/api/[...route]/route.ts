@@ -18,6 +18,12 @@ import {
 } from '@/lib/middleware/rate-limiter'
 import { handleClientLogs } from '@/routers/logs'
 import { handleDirectUpload } from '@/routers/upload'
+import { handleShareDownload, handleShareZip } from '@/routers/share'
+import { handleImageTransform } from '@/routers/images'
+import { handleDocumentPage } from '@/routers/documents'
+import { handleZipDownload } from '@/routers/downloads'
+import { handleFileRequestUpload } from '@/routers/file-requests'
+import { handleObjectDownload } from '@/routers/objects'
 
 const app = new Hono()
 
@@ -57,6 +63,31 @@ app.post("/api/logs", handleClientLogs);
 app.use("/api/upload", uploadRateLimiter());
 app.post("/api/upload", handleDirectUpload);
 
+// Uploads through file request links, limited like direct uploads
+app.use("/api/requests/*", uploadRateLimiter());
+app.post("/api/requests/:token/upload", handleFileRequestUpload);
+
+// Public share link downloads (POST carries the link password)
+app.use("/api/share/*", rateLimiter(RateLimitConfigs.api));
+app.on(["GET", "POST"], "/api/share/:token/download", handleShareDownload);
+app.on(["GET", "POST"], "/api/share/:token/zip", handleShareZip);
+
+// Multi-file / folder downloads as a streamed ZIP
+app.use("/api/downloads/*", rateLimiter(RateLimitConfigs.api));
+app.on(["GET", "POST"], "/api/downloads/zip", handleZipDownload);
+
+// Stored objects from the private bucket (stored file URLs point here)
+app.use("/api/objects/*", rateLimiter(RateLimitConfigs.api));
+app.get("/api/objects/*", handleObjectDownload);
+
+// Resized / re-encoded image variants (backs the next/image loader)
+app.use("/api/images/*", rateLimiter(RateLimitConfigs.api));
+app.get("/api/images/:fileId", handleImageTransform);
+
+// Rendered PDF / Office document pages
+app.use("/api/documents/*", rateLimiter(RateLimitConfigs.api));
+app.get("/api/documents/:fileId/pages/:page", handleDocumentPage);
+
 // tRPC endpoints with specific rate limiting (global limiter already applied)
 app.use("/api/trpc/*", rateLimiter(RateLimitConfigs.api));
 app.use(
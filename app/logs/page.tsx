@@ -10,7 +10,7 @@ import { logger } from "@/lib/logger/client";
 
 export default function LogsPage() {
 	// Get logs from database
-	const { data: logsData, refetch } = trpc.logs.getLogs.useQuery({
+	const { data: logsData, refetch, error } = trpc.logs.getLogs.useQuery({
 		limit: 50,
 	});
 
@@ -89,6 +89,18 @@ export default function LogsPage() {
 		}
 	};
 
+	// Logs are admin-only
+	if (error?.data?.code === "FORBIDDEN") {
+		return (
+			<div className="container mx-auto py-8">
+				<h1 className="text-3xl font-bold mb-2">System Logs</h1>
+				<p className="text-muted-foreground">
+					You need an admin account to view application logs.
+				</p>
+			</div>
+		);
+	}
+
 	return (
 		<div className="container mx-auto py-8">
 			<div className="mb-8">
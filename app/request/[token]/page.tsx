@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import { useDropzone } from "react-dropzone";
+import { trpc } from "@/utils/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, File, Loader2, Lock, Upload } from "lucide-react";
+import { formatFileSize } from "@/lib/api/upload";
+import type { FileRequestUploadResponse } from "@/types/file-requests";
+
+interface SentFile {
+	id: string;
+	file: File;
+	progress: number;
+	status: "uploading" | "success" | "error";
+	error?: string;
+}
+
+export default function FileRequestPage() {
+	const { token } = useParams<{ token: string }>();
+	const [password, setPassword] = useState("");
+	const [uploaderName, setUploaderName] = useState("");
+	const [sentFiles, setSentFiles] = useState<SentFile[]>([]);
+	const [isUploading, setIsUploading] = useState(false);
+
+	const { data: request, isLoading, error, refetch } = trpc.fileRequests.get.useQuery(
+		{ token },
+		{ retry: false },
+	);
+
+	const { getRootProps, getInputProps, isDragActive } = useDropzone({
+		onDrop: handleDrop,
+		disabled: !request || isUploading,
+		maxSize: request?.maxFileSize ?? undefined,
+		maxFiles: request?.remainingFiles ?? undefined,
+		accept: request?.allowedTypes
+			? request.allowedTypes.reduce((acc, type) => ({ ...acc, [type]: [] }), {})
+			: undefined,
+	});
+
+	function updateSentFile(id: string, changes: Partial<SentFile>) {
+		setSentFiles((prev) => prev.map((f) => (f.id === id ? { ...f, ...changes } : f)));
+	}
+
+	async function handleDrop(acceptedFiles: File[]) {
+		const newFiles: SentFile[] = acceptedFiles.map((file) => ({
+			id: Math.random().toString(36).substring(7),
+			file,
+			progress: 0,
+			status: "uploading" as const,
+		}));
+
+		setSentFiles((prev) => [...prev, ...newFiles]);
+		setIsUploading(true);
+
+		for (const sentFile of newFiles) {
+			try {
+				await sendFile(sentFile);
+				updateSentFile(sentFile.id, { status: "success", progress: 100 });
+			} catch (error) {
+				updateSentFile(sentFile.id, {
+					status: "error",
+					error: error instanceof Error ? error.message : "Upload failed",
+				});
+			}
+		}
+
+		setIsUploading(false);
+		refetch();
+	}
+
+	// XHR instead of fetch so we get upload progress events
+	function sendFile(sentFile: SentFile): Promise<FileRequestUploadResponse> {
+		const formData = new FormData();
+		formData.append("file", sentFile.file);
+		if (password) formData.append("password", password);
+		if (uploaderName) formData.append("uploaderName", uploaderName);
+
+		return new Promise((resolve, reject) => {
+			const xhr = new XMLHttpRequest();
+			xhr.open("POST", request!.uploadUrl);
+			xhr.responseType = "json";
+			xhr.upload.onprogress = (event) => {
+				if (!event.lengthComputable) return;
+				updateSentFile(sentFile.id, {
+					progress: Math.round((event.loaded / event.total) * 95),
+				});
+			};
+			xhr.onload = () =>
+				xhr.status >= 200 && xhr.status < 300
+					? resolve(xhr.response)
+					: reject(new Error(xhr.response?.error ?? `Upload failed (${xhr.status})`));
+			xhr.onerror = () => reject(new Error("Upload failed"));
+			xhr.send(formData);
+		});
+	}
+
+	return (
+		<div className="container mx-auto py-8">
+			<div className="max-w-xl mx-auto">
+				<Card>
+					<CardHeader>
+						<CardTitle>{request?.title ?? "File Request"}</CardTitle>
+						<CardDescription>
+							{request?.description ?? "Someone asked you to send them files"}
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						{isLoading && (
+							<div className="flex justify-center py-8">
+								<Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+							</div>
+						)}
+
+						{error && (
+							<Alert variant="destructive">
+								<AlertCircle className="h-4 w-4" />
+								<AlertDescription>{error.message}</AlertDescription>
+							</Alert>
+						)}
+
+						{request && (
+							<div className="space-y-4">
+								<div className="text-xs text-muted-foreground space-y-1">
+									{request.allowedTypes && (
+										<p>Accepted types: {request.allowedTypes.join(", ")}</p>
+									)}
+									{request.formattedMaxFileSize && (
+										<p>Up to {request.formattedMaxFileSize} per file</p>
+									)}
+									{request.remainingFiles !== null && (
+										<p>{request.remainingFiles} more files accepted</p>
+									)}
+									{request.expiresAt && (
+										<p>Open until {new Date(request.expiresAt).toLocaleString()}</p>
+									)}
+								</div>
+
+								<div className="space-y-2">
+									<Label htmlFor="uploaderName" className="text-sm">
+										Your name (optional)
+									</Label>
+									<Input
+										id="uploaderName"
+										value={uploaderName}
+										onChange={(e) => setUploaderName(e.target.value)}
+										maxLength={100}
+										disabled={isUploading}
+									/>
+								</div>
+
+								{request.requiresPassword && (
+									<div className="space-y-2">
+										<Label htmlFor="password" className="text-sm">
+											<Lock className="h-3 w-3" />
+											Password
+										</Label>
+										<Input
+											id="password"
+											type="password"
+											value={password}
+											onChange={(e) => setPassword(e.target.value)}
+											disabled={isUploading}
+										/>
+									</div>
+								)}
+
+								<div
+									{...getRootProps()}
+									className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+										isDragActive
+											? "border-primary bg-primary/5"
+											: "border-muted-foreground/25 hover:border-primary/50"
+									}`}
+								>
+									<input {...getInputProps()} />
+									<Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+									<p className="text-sm text-muted-foreground">
+										{isDragActive
+											? "Drop the files here..."
+											: "Drag & drop files here, or click to select"}
+									</p>
+								</div>
+
+								{sentFiles.length > 0 && (
+									<div className="space-y-2">
+										{sentFiles.map((sentFile) => (
+											<div key={sentFile.id} className="p-3 border rounded-lg space-y-2">
+												<div className="flex items-center justify-between">
+													<div className="flex items-center space-x-3 min-w-0">
+														<File className="h-5 w-5 text-muted-foreground" />
+														<div className="min-w-0">
+															<p className="text-sm font-medium truncate">
+																{sentFile.file.name}
+															</p>
+															<p className="text-xs text-muted-foreground">
+																{formatFileSize(sentFile.file.size)}
+															</p>
+														</div>
+													</div>
+													{sentFile.status === "success" && (
+														<CheckCircle2 className="h-4 w-4 text-green-500" />
+													)}
+													{sentFile.status === "error" && (
+														<AlertCircle className="h-4 w-4 text-destructive" />
+													)}
+												</div>
+												{sentFile.status === "uploading" && (
+													<Progress value={sentFile.progress} className="h-1" />
+												)}
+												{sentFile.error && (
+													<p className="text-xs text-destructive">{sentFile.error}</p>
+												)}
+											</div>
+										))}
+									</div>
+								)}
+
+								{sentFiles.some((f) => f.status === "error") && !isUploading && (
+									<Button
+										variant="outline"
+										className="w-full"
+										onClick={() => setSentFiles((prev) => prev.filter((f) => f.status !== "error"))}
+									>
+										Clear failed uploads
+									</Button>
+								)}
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+}
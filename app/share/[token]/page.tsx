@@ -0,0 +1,244 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { trpc } from "@/utils/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import NextImage from "next/image";
+import { toast } from "sonner";
+import {
+	AlertCircle,
+	Archive,
+	Download,
+	File,
+	Loader2,
+	Lock,
+} from "lucide-react";
+import type { SharedFileItem, SharedFileResponse } from "@/types/share";
+
+function FileThumbnail({ file }: { file: SharedFileItem }) {
+	return file.thumbnailUrl ? (
+		<NextImage
+			src={file.thumbnailUrl}
+			alt={file.originalName}
+			width={48}
+			height={48}
+			className="h-12 w-12 rounded object-cover"
+		/>
+	) : (
+		<File className="h-8 w-8 text-muted-foreground" />
+	);
+}
+
+export default function SharePage() {
+	const { token } = useParams<{ token: string }>();
+	const [password, setPassword] = useState("");
+	// Contents returned by verifyPassword for protected links
+	const [unlocked, setUnlocked] = useState<SharedFileResponse | null>(null);
+	const formRef = useRef<HTMLFormElement>(null);
+	const fileIdRef = useRef<HTMLInputElement>(null);
+
+	const { data, isLoading, error, refetch } = trpc.share.getLink.useQuery(
+		{ token },
+		{ retry: false },
+	);
+	const verifyPasswordMutation = trpc.share.verifyPassword.useMutation();
+
+	const shared = unlocked ?? data;
+	const isSingleFile = shared?.targetType === "file";
+
+	async function handleUnlock(event: React.FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+
+		try {
+			const result = await verifyPasswordMutation.mutateAsync({ token, password });
+			if (!result.valid || !result.shared) {
+				toast.error("Invalid password");
+				return;
+			}
+			setUnlocked(result.shared);
+		} catch (error) {
+			// Includes the lockout after too many wrong passwords
+			toast.error(error instanceof Error ? error.message : "Failed to verify password");
+		}
+	}
+
+	/**
+	 * Native form submit lets the browser stream the download to disk
+	 */
+	function startDownload(action: string, fileId?: string) {
+		if (!formRef.current || !fileIdRef.current) return;
+
+		formRef.current.action = action;
+		fileIdRef.current.value = fileId ?? "";
+		formRef.current.submit();
+
+		// Refresh remaining downloads once the request has been counted
+		setTimeout(async () => {
+			if (!unlocked) {
+				refetch();
+				return;
+			}
+			const result = await verifyPasswordMutation.mutateAsync({ token, password });
+			if (result.shared) setUnlocked(result.shared);
+		}, 2000);
+	}
+
+	return (
+		<div className="container mx-auto py-8">
+			<div className={isSingleFile === false ? "max-w-2xl mx-auto" : "max-w-md mx-auto"}>
+				<Card>
+					<CardHeader>
+						<CardTitle>{shared && !isSingleFile ? shared.name : "Shared File"}</CardTitle>
+						<CardDescription>
+							{shared && !isSingleFile
+								? "Someone shared these files with you"
+								: "Someone shared a file with you"}
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						{isLoading && (
+							<div className="flex justify-center py-8">
+								<Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+							</div>
+						)}
+
+						{error && (
+							<Alert variant="destructive">
+								<AlertCircle className="h-4 w-4" />
+								<AlertDescription>{error.message}</AlertDescription>
+							</Alert>
+						)}
+
+						{shared && (
+							<div className="space-y-4">
+								{/* Target of every download; the password travels with each request */}
+								<form ref={formRef} method="POST" className="hidden">
+									<input type="hidden" name="password" value={password} />
+									<input ref={fileIdRef} type="hidden" name="fileId" />
+								</form>
+
+								{isSingleFile && (
+									<div className="flex items-center space-x-3">
+										{shared.files[0] ? (
+											<FileThumbnail file={shared.files[0]} />
+										) : (
+											<File className="h-8 w-8 text-muted-foreground" />
+										)}
+										<div className="min-w-0">
+											<p className="font-medium truncate">{shared.name}</p>
+											<p className="text-sm text-muted-foreground">
+												{shared.formattedSize}
+											</p>
+										</div>
+									</div>
+								)}
+
+								<div className="text-xs text-muted-foreground space-y-1">
+									{!isSingleFile && !shared.locked && (
+										<p>
+											{shared.files.length} files, {shared.formattedSize}
+										</p>
+									)}
+									{shared.expiresAt && (
+										<p>Expires {new Date(shared.expiresAt).toLocaleString()}</p>
+									)}
+									{shared.remainingDownloads !== null && (
+										<p>{shared.remainingDownloads} downloads remaining</p>
+									)}
+								</div>
+
+								{shared.locked ? (
+									<form onSubmit={handleUnlock} className="space-y-4">
+										<div className="space-y-2">
+											<Label htmlFor="password" className="text-sm">
+												<Lock className="h-3 w-3" />
+												Password
+											</Label>
+											<Input
+												id="password"
+												type="password"
+												value={password}
+												onChange={(e) => setPassword(e.target.value)}
+												required
+											/>
+										</div>
+										<Button
+											type="submit"
+											className="w-full"
+											disabled={verifyPasswordMutation.isPending}
+										>
+											{verifyPasswordMutation.isPending ? (
+												<Loader2 className="h-4 w-4 mr-2 animate-spin" />
+											) : (
+												<Lock className="h-4 w-4 mr-2" />
+											)}
+											Unlock
+										</Button>
+									</form>
+								) : isSingleFile ? (
+									<Button
+										className="w-full"
+										onClick={() => startDownload(shared.downloadUrl)}
+									>
+										<Download className="h-4 w-4 mr-2" />
+										Download
+									</Button>
+								) : (
+									<>
+										<div className="space-y-2">
+											{shared.files.map((file) => (
+												<div
+													key={file.id}
+													className="flex items-center justify-between p-3 border rounded-lg"
+												>
+													<div className="flex items-center space-x-3 min-w-0">
+														<FileThumbnail file={file} />
+														<div className="min-w-0">
+															<p className="font-medium truncate">{file.originalName}</p>
+															<p className="text-sm text-muted-foreground truncate">
+																{file.path ? `${file.path} · ` : ""}
+																{file.formattedSize}
+															</p>
+														</div>
+													</div>
+													<Button
+														variant="ghost"
+														size="sm"
+														onClick={() => startDownload(shared.downloadUrl, file.id)}
+													>
+														<Download className="h-4 w-4" />
+													</Button>
+												</div>
+											))}
+										</div>
+
+										{shared.files.length > 1 && (
+											<Button
+												className="w-full"
+												onClick={() => startDownload(shared.zipUrl)}
+											>
+												<Archive className="h-4 w-4 mr-2" />
+												Download all as ZIP
+											</Button>
+										)}
+									</>
+								)}
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { FileUpload } from "@/components/file-upload";
+import { FileRequests } from "@/components/file-requests";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
 export default function UploadPage() {
@@ -32,6 +33,18 @@ export default function UploadPage() {
 						/>
 					</CardContent>
 				</Card>
+
+				<Card className="mt-8">
+					<CardHeader>
+						<CardTitle>File Requests</CardTitle>
+						<CardDescription>
+							Links that let people without an account send you files
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<FileRequests />
+					</CardContent>
+				</Card>
 			</div>
 		</div>
 	);
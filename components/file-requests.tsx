@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FolderPicker } from "@/components/folder-picker";
+import { trpc } from "@/utils/trpc";
+import { toast } from "sonner";
+import { Copy, Inbox, Loader2, Lock, XCircle } from "lucide-react";
+import { formatFileSize } from "@/lib/api/upload";
+import type { FileRequestItem, FileRequestStatus } from "@/types/file-requests";
+
+const STATUS_VARIANTS: Record<FileRequestStatus, "default" | "secondary" | "destructive"> = {
+	active: "default",
+	expired: "secondary",
+	full: "secondary",
+	revoked: "destructive",
+};
+
+function describeRequest(request: FileRequestItem): string {
+	const received =
+		request.maxFiles !== null
+			? `${request.uploadCount}/${request.maxFiles} files`
+			: `${request.uploadCount} files`;
+	const destination = request.targetPath ? `to ${request.targetPath}` : "to the root folder";
+	const expiry = request.expiresAt
+		? `open until ${new Date(request.expiresAt).toLocaleString()}`
+		: "no expiry";
+
+	return `${received} · ${destination} · ${expiry}`;
+}
+
+/**
+ * Create upload request links and manage the existing ones
+ */
+export function FileRequests() {
+	const utils = trpc.useUtils();
+	const { data: requests, isLoading } = trpc.fileRequests.list.useQuery();
+	const createMutation = trpc.fileRequests.create.useMutation();
+	const revokeMutation = trpc.fileRequests.revoke.useMutation();
+
+	const [title, setTitle] = useState("");
+	const [description, setDescription] = useState("");
+	const [path, setPath] = useState("");
+	const [categoryId, setCategoryId] = useState<string | null>(null);
+	const [allowedTypes, setAllowedTypes] = useState("");
+	const [maxFileSizeMb, setMaxFileSizeMb] = useState("");
+	const [maxFiles, setMaxFiles] = useState("");
+	const [expiresInHours, setExpiresInHours] = useState("168");
+	const [password, setPassword] = useState("");
+
+	async function handleCreate(event: React.FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+
+		try {
+			const types = allowedTypes
+				.split(",")
+				.map((type) => type.trim())
+				.filter(Boolean);
+			const request = await createMutation.mutateAsync({
+				title,
+				description: description || undefined,
+				path: path || undefined,
+				categoryId: categoryId ?? undefined,
+				allowedTypes: types.length ? types : undefined,
+				maxFileSize: maxFileSizeMb
+					? Math.round(Number(maxFileSizeMb) * 1024 * 1024)
+					: undefined,
+				maxFiles: maxFiles ? Number(maxFiles) : undefined,
+				expiresInHours: expiresInHours ? Number(expiresInHours) : undefined,
+				password: password || undefined,
+			});
+
+			navigator.clipboard.writeText(request.url);
+			toast.success("File request link copied to clipboard!");
+			setTitle("");
+			setDescription("");
+			setPassword("");
+			await utils.fileRequests.list.invalidate();
+		} catch {
+			toast.error("Failed to create file request");
+		}
+	}
+
+	async function handleRevoke(id: string) {
+		try {
+			await revokeMutation.mutateAsync({ id });
+			await utils.fileRequests.list.invalidate();
+			toast.success("File request closed");
+		} catch {
+			toast.error("Failed to close file request");
+		}
+	}
+
+	return (
+		<div className="space-y-6">
+			<form onSubmit={handleCreate} className="space-y-4">
+				<div className="grid gap-4 sm:grid-cols-2">
+					<div className="space-y-2">
+						<Label htmlFor="request-title" className="text-sm">Title</Label>
+						<Input
+							id="request-title"
+							value={title}
+							onChange={(e) => setTitle(e.target.value)}
+							maxLength={100}
+							required
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="request-path" className="text-sm">Destination path</Label>
+						<Input
+							id="request-path"
+							value={path}
+							onChange={(e) => setPath(e.target.value)}
+							placeholder="clients/acme"
+						/>
+					</div>
+				</div>
+
+				<div className="space-y-2">
+					<Label htmlFor="request-description" className="text-sm">
+						Message for uploaders
+					</Label>
+					<Textarea
+						id="request-description"
+						value={description}
+						onChange={(e) => setDescription(e.target.value)}
+						maxLength={1000}
+					/>
+				</div>
+
+				<FolderPicker value={categoryId} onChange={setCategoryId} />
+
+				<div className="grid gap-4 sm:grid-cols-2">
+					<div className="space-y-2">
+						<Label htmlFor="request-types" className="text-sm">Allowed types</Label>
+						<Input
+							id="request-types"
+							value={allowedTypes}
+							onChange={(e) => setAllowedTypes(e.target.value)}
+							placeholder="image/*, application/pdf"
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="request-password" className="text-sm">Password</Label>
+						<Input
+							id="request-password"
+							type="password"
+							value={password}
+							onChange={(e) => setPassword(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="request-size" className="text-sm">Max file size (MB)</Label>
+						<Input
+							id="request-size"
+							type="number"
+							min={1}
+							value={maxFileSizeMb}
+							onChange={(e) => setMaxFileSizeMb(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="request-count" className="text-sm">Max files</Label>
+						<Input
+							id="request-count"
+							type="number"
+							min={1}
+							max={1000}
+							value={maxFiles}
+							onChange={(e) => setMaxFiles(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="request-expiry" className="text-sm">Expires in (hours)</Label>
+						<Input
+							id="request-expiry"
+							type="number"
+							min={1}
+							max={720}
+							value={expiresInHours}
+							onChange={(e) => setExpiresInHours(e.target.value)}
+						/>
+					</div>
+				</div>
+
+				<Button type="submit" disabled={createMutation.isPending}>
+					{createMutation.isPending ? (
+						<Loader2 className="h-4 w-4 mr-2 animate-spin" />
+					) : (
+						<Inbox className="h-4 w-4 mr-2" />
+					)}
+					Create request link
+				</Button>
+			</form>
+
+			{isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+
+			{!!requests?.length && (
+				<div className="space-y-2">
+					<Label className="text-sm">Your requests</Label>
+					{requests.map((request) => (
+						<div
+							key={request.id}
+							className="flex items-center justify-between p-2 border rounded-lg"
+						>
+							<div className="min-w-0 space-y-1">
+								<div className="flex items-center space-x-2">
+									<Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+									{request.requiresPassword && (
+										<Lock className="h-3 w-3 text-muted-foreground" />
+									)}
+									<span className="text-sm font-medium truncate">{request.title}</span>
+								</div>
+								<p className="text-xs text-muted-foreground">
+									{describeRequest(request)}
+									{request.maxFileSize !== null &&
+										` · up to ${formatFileSize(request.maxFileSize)} each`}
+								</p>
+							</div>
+							<div className="flex items-center space-x-1">
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => {
+										navigator.clipboard.writeText(request.url);
+										toast.success("File request link copied to clipboard!");
+									}}
+									disabled={request.status !== "active"}
+								>
+									<Copy className="h-4 w-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => handleRevoke(request.id)}
+									disabled={request.status === "revoked" || revokeMutation.isPending}
+								>
+									<XCircle className="h-4 w-4" />
+								</Button>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -26,7 +26,12 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { FolderPicker } from "@/components/folder-picker";
+import { WatermarkPicker } from "@/components/watermark-picker";
+import { ShareLinksList } from "@/components/share-links-list";
 import { trpc } from "@/utils/trpc";
+import NextImage from "next/image";
+import { getImageSrc, getDocumentPageSrc } from "@/lib/utils";
 import { toast } from "sonner";
 import {
 	Upload,
@@ -45,7 +50,12 @@ import {
 	Link,
 	Loader2,
 } from "lucide-react";
-import { formatFileSize, getFileCategory } from "@/lib/api/upload";
+import {
+	formatFileSize,
+	getFileCategory,
+	isPreviewableDocument,
+	CHUNKED_UPLOAD,
+} from "@/lib/api/upload";
 
 interface FileUploadProps {
 	onUploadComplete?: (files: UploadedFile[]) => void;
@@ -54,6 +64,8 @@ interface FileUploadProps {
 	acceptedTypes?: string[];
 	isPublic?: boolean;
 	showUploadedFiles?: boolean;
+	showFolderPicker?: boolean;
+	directToStorage?: boolean; // PUT files straight to MinIO (bucket needs CORS for this origin)
 }
 
 interface UploadedFile {
@@ -66,6 +78,27 @@ interface UploadedFile {
 	thumbnailUrl?: string | null;
 }
 
+/**
+ * Read a file or a slice of it as base64 (without the data URL prefix)
+ */
+function readAsBase64(blob: Blob): Promise<string> {
+	return new Promise<string>((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => {
+			const base64 = reader.result?.toString().split(",")[1];
+			if (base64 !== undefined) resolve(base64);
+			else reject(new Error("Failed to convert file"));
+		};
+		reader.onerror = reject;
+		reader.readAsDataURL(blob);
+	});
+}
+
+// localStorage key used to resume a chunked upload after a refresh
+function getResumeKey(file: File): string {
+	return `upload-session:${file.name}:${file.size}:${file.lastModified}`;
+}
+
 interface UploadingFile {
 	id: string;
 	file: File;
@@ -75,6 +108,12 @@ interface UploadingFile {
 	result?: UploadedFile;
 }
 
+// Streamed ZIP of the given files, served by the downloads endpoint
+function getZipDownloadHref(files: UploadedFile[]): string {
+	const params = new URLSearchParams(files.map((file) => ["fileIds", file.id]));
+	return `/api/downloads/zip?${params.toString()}`;
+}
+
 export function FileUpload({
 	onUploadComplete,
 	maxFiles = 10,
@@ -82,18 +121,30 @@ export function FileUpload({
 	acceptedTypes,
 	isPublic = true,
 	showUploadedFiles = true,
+	showFolderPicker = true,
+	directToStorage = false,
 }: FileUploadProps) {
 	const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
 	const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
 	const [isUploading, setIsUploading] = useState(false);
 	const [shareDialogOpen, setShareDialogOpen] = useState(false);
 	const [selectedFile, setSelectedFile] = useState<UploadedFile | null>(null);
+	const [categoryId, setCategoryId] = useState<string | null>(null);
+	const [keepPhotoMetadata, setKeepPhotoMetadata] = useState(false);
+	const [watermarkProfileId, setWatermarkProfileId] = useState<string | null>(null);
+	const [shareWatermarkProfileId, setShareWatermarkProfileId] = useState<string | null>(null);
 	const fileInputRef = useRef<HTMLInputElement>(null);
 
 	const utils = trpc.useUtils();
 	const uploadMutation = trpc.upload.upload.useMutation();
 	const deleteMutation = trpc.upload.deleteFile.useMutation();
 	const createShareLinkMutation = trpc.upload.createShareLink.useMutation();
+	const initSessionMutation = trpc.uploadSession.init.useMutation();
+	const uploadChunkMutation = trpc.uploadSession.uploadChunk.useMutation();
+	const completeSessionMutation = trpc.uploadSession.complete.useMutation();
+	const attachFilesMutation = trpc.categories.attachFiles.useMutation();
+	const createUploadUrlMutation = trpc.directUpload.createUploadUrl.useMutation();
+	const confirmUploadMutation = trpc.directUpload.confirmUpload.useMutation();
 
 	const { getRootProps, getInputProps, isDragActive } = useDropzone({
 		onDrop: handleDrop,
@@ -120,6 +171,9 @@ export function FileUpload({
 		}
 
 		setIsUploading(false);
+		if (categoryId) {
+			utils.categories.list.invalidate();
+		}
 	}
 
 	async function uploadFile(uploadingFile: UploadingFile) {
@@ -131,41 +185,19 @@ export function FileUpload({
 				)
 			);
 
-			// Convert file to base64
-			const reader = new FileReader();
-			const base64Promise = new Promise<string>((resolve, reject) => {
-				reader.onload = () => {
-					const base64 = reader.result?.toString().split(",")[1];
-					if (base64) resolve(base64);
-					else reject(new Error("Failed to convert file"));
-				};
-				reader.onerror = reject;
-				reader.readAsDataURL(uploadingFile.file);
-			});
-
-			const fileData = await base64Promise;
+			const result = directToStorage
+				? await uploadDirect(uploadingFile)
+				: uploadingFile.file.size > CHUNKED_UPLOAD.threshold
+					? await uploadInChunks(uploadingFile)
+					: await uploadSingle(uploadingFile);
 
-			// Simulate progress
-			const progressInterval = setInterval(() => {
-				setUploadingFiles((prev) =>
-					prev.map((f) =>
-						f.id === uploadingFile.id && f.progress < 90
-							? { ...f, progress: f.progress + 10 }
-							: f
-					)
-				);
-			}, 200);
-
-			// Upload file
-			const result = await uploadMutation.mutateAsync({
-				fileName: uploadingFile.file.name,
-				mimeType: uploadingFile.file.type,
-				size: uploadingFile.file.size,
-				fileData,
-				isPublic,
-			});
-
-			clearInterval(progressInterval);
+			// File the upload into the selected folder
+			if (categoryId) {
+				await attachFilesMutation.mutateAsync({
+					categoryId,
+					fileIds: [result.id],
+				});
+			}
 
 			// Update status to success
 			setUploadingFiles((prev) =>
@@ -177,7 +209,11 @@ export function FileUpload({
 			);
 
 			setUploadedFiles((prev) => [...prev, result]);
-			toast.success(`${uploadingFile.file.name} uploaded successfully`);
+			toast.success(
+				result.duplicateOf
+					? `${uploadingFile.file.name} is identical to ${result.duplicateOf.originalName}, no extra storage used`
+					: `${uploadingFile.file.name} uploaded successfully`
+			);
 		} catch (error) {
 			// Update status to error
 			setUploadingFiles((prev) =>
@@ -203,11 +239,145 @@ export function FileUpload({
 		}
 	}
 
+	async function uploadSingle(uploadingFile: UploadingFile) {
+		// Convert file to base64
+		const fileData = await readAsBase64(uploadingFile.file);
+
+		// Simulate progress
+		const progressInterval = setInterval(() => {
+			setUploadingFiles((prev) =>
+				prev.map((f) =>
+					f.id === uploadingFile.id && f.progress < 90
+						? { ...f, progress: f.progress + 10 }
+						: f
+				)
+			);
+		}, 200);
+
+		try {
+			return await uploadMutation.mutateAsync({
+				fileName: uploadingFile.file.name,
+				mimeType: uploadingFile.file.type,
+				size: uploadingFile.file.size,
+				fileData,
+				isPublic,
+				stripMetadata: !keepPhotoMetadata,
+				watermarkProfileId: watermarkProfileId ?? undefined,
+			});
+		} finally {
+			clearInterval(progressInterval);
+		}
+	}
+
+	async function uploadInChunks(uploadingFile: UploadingFile) {
+		const { file } = uploadingFile;
+		const resumeKey = getResumeKey(file);
+
+		// Resume an unfinished session for the same file if there is one
+		let session = null;
+		const savedSessionId = localStorage.getItem(resumeKey);
+		if (savedSessionId) {
+			try {
+				const saved = await utils.uploadSession.get.fetch({
+					sessionId: savedSessionId,
+				});
+				if (saved.status === "pending" || saved.status === "uploading") {
+					session = saved;
+				}
+			} catch (error) {
+				localStorage.removeItem(resumeKey);
+			}
+		}
+
+		if (!session) {
+			session = await initSessionMutation.mutateAsync({
+				fileName: file.name,
+				mimeType: file.type,
+				size: file.size,
+				isPublic,
+				stripMetadata: !keepPhotoMetadata,
+				watermarkProfileId: watermarkProfileId ?? undefined,
+			});
+			localStorage.setItem(resumeKey, session.id);
+		}
+
+		const uploaded = new Set(session.uploadedChunkIndexes);
+
+		for (let index = 0; index < session.totalChunks; index++) {
+			if (!uploaded.has(index)) {
+				const start = index * session.chunkSize;
+				const chunkData = await readAsBase64(
+					file.slice(start, start + session.chunkSize)
+				);
+
+				await uploadChunkMutation.mutateAsync({
+					sessionId: session.id,
+					chunkIndex: index,
+					chunkData,
+				});
+				uploaded.add(index);
+			}
+
+			const progress = Math.round((uploaded.size / session.totalChunks) * 95);
+			setUploadingFiles((prev) =>
+				prev.map((f) => (f.id === uploadingFile.id ? { ...f, progress } : f))
+			);
+		}
+
+		const result = await completeSessionMutation.mutateAsync({
+			sessionId: session.id,
+		});
+		localStorage.removeItem(resumeKey);
+
+		return result;
+	}
+
+	async function uploadDirect(uploadingFile: UploadingFile) {
+		const { file } = uploadingFile;
+
+		const upload = await createUploadUrlMutation.mutateAsync({
+			fileName: file.name,
+			mimeType: file.type,
+			size: file.size,
+			isPublic,
+			stripMetadata: !keepPhotoMetadata,
+			watermarkProfileId: watermarkProfileId ?? undefined,
+		});
+
+		// The policy fields must come before the file in the form
+		const body = new FormData();
+		for (const [name, value] of Object.entries(upload.fields)) {
+			body.append(name, value);
+		}
+		body.append("file", file);
+
+		// XHR instead of fetch so we get upload progress events
+		await new Promise<void>((resolve, reject) => {
+			const xhr = new XMLHttpRequest();
+			xhr.open("POST", upload.uploadUrl);
+			xhr.upload.onprogress = (event) => {
+				if (!event.lengthComputable) return;
+				const progress = Math.round((event.loaded / event.total) * 95);
+				setUploadingFiles((prev) =>
+					prev.map((f) => (f.id === uploadingFile.id ? { ...f, progress } : f))
+				);
+			};
+			xhr.onload = () =>
+				xhr.status >= 200 && xhr.status < 300
+					? resolve()
+					: reject(new Error(`Storage upload failed (${xhr.status})`));
+			xhr.onerror = () => reject(new Error("Storage upload failed"));
+			xhr.send(body);
+		});
+
+		return confirmUploadMutation.mutateAsync({ uploadId: upload.uploadId });
+	}
+
 	async function handleDelete(fileId: string) {
 		try {
 			await deleteMutation.mutateAsync({ id: fileId });
 			setUploadedFiles((prev) => prev.filter((f) => f.id !== fileId));
-			toast.success("File deleted successfully");
+			toast.success("File moved to trash");
 			utils.upload.getUserFiles.invalidate();
 		} catch (error) {
 			toast.error("Failed to delete file");
@@ -226,10 +396,12 @@ export function FileUpload({
 			const result = await createShareLinkMutation.mutateAsync({
 				fileId: selectedFile.id,
 				expiresInHours: 24,
+				watermarkProfileId: shareWatermarkProfileId ?? undefined,
 			});
 
 			navigator.clipboard.writeText(result.url);
 			toast.success("Share link copied to clipboard!");
+			await utils.share.listLinks.invalidate({ fileId: selectedFile.id });
 			setShareDialogOpen(false);
 		} catch (error) {
 			toast.error("Failed to create share link");
@@ -293,6 +465,26 @@ export function FileUpload({
 						)}
 					</div>
 
+					{/* Destination folder */}
+					{showFolderPicker && (
+						<div className="mt-4">
+							<FolderPicker
+								value={categoryId}
+								onChange={setCategoryId}
+								disabled={isUploading}
+							/>
+						</div>
+					)}
+
+					{/* Watermark stamped into uploaded images */}
+					<div className="mt-4">
+						<WatermarkPicker
+							value={watermarkProfileId}
+							onChange={setWatermarkProfileId}
+							disabled={isUploading}
+						/>
+					</div>
+
 					{/* File visibility option */}
 					<div className="flex items-center space-x-2 mt-4">
 						<Checkbox
@@ -304,6 +496,19 @@ export function FileUpload({
 							Make files public (visible to everyone)
 						</Label>
 					</div>
+
+					{/* Photo metadata option, location and EXIF are stripped by default */}
+					<div className="flex items-center space-x-2 mt-2">
+						<Checkbox
+							id="keep-photo-metadata"
+							checked={keepPhotoMetadata}
+							onCheckedChange={(checked) => setKeepPhotoMetadata(checked === true)}
+							disabled={isUploading}
+						/>
+						<Label htmlFor="keep-photo-metadata" className="text-sm">
+							Keep photo metadata (including GPS location)
+						</Label>
+					</div>
 				</CardContent>
 			</Card>
 
@@ -375,8 +580,16 @@ export function FileUpload({
 			{/* Uploaded Files */}
 			{showUploadedFiles && uploadedFiles.length > 0 && (
 				<Card>
-					<CardHeader>
+					<CardHeader className="flex flex-row items-center justify-between">
 						<CardTitle>Uploaded Files</CardTitle>
+						{uploadedFiles.length > 1 && (
+							<Button variant="outline" size="sm" asChild>
+								<a href={getZipDownloadHref(uploadedFiles)}>
+									<Download className="h-4 w-4 mr-2" />
+									Download all
+								</a>
+							</Button>
+						)}
 					</CardHeader>
 					<CardContent>
 						<ScrollArea className="h-64">
@@ -387,12 +600,22 @@ export function FileUpload({
 										className="flex items-center justify-between p-3 border rounded-lg"
 									>
 										<div className="flex items-center space-x-3 flex-1">
-											{file.thumbnailUrl ? (
-												<img
-													src={file.thumbnailUrl}
+											{file.mimeType.startsWith("image/") ? (
+												<NextImage
+													src={getImageSrc(file.id, "cover")}
 													alt={file.originalName}
+													width={40}
+													height={40}
 													className="h-10 w-10 rounded object-cover"
 												/>
+											) : isPreviewableDocument(file.mimeType) ? (
+												<NextImage
+													src={getDocumentPageSrc(file.id)}
+													alt={file.originalName}
+													width={40}
+													height={40}
+													className="h-10 w-10 rounded border object-cover object-top"
+												/>
 											) : (
 												getFileIcon(file.mimeType)
 											)}
@@ -442,15 +665,17 @@ export function FileUpload({
 					<DialogHeader>
 						<DialogTitle>Share File</DialogTitle>
 						<DialogDescription>
-							Create a shareable link for this file
+							Create a shareable link for this file or manage existing ones
 						</DialogDescription>
 					</DialogHeader>
 					<div className="space-y-4">
 						<div className="flex items-center space-x-3">
-							{selectedFile?.thumbnailUrl ? (
-								<img
-									src={selectedFile.thumbnailUrl}
+							{selectedFile?.mimeType.startsWith("image/") ? (
+								<NextImage
+									src={getImageSrc(selectedFile.id, "cover")}
 									alt={selectedFile.originalName}
+									width={48}
+									height={48}
 									className="h-12 w-12 rounded object-cover"
 								/>
 							) : (
@@ -463,6 +688,14 @@ export function FileUpload({
 								</p>
 							</div>
 						</div>
+						{selectedFile && <ShareLinksList fileId={selectedFile.id} />}
+						{/* Downloads through the link are watermarked, the stored file is not */}
+						{selectedFile?.mimeType.startsWith("image/") && (
+							<WatermarkPicker
+								value={shareWatermarkProfileId}
+								onChange={setShareWatermarkProfileId}
+							/>
+						)}
 					</div>
 					<DialogFooter>
 						<Button variant="outline" onClick={() => setShareDialogOpen(false)}>
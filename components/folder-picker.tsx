@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+import { toast } from "sonner";
+import { FolderPlus, Loader2 } from "lucide-react";
+import type { CategoryNode } from "@/types/categories";
+
+interface FolderPickerProps {
+	value: string | null;
+	onChange: (categoryId: string | null) => void;
+	disabled?: boolean;
+}
+
+// Select value used for "no folder" (Radix doesn't allow empty values)
+const ROOT_VALUE = "__root__";
+
+/**
+ * Flatten the category tree into indented options
+ */
+function flattenTree(
+	nodes: CategoryNode[],
+	depth = 0,
+): Array<{ id: string; name: string; depth: number }> {
+	return nodes.flatMap((node) => [
+		{ id: node.id, name: node.name, depth },
+		...flattenTree(node.children, depth + 1),
+	]);
+}
+
+export function FolderPicker({ value, onChange, disabled }: FolderPickerProps) {
+	const [isCreating, setIsCreating] = useState(false);
+	const [newFolderName, setNewFolderName] = useState("");
+
+	const utils = trpc.useUtils();
+	const { data: tree, isLoading } = trpc.categories.list.useQuery();
+	const createMutation = trpc.categories.create.useMutation();
+
+	const options = flattenTree(tree ?? []);
+
+	async function handleCreate() {
+		const name = newFolderName.trim();
+		if (!name) return;
+
+		try {
+			// New folders are created inside the currently selected one
+			const category = await createMutation.mutateAsync({
+				name,
+				parentId: value ?? undefined,
+			});
+			await utils.categories.list.invalidate();
+			onChange(category.id);
+			setNewFolderName("");
+			setIsCreating(false);
+			toast.success(`Folder "${name}" created`);
+		} catch {
+			toast.error("Failed to create folder");
+		}
+	}
+
+	return (
+		<div className="space-y-2">
+			<Label className="text-sm">Folder</Label>
+			<div className="flex items-center space-x-2">
+				<Select
+					value={value ?? ROOT_VALUE}
+					onValueChange={(next) => onChange(next === ROOT_VALUE ? null : next)}
+					disabled={disabled || isLoading}
+				>
+					<SelectTrigger className="w-64">
+						<SelectValue placeholder="Select a folder" />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ROOT_VALUE}>No folder</SelectItem>
+						{options.map((option) => (
+							<SelectItem key={option.id} value={option.id}>
+								<span style={{ paddingLeft: option.depth * 12 }}>
+									{option.name}
+								</span>
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={() => setIsCreating((prev) => !prev)}
+					disabled={disabled}
+				>
+					<FolderPlus className="h-4 w-4" />
+				</Button>
+			</div>
+
+			{isCreating && (
+				<div className="flex items-center space-x-2">
+					<Input
+						value={newFolderName}
+						onChange={(e) => setNewFolderName(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								e.preventDefault();
+								void handleCreate();
+							}
+						}}
+						placeholder="New folder name"
+						className="w-64"
+					/>
+					<Button
+						size="sm"
+						onClick={handleCreate}
+						disabled={!newFolderName.trim() || createMutation.isPending}
+					>
+						{createMutation.isPending && (
+							<Loader2 className="h-4 w-4 mr-2 animate-spin" />
+						)}
+						Create
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
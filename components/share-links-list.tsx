@@ -0,0 +1,108 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/utils/trpc";
+import { toast } from "sonner";
+import { Copy, Loader2, Lock, XCircle } from "lucide-react";
+import type { ShareLinkItem, ShareLinkStatus } from "@/types/share";
+
+interface ShareLinksListProps {
+	fileId: string;
+}
+
+const STATUS_VARIANTS: Record<ShareLinkStatus, "default" | "secondary" | "destructive"> = {
+	active: "default",
+	expired: "secondary",
+	exhausted: "secondary",
+	revoked: "destructive",
+};
+
+function describeLink(link: ShareLinkItem): string {
+	const downloads =
+		link.maxDownloads !== null
+			? `${link.downloadCount}/${link.maxDownloads} downloads`
+			: `${link.downloadCount} downloads`;
+	const lastAccess = link.lastAccessedAt
+		? `last used ${new Date(link.lastAccessedAt).toLocaleString()}`
+		: "never used";
+	const expiry = link.expiresAt
+		? `expires ${new Date(link.expiresAt).toLocaleString()}`
+		: "no expiry";
+
+	return `${downloads} · ${lastAccess} · ${expiry}`;
+}
+
+/**
+ * Existing share links of a file, with copy and revoke actions
+ */
+export function ShareLinksList({ fileId }: ShareLinksListProps) {
+	const utils = trpc.useUtils();
+	const { data: links, isLoading } = trpc.share.listLinks.useQuery({ fileId });
+	const revokeMutation = trpc.share.revokeLink.useMutation();
+
+	async function handleRevoke(id: string) {
+		try {
+			await revokeMutation.mutateAsync({ id });
+			await utils.share.listLinks.invalidate({ fileId });
+			toast.success("Share link revoked");
+		} catch {
+			toast.error("Failed to revoke share link");
+		}
+	}
+
+	if (isLoading) {
+		return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+	}
+
+	if (!links?.length) {
+		return null;
+	}
+
+	return (
+		<div className="space-y-2">
+			<Label className="text-sm">Existing links</Label>
+			{links.map((link) => (
+				<div
+					key={link.id}
+					className="flex items-center justify-between p-2 border rounded-lg"
+				>
+					<div className="min-w-0 space-y-1">
+						<div className="flex items-center space-x-2">
+							<Badge variant={STATUS_VARIANTS[link.status]}>{link.status}</Badge>
+							{link.requiresPassword && (
+								<Lock className="h-3 w-3 text-muted-foreground" />
+							)}
+							<span className="text-xs text-muted-foreground">
+								Created {new Date(link.createdAt).toLocaleString()}
+							</span>
+						</div>
+						<p className="text-xs text-muted-foreground">{describeLink(link)}</p>
+					</div>
+					<div className="flex items-center space-x-1">
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => {
+								navigator.clipboard.writeText(link.url);
+								toast.success("Share link copied to clipboard!");
+							}}
+							disabled={link.status !== "active"}
+						>
+							<Copy className="h-4 w-4" />
+						</Button>
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => handleRevoke(link.id)}
+							disabled={link.status === "revoked" || revokeMutation.isPending}
+						>
+							<XCircle className="h-4 w-4" />
+						</Button>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+
+interface WatermarkPickerProps {
+	value: string | null;
+	onChange: (profileId: string | null) => void;
+	disabled?: boolean;
+}
+
+// Select value used for "no watermark" (Radix doesn't allow empty values)
+const NONE_VALUE = "__none__";
+
+export function WatermarkPicker({ value, onChange, disabled }: WatermarkPickerProps) {
+	const { data: profiles, isLoading } = trpc.watermarks.list.useQuery();
+
+	return (
+		<div className="space-y-2">
+			<Label className="text-sm">Watermark</Label>
+			<Select
+				value={value ?? NONE_VALUE}
+				onValueChange={(next) => onChange(next === NONE_VALUE ? null : next)}
+				disabled={disabled || isLoading}
+			>
+				<SelectTrigger className="w-64">
+					<SelectValue placeholder="Select a watermark" />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={NONE_VALUE}>No watermark</SelectItem>
+					{profiles?.map((profile) => (
+						<SelectItem key={profile.id} value={profile.id}>
+							{profile.name}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+}
@@ -4,6 +4,7 @@ import {
 	text,
 	timestamp,
 	boolean,
+	bigint,
 } from "drizzle-orm/mysql-core";
 
 export const user = mysqlTable("user", {
@@ -12,6 +13,15 @@ export const user = mysqlTable("user", {
 	email: varchar("email", { length: 255 }).notNull().unique(),
 	emailVerified: boolean("email_verified").notNull(),
 	image: text("image"),
+	role: varchar("role", { length: 20 })
+		.notNull()
+		.default("user")
+		.$type<"user" | "admin">(),
+	plan: varchar("plan", { length: 20 })
+		.notNull()
+		.default("free")
+		.$type<"free" | "pro" | "unlimited">(),
+	storageQuota: bigint("storage_quota", { mode: "number" }), // bytes, overrides the plan quota
 	createdAt: timestamp("created_at").notNull(),
 	updatedAt: timestamp("updated_at").notNull(),
 });
@@ -6,6 +6,7 @@ import {
 	int,
 	json,
 	index,
+	uniqueIndex,
 	boolean,
 	decimal,
 } from "drizzle-orm/mysql-core";
@@ -23,11 +24,17 @@ export const files = mysqlTable(
 		url: text("url").notNull(),
 		thumbnailUrl: text("thumbnail_url"),
 		path: varchar("path", { length: 255 }), // folder structure in MinIO
+		contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the object, hex
 
 		// User relation
 		userId: varchar("user_id", { length: 36 }).references(() => user.id, {
 			onDelete: "set null",
 		}),
+		// Set for files sent in through an upload request link
+		fileRequestId: varchar("file_request_id", { length: 36 }).references(
+			() => fileRequests.id,
+			{ onDelete: "set null" },
+		),
 
 		// File metadata
 		metadata: json("metadata").$type<{
@@ -50,11 +57,16 @@ export const files = mysqlTable(
 			.$type<"pending" | "processing" | "completed" | "failed">()
 			.default("completed"),
 		processingError: text("processing_error"),
+		// Malware scan, null when scanning is disabled
+		scanStatus: varchar("scan_status", { length: 20 }).$type<
+			"pending" | "clean" | "infected"
+		>(),
 
 		// Timestamps
 		createdAt: timestamp("created_at").notNull().defaultNow(),
 		updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
 		deletedAt: timestamp("deleted_at"),
+		expiresAt: timestamp("expires_at"), // temporary files (anonymous uploads) are purged after this
 	},
 	(table) => ({
 		userIdx: index("user_idx").on(table.userId),
@@ -62,6 +74,25 @@ export const files = mysqlTable(
 		createdAtIdx: index("created_at_idx").on(table.createdAt),
 		fileNameIdx: index("file_name_idx").on(table.fileName),
 		mimeTypeIdx: index("mime_type_idx").on(table.mimeType),
+		contentHashIdx: index("content_hash_idx").on(table.contentHash),
+		fileRequestIdx: index("file_request_idx").on(table.fileRequestId),
+		expiresAtIdx: index("expires_at_idx").on(table.expiresAt),
+	}),
+);
+
+// Reference counts for MinIO objects shared by deduplicated files
+export const storageObjects = mysqlTable(
+	"storage_objects",
+	{
+		objectName: varchar("object_name", { length: 255 }).primaryKey(),
+		contentHash: varchar("content_hash", { length: 64 }),
+		size: int("size").notNull(),
+		refCount: int("ref_count").notNull().default(0), // files rows pointing at the object
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+	},
+	(table) => ({
+		contentHashIdx: index("content_hash_idx").on(table.contentHash),
 	}),
 );
 
@@ -124,7 +155,11 @@ export const fileAccessLogs = mysqlTable(
 		}),
 		action: varchar("action", { length: 20 })
 			.notNull()
-			.$type<"view" | "download" | "share" | "delete">(),
+			.$type<"view" | "download" | "share" | "delete" | "restore" | "archive">(),
+		// Set for downloads through a share link (per-link access history)
+		linkId: varchar("link_id", { length: 36 }).references(() => fileSharingLinks.id, {
+			onDelete: "set null",
+		}),
 		ipAddress: varchar("ip_address", { length: 45 }),
 		userAgent: text("user_agent"),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -133,6 +168,7 @@ export const fileAccessLogs = mysqlTable(
 		fileIdx: index("file_idx").on(table.fileId),
 		userIdx: index("user_idx").on(table.userId),
 		actionIdx: index("action_idx").on(table.action),
+		linkIdx: index("link_idx").on(table.linkId),
 		createdAtIdx: index("created_at_idx").on(table.createdAt),
 	}),
 );
@@ -142,9 +178,19 @@ export const fileSharingLinks = mysqlTable(
 	"file_sharing_links",
 	{
 		id: varchar("id", { length: 36 }).primaryKey(),
-		fileId: varchar("file_id", { length: 36 })
+		// What the link shares: one file, a folder path (subfolders included),
+		// a category, or a fixed collection listed in file_sharing_link_files
+		targetType: varchar("target_type", { length: 20 })
 			.notNull()
-			.references(() => files.id, { onDelete: "cascade" }),
+			.default("file")
+			.$type<"file" | "path" | "category" | "collection">(),
+		fileId: varchar("file_id", { length: 36 }).references(() => files.id, {
+			onDelete: "cascade",
+		}),
+		targetPath: varchar("target_path", { length: 255 }),
+		categoryId: varchar("category_id", { length: 36 }).references(() => fileCategories.id, {
+			onDelete: "cascade",
+		}),
 		token: varchar("token", { length: 100 }).notNull().unique(),
 		password: varchar("password", { length: 255 }), // hashed password if protected
 		maxDownloads: int("max_downloads"),
@@ -154,12 +200,73 @@ export const fileSharingLinks = mysqlTable(
 			() => user.id,
 			{ onDelete: "set null" },
 		),
+		// Applied to downloads on the fly; profiles used by live links cannot be deleted
+		watermarkProfileId: varchar("watermark_profile_id", { length: 36 }).references(
+			() => watermarkProfiles.id,
+			{ onDelete: "set null" },
+		),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
 		lastAccessedAt: timestamp("last_accessed_at"),
+		revokedAt: timestamp("revoked_at"), // revoked links stay for their access history
 	},
 	(table) => ({
 		tokenIdx: index("token_idx").on(table.token),
 		fileIdx: index("file_idx").on(table.fileId),
+		categoryIdx: index("category_idx").on(table.categoryId),
+		createdByIdx: index("created_by_idx").on(table.createdBy),
+		expiresIdx: index("expires_idx").on(table.expiresAt),
+	}),
+);
+
+// Files of a "collection" share link
+export const fileSharingLinkFiles = mysqlTable(
+	"file_sharing_link_files",
+	{
+		id: varchar("id", { length: 36 }).primaryKey(),
+		linkId: varchar("link_id", { length: 36 })
+			.notNull()
+			.references(() => fileSharingLinks.id, { onDelete: "cascade" }),
+		fileId: varchar("file_id", { length: 36 })
+			.notNull()
+			.references(() => files.id, { onDelete: "cascade" }),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		linkIdx: index("link_idx").on(table.linkId),
+		fileIdx: index("file_idx").on(table.fileId),
+		uniqueLinkFile: uniqueIndex("unique_link_file").on(table.linkId, table.fileId),
+	}),
+);
+
+// Upload request links: people without an account send files to the owner
+export const fileRequests = mysqlTable(
+	"file_requests",
+	{
+		id: varchar("id", { length: 36 }).primaryKey(),
+		userId: varchar("user_id", { length: 36 })
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		token: varchar("token", { length: 100 }).notNull().unique(),
+		title: varchar("title", { length: 100 }).notNull(),
+		description: text("description"),
+		// Where received files go: a folder path and/or a category
+		targetPath: varchar("target_path", { length: 255 }),
+		categoryId: varchar("category_id", { length: 36 }).references(() => fileCategories.id, {
+			onDelete: "set null",
+		}),
+		allowedTypes: json("allowed_types").$type<string[]>(), // MIME types, "image/*" wildcards; null allows all
+		maxFileSize: int("max_file_size"), // bytes, on top of the global limits
+		maxFiles: int("max_files"),
+		uploadCount: int("upload_count").notNull().default(0),
+		password: varchar("password", { length: 255 }), // hashed password if protected
+		expiresAt: timestamp("expires_at"),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		lastUploadAt: timestamp("last_upload_at"),
+		revokedAt: timestamp("revoked_at"),
+	},
+	(table) => ({
+		tokenIdx: index("token_idx").on(table.token),
+		userIdx: index("user_idx").on(table.userId),
 		expiresIdx: index("expires_idx").on(table.expiresAt),
 	}),
 );
@@ -183,7 +290,16 @@ export const uploadSessions = mysqlTable(
 			.notNull()
 			.default("pending")
 			.$type<"pending" | "uploading" | "completed" | "failed" | "cancelled">(),
-		metadata: json("metadata"),
+		metadata: json("metadata").$type<{
+			objectName: string;
+			uploadId: string;
+			path?: string;
+			isPublic?: boolean;
+			stripMetadata?: boolean;
+			watermarkProfileId?: string;
+			fileId?: string;
+			parts: Array<{ part: number; etag: string; size: number }>;
+		}>(),
 		expiresAt: timestamp("expires_at").notNull(),
 		completedAt: timestamp("completed_at"),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -206,8 +322,11 @@ export const fileVersions = mysqlTable(
 			.references(() => files.id, { onDelete: "cascade" }),
 		versionNumber: int("version_number").notNull(),
 		fileName: varchar("file_name", { length: 255 }).notNull(),
+		mimeType: varchar("mime_type", { length: 100 }),
 		size: int("size").notNull(),
 		url: text("url").notNull(),
+		thumbnailUrl: text("thumbnail_url"),
+		metadata: json("metadata").$type<Record<string, unknown>>(),
 		changeDescription: text("change_description"),
 		createdBy: varchar("created_by", { length: 36 }).references(
 			() => user.id,
@@ -239,6 +358,9 @@ export const fileProcessingQueue = mysqlTable(
 				| "virus_scan"
 				| "ocr"
 				| "metadata_extraction"
+				| "text_extraction"
+				| "deduplication"
+				| "video_preview"
 			>(),
 		priority: int("priority").notNull().default(5), // 1-10, 1 is highest
 		status: varchar("status", { length: 20 })
@@ -247,9 +369,11 @@ export const fileProcessingQueue = mysqlTable(
 			.$type<"pending" | "processing" | "completed" | "failed" | "cancelled">(),
 		attempts: int("attempts").notNull().default(0),
 		maxAttempts: int("max_attempts").notNull().default(3),
-		processingData: json("processing_data"),
-		result: json("result"),
+		processingData: json("processing_data").$type<Record<string, unknown>>(),
+		result: json("result").$type<Record<string, unknown>>(),
 		error: text("error"),
+		lockedBy: varchar("locked_by", { length: 100 }), // worker holding the job
+		availableAt: timestamp("available_at").notNull().defaultNow(), // retry backoff
 		startedAt: timestamp("started_at"),
 		completedAt: timestamp("completed_at"),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -260,6 +384,7 @@ export const fileProcessingQueue = mysqlTable(
 		statusIdx: index("status_idx").on(table.status),
 		priorityIdx: index("priority_idx").on(table.priority),
 		typeIdx: index("type_idx").on(table.processingType),
+		claimIdx: index("claim_idx").on(table.status, table.availableAt, table.priority),
 	}),
 );
 
@@ -273,12 +398,38 @@ export const fileSearchIndex = mysqlTable(
 			.references(() => files.id, { onDelete: "cascade" }),
 		content: text("content"), // extracted text content for search
 		tags: text("tags"), // comma-separated tags
-		customMetadata: json("custom_metadata"),
+		customMetadata: json("custom_metadata").$type<Record<string, unknown>>(),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
 		updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
 	},
 	(table) => ({
-		fileIdx: index("file_idx").on(table.fileId),
+		fileIdx: uniqueIndex("file_idx").on(table.fileId),
 		fullTextIdx: index("fulltext_idx").on(table.content, table.tags),
 	}),
-);
\ No newline at end of file
+);
+
+// Reusable watermark settings, applied at upload time or to share link downloads
+export const watermarkProfiles = mysqlTable(
+	"watermark_profiles",
+	{
+		id: varchar("id", { length: 36 }).primaryKey(),
+		userId: varchar("user_id", { length: 36 })
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		name: varchar("name", { length: 100 }).notNull(),
+		type: varchar("type", { length: 10 }).notNull().$type<"image" | "text">(),
+		text: varchar("text", { length: 200 }), // text profiles
+		imageFileName: varchar("image_file_name", { length: 255 }), // image profiles, MinIO object
+		position: varchar("position", { length: 20 })
+			.notNull()
+			.default("bottom-right")
+			.$type<"center" | "top-left" | "top-right" | "bottom-left" | "bottom-right">(),
+		opacity: int("opacity").notNull().default(70), // percent
+		scale: int("scale").notNull().default(20), // watermark width, percent of the image width
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+	},
+	(table) => ({
+		userIdx: index("user_idx").on(table.userId),
+	}),
+);
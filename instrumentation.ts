@@ -0,0 +1,12 @@
+export async function register() {
+	// Run the file processing worker inside the Node.js server process
+	if (
+		process.env.NEXT_RUNTIME === "nodejs" &&
+		process.env.FILE_PROCESSING_WORKER !== "false"
+	) {
+		const { startProcessingWorker } = await import("@/lib/services/processing");
+		startProcessingWorker({
+			pollIntervalMs: parseInt(process.env.FILE_PROCESSING_POLL_MS || "2000"),
+		});
+	}
+}
@@ -1,5 +1,6 @@
 import type { Context as HonoContext } from "hono";
 import { auth } from "@/lib/auth";
+import { getClientIp } from "@/lib/middleware/rate-limiter";
 
 export type CreateContextOptions = {
 	context: HonoContext;
@@ -11,6 +12,7 @@ export async function createContext({ context }: CreateContextOptions) {
 	});
 	return {
 		session,
+		clientIp: getClientIp(context),
 	};
 }
 
@@ -1,6 +1,9 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import type { Context } from "./context";
 import { trpcLogger, StructuredLogger } from "@/lib/logger";
+import { db } from "@/db";
+import { user } from "@/db/schema/auth";
+import { eq } from "drizzle-orm";
 import superjson from "superjson";
 
 export const t = initTRPC.context<Context>().create({
@@ -73,3 +76,32 @@ export const protectedProcedure = t.procedure
 		});
 	});
 
+// Role is read from the database on every call so demotions apply immediately
+export const adminProcedure = protectedProcedure.use(async ({ ctx, next, path }) => {
+	const account = await db
+		.select({ role: user.role })
+		.from(user)
+		.where(eq(user.id, ctx.session.user.id))
+		.limit(1);
+
+	if (account[0]?.role !== "admin") {
+		trpcLogger.warn({
+			event: "auth.forbidden",
+			message: "Admin role required",
+			path,
+			userId: ctx.session.user.id,
+		});
+
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Admin role required",
+		});
+	}
+
+	return next({
+		ctx: {
+			...ctx,
+			role: account[0].role,
+		},
+	});
+});
@@ -8,6 +8,14 @@ export const FILE_SIZE_LIMITS = {
 	default: parseInt(process.env.MAX_FILE_SIZE || "52428800"), // 50MB
 };
 
+// Chunked (multipart) upload settings
+export const CHUNKED_UPLOAD = {
+	minChunkSize: 5 * 1024 * 1024, // 5MB, S3 minimum part size
+	defaultChunkSize: 5 * 1024 * 1024, // 5MB
+	threshold: 8 * 1024 * 1024, // files above 8MB are uploaded in chunks
+	sessionTtlHours: 24,
+};
+
 // Allowed MIME types
 export const ALLOWED_MIME_TYPES = {
 	image: [
@@ -38,6 +46,15 @@ export const ALLOWED_MIME_TYPES = {
 	],
 };
 
+// Documents that get page previews (Office files are converted to PDF first)
+export const PREVIEWABLE_DOCUMENT_TYPES = [
+	"application/pdf",
+	"application/msword",
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+	"application/vnd.ms-excel",
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
 // Get allowed types from environment or use defaults
 export function getAllowedTypes(): string[] {
 	if (process.env.ALLOWED_FILE_TYPES) {
@@ -87,6 +104,13 @@ export function isValidFileSize(
 	return size <= FILE_SIZE_LIMITS.default;
 }
 
+/**
+ * Check whether a document can be rendered page by page
+ */
+export function isPreviewableDocument(mimeType: string): boolean {
+	return PREVIEWABLE_DOCUMENT_TYPES.includes(mimeType);
+}
+
 /**
  * Sanitize filename
  */
@@ -191,6 +215,17 @@ export function parseContentDisposition(header: string): {
 	return result;
 }
 
+/**
+ * Build content disposition header (ASCII fallback + RFC 5987 encoded name)
+ */
+export function formatContentDisposition(
+	filename: string,
+	type: "attachment" | "inline" = "attachment",
+): string {
+	const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+	return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
 /**
  * Calculate file hash (for duplicate detection) - Client side version
  */
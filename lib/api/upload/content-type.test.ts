@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { sanitizeSvg, verifyContentType } from "./content-type";
+
+const SVG_WITH_PROLOG = `<?xml version="1.0"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+	<script>alert(1)</script>
+	<rect width="10" height="10" onclick="alert(2)"/>
+</svg>`;
+
+describe("verifyContentType", () => {
+	test("accepts an SVG that starts with an XML prolog", async () => {
+		const check = await verifyContentType(Buffer.from(SVG_WITH_PROLOG), "image/svg+xml", [
+			"image/svg+xml",
+		]);
+
+		expect(check).toEqual({ valid: true, mimeType: "image/svg+xml" });
+	});
+
+	test("rejects other XML declared as an SVG", async () => {
+		const check = await verifyContentType(
+			Buffer.from(`<?xml version="1.0"?>\n<note><to>everyone</to></note>`),
+			"image/svg+xml",
+			["image/svg+xml"],
+		);
+
+		expect(check.valid).toBe(false);
+	});
+});
+
+describe("sanitizeSvg", () => {
+	test("strips scripts and handlers from an SVG with an XML prolog", () => {
+		const sanitized = sanitizeSvg(Buffer.from(SVG_WITH_PROLOG))?.toString("utf8");
+
+		expect(sanitized).toContain("<rect");
+		expect(sanitized).not.toContain("<script");
+		expect(sanitized).not.toContain("onclick");
+	});
+});
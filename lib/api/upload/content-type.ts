@@ -0,0 +1,179 @@
+import { fileTypeFromBuffer } from "file-type";
+import DOMPurify from "isomorphic-dompurify";
+import { isValidFileType } from "./client";
+import { stripImageMetadata } from "./exif";
+import { logger } from "@/lib/logger";
+
+/**
+ * Content type detection from file signatures (Server-only)
+ */
+
+// Bytes needed to recognise every allowed type (Office files need the zip directory entries)
+export const CONTENT_SNIFF_BYTES = 64 * 1024;
+
+export type ContentTypeCheck =
+	| { valid: true; mimeType: string }
+	| { valid: false; error: string };
+
+// Types that carry no signature and are recognised as text
+const TEXT_MIME_TYPES = ["text/plain", "text/csv", "image/svg+xml"];
+
+// Declared names for the same type as the detected one
+const MIME_TYPE_ALIASES: Record<string, string> = {
+	"image/jpg": "image/jpeg",
+};
+
+// Detected types whose signature can't tell the declared variants apart
+const AMBIGUOUS_MIME_TYPES: Record<string, string[]> = {
+	// Legacy Office documents are all OLE compound files
+	"application/x-cfb": ["application/msword", "application/vnd.ms-excel"],
+	// A truncated head may not reach an Office document's content entries
+	"application/zip": [
+		"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	],
+	"application/ogg": ["video/ogg"],
+	"video/x-m4v": ["video/mp4"],
+};
+
+/**
+ * Check that bytes are UTF-8 text without binary control characters
+ */
+function isText(head: Uint8Array): boolean {
+	try {
+		// stream: true tolerates a multi-byte character cut off at the end of the head
+		const text = new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+		return !/[\x00-\x08\x0e-\x1a\x1c-\x1f]/.test(text);
+	} catch {
+		return false;
+	}
+}
+
+function looksLikeSvg(head: Uint8Array): boolean {
+	return /<svg[\s>]/i.test(Buffer.from(head).toString("utf8"));
+}
+
+/**
+ * Detect the real type of a file from its first bytes and check it against the
+ * declared type and the allowed types. Returns the type to store.
+ */
+export async function verifyContentType(
+	head: Uint8Array,
+	declaredMimeType: string,
+	allowedTypes?: string[],
+): Promise<ContentTypeCheck> {
+	const declared = declaredMimeType.toLowerCase();
+	const normalized = MIME_TYPE_ALIASES[declared] ?? declared;
+	const sample = head.subarray(0, CONTENT_SNIFF_BYTES);
+	const detected = await fileTypeFromBuffer(sample);
+
+	let mimeType: string;
+	if (detected) {
+		if (detected.mime === normalized) {
+			mimeType = detected.mime;
+		} else if (AMBIGUOUS_MIME_TYPES[detected.mime]?.includes(normalized)) {
+			mimeType = normalized;
+		} else if (
+			// An XML prolog makes SVGs detect as generic XML
+			detected.mime === "application/xml" &&
+			normalized === "image/svg+xml" &&
+			looksLikeSvg(sample)
+		) {
+			mimeType = normalized;
+		} else {
+			return {
+				valid: false,
+				error: `File content (${detected.mime}) does not match the declared type ${declared}`,
+			};
+		}
+	} else {
+		if (!TEXT_MIME_TYPES.includes(normalized) || !isText(sample)) {
+			return {
+				valid: false,
+				error: `File content does not match the declared type ${declared}`,
+			};
+		}
+		if (normalized === "image/svg+xml" && !looksLikeSvg(sample)) {
+			return { valid: false, error: "File is not a valid SVG image" };
+		}
+		mimeType = normalized;
+	}
+
+	if (!isValidFileType(mimeType, allowedTypes)) {
+		return { valid: false, error: `File type ${mimeType} is not allowed` };
+	}
+
+	return { valid: true, mimeType };
+}
+
+/**
+ * Strip scripts, event handlers and external references from an SVG so it is
+ * safe to serve from a public bucket. Returns null when nothing usable is left.
+ */
+export function sanitizeSvg(buffer: Buffer): Buffer | null {
+	const clean = DOMPurify.sanitize(buffer.toString("utf8"), {
+		USE_PROFILES: { svg: true, svgFilters: true },
+	});
+
+	return /<svg[\s>]/i.test(clean) ? Buffer.from(clean, "utf8") : null;
+}
+
+/**
+ * Auto-orient a raster image and strip privacy-sensitive metadata unless the
+ * uploader opted out. Returns the bytes to store and the details to record in
+ * `files.metadata`, or null when the image cannot be decoded.
+ */
+export async function prepareImageContent(
+	buffer: Buffer,
+	stripMetadata: boolean = true,
+): Promise<{ buffer: Buffer; imageMetadata: Record<string, unknown> } | null> {
+	try {
+		const result = await stripImageMetadata(buffer, stripMetadata);
+		return {
+			buffer: result.buffer,
+			imageMetadata: {
+				...result.photo,
+				...(result.width !== undefined && { width: result.width }),
+				...(result.height !== undefined && { height: result.height }),
+				metadataStripped: result.metadataStripped,
+			},
+		};
+	} catch (error) {
+		logger.warn({ message: "Failed to process image metadata", error });
+		return null;
+	}
+}
+
+/**
+ * Verify an uploaded buffer, sanitize it when it is an SVG and strip photo
+ * metadata from raster images
+ */
+export async function prepareUploadContent(
+	buffer: Buffer,
+	declaredMimeType: string,
+	options: { stripMetadata?: boolean } = {},
+): Promise<
+	| { valid: true; mimeType: string; buffer: Buffer; imageMetadata: Record<string, unknown> }
+	| { valid: false; error: string }
+> {
+	const check = await verifyContentType(buffer, declaredMimeType);
+	if (!check.valid) return check;
+
+	if (check.mimeType === "image/svg+xml") {
+		const sanitized = sanitizeSvg(buffer);
+		if (!sanitized) {
+			return { valid: false, error: "SVG image could not be sanitized" };
+		}
+		return { ...check, buffer: sanitized, imageMetadata: {} };
+	}
+
+	if (check.mimeType.startsWith("image/")) {
+		const image = await prepareImageContent(buffer, options.stripMetadata);
+		if (!image) {
+			return { valid: false, error: "Image could not be processed" };
+		}
+		return { ...check, ...image };
+	}
+
+	return { ...check, buffer, imageMetadata: {} };
+}
@@ -0,0 +1,158 @@
+import sharp from "sharp";
+import exifReader from "exif-reader";
+import { logger } from "@/lib/logger";
+
+// Formats that can carry EXIF / XMP / IPTC blocks and that sharp writes back
+const METADATA_FORMATS: Record<string, (image: sharp.Sharp) => sharp.Sharp> = {
+	jpeg: (image) => image.jpeg({ quality: 90 }),
+	png: (image) => image.png(),
+	webp: (image) => image.webp({ quality: 90 }),
+	heif: (image) => image.avif({ quality: 60 }),
+	tiff: (image) => image.tiff(),
+};
+
+/**
+ * Structured capture details stored in `files.metadata` for filtering.
+ * Location is only recorded when the uploader kept it in the file.
+ */
+export interface PhotoMetadata {
+	camera?: { make?: string; model?: string };
+	lens?: string;
+	capturedAt?: string; // ISO date, camera local time (EXIF has no zone)
+	exposure?: {
+		exposureTime?: number; // seconds
+		fNumber?: number;
+		iso?: number;
+		focalLength?: number; // mm
+	};
+	location?: { latitude: number; longitude: number; altitude?: number };
+}
+
+export interface ImageMetadataResult {
+	buffer: Buffer;
+	width?: number;
+	height?: number;
+	photo: PhotoMetadata;
+	metadataStripped: boolean;
+}
+
+// Drop undefined keys so merging into stored metadata never erases values
+function compact<T extends Record<string, unknown>>(value: T): T | undefined {
+	const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+	return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+function text(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() ? value.replace(/\0/g, "").trim() : undefined;
+}
+
+function number(value: unknown): number | undefined {
+	const first = Array.isArray(value) ? value[0] : value;
+	return typeof first === "number" && Number.isFinite(first) ? first : undefined;
+}
+
+// [degrees, minutes, seconds] + N/S/E/W -> signed decimal degrees
+function toDegrees(parts: number[] | undefined, ref: string | undefined): number | undefined {
+	if (!parts || parts.length < 3) return undefined;
+	const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+	return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+/**
+ * Read camera, lens, capture date, exposure and location from a raw EXIF block
+ */
+export function readPhotoMetadata(exif: Buffer): PhotoMetadata {
+	let tags: ReturnType<typeof exifReader>;
+	try {
+		tags = exifReader(exif);
+	} catch (error) {
+		logger.debug({ message: "Unreadable EXIF block", error });
+		return {};
+	}
+
+	const capturedAt = tags.Photo?.DateTimeOriginal ?? tags.Image?.DateTime;
+	const latitude = toDegrees(tags.GPSInfo?.GPSLatitude, tags.GPSInfo?.GPSLatitudeRef);
+	const longitude = toDegrees(tags.GPSInfo?.GPSLongitude, tags.GPSInfo?.GPSLongitudeRef);
+	const altitude = number(tags.GPSInfo?.GPSAltitude);
+
+	const photo: PhotoMetadata = {
+		camera: compact({ make: text(tags.Image?.Make), model: text(tags.Image?.Model) }),
+		lens: text(tags.Photo?.LensModel) ?? text(tags.Photo?.LensMake),
+		capturedAt:
+			capturedAt instanceof Date && !isNaN(capturedAt.getTime())
+				? capturedAt.toISOString()
+				: undefined,
+		exposure: compact({
+			exposureTime: number(tags.Photo?.ExposureTime),
+			fNumber: number(tags.Photo?.FNumber),
+			iso: number(tags.Photo?.ISOSpeedRatings),
+			focalLength: number(tags.Photo?.FocalLength),
+		}),
+		location:
+			latitude !== undefined && longitude !== undefined
+				? compact({
+						latitude,
+						longitude,
+						altitude:
+							altitude !== undefined && tags.GPSInfo?.GPSAltitudeRef === 1
+								? -altitude
+								: altitude,
+					})
+				: undefined,
+	};
+
+	return compact({ ...photo }) ?? {};
+}
+
+/**
+ * Auto-orient an image and strip EXIF / XMP / IPTC, keeping the colour profile
+ * and the camera make and model. With stripMetadata false the file is left
+ * untouched. Capture details are read before anything is removed.
+ */
+export async function stripImageMetadata(
+	buffer: Buffer,
+	stripMetadata: boolean = true,
+): Promise<ImageMetadataResult> {
+	const metadata = await sharp(buffer).metadata();
+	const photo = metadata.exif ? readPhotoMetadata(metadata.exif) : {};
+	const width = metadata.autoOrient?.width ?? metadata.width;
+	const height = metadata.autoOrient?.height ?? metadata.height;
+
+	if (!stripMetadata) {
+		return { buffer, width, height, photo, metadataStripped: false };
+	}
+
+	const safePhoto = { ...photo };
+	delete safePhoto.location;
+	const writeFormat = metadata.format ? METADATA_FORMATS[metadata.format] : undefined;
+	const animated = (metadata.pages ?? 1) > 1;
+	const rotated = (metadata.orientation ?? 1) > 1;
+
+	// Nothing to remove, keep the original bytes
+	if (!writeFormat || (!metadata.exif && !metadata.xmp && !metadata.iptc && !rotated)) {
+		return { buffer, width, height, photo: safePhoto, metadataStripped: true };
+	}
+
+	let image = sharp(buffer, { animated });
+	if (!animated) {
+		image = image.autoOrient();
+	}
+	image = image.keepIccProfile();
+
+	const camera: Record<string, string> = {};
+	if (photo.camera?.make) camera.Make = photo.camera.make;
+	if (photo.camera?.model) camera.Model = photo.camera.model;
+	if (Object.keys(camera).length > 0) {
+		image = image.withExif({ IFD0: camera });
+	}
+
+	const output = await writeFormat(image).toBuffer({ resolveWithObject: true });
+
+	return {
+		buffer: output.data,
+		width: output.info.width,
+		height: animated ? metadata.pageHeight : output.info.height,
+		photo: safePhoto,
+		metadataStripped: true,
+	};
+}
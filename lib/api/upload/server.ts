@@ -2,24 +2,29 @@ import sharp from "sharp";
 import { nanoid } from "nanoid";
 import { logger } from "@/lib/logger";
 import crypto from "crypto";
+import { readPhotoMetadata } from "./exif";
 
 // Re-export common utilities from client version
 export {
 	FILE_SIZE_LIMITS,
+	CHUNKED_UPLOAD,
 	ALLOWED_MIME_TYPES,
 	getAllowedTypes,
 	isValidFileType,
 	isValidFileSize,
+	isPreviewableDocument,
 	sanitizeFilename,
 	generateUniqueFilename,
 	getExtensionFromMimeType,
 	formatFileSize,
 	getFileCategory,
 	parseContentDisposition,
+	formatContentDisposition,
 } from "./client";
 
 /**
- * Process image - resize and optimize (Server-only)
+ * Process image - resize and optimize (Server-only).
+ * The output is auto-oriented; EXIF is dropped unless keepMetadata is set.
  */
 export async function processImage(
 	buffer: Buffer,
@@ -29,14 +34,19 @@ export async function processImage(
 		quality?: number;
 		format?: keyof sharp.FormatEnum;
 		fit?: keyof sharp.FitEnum;
+		keepMetadata?: boolean;
 	},
 ): Promise<Buffer> {
 	try {
-		let sharpInstance = sharp(buffer);
+		let sharpInstance = sharp(buffer).autoOrient();
 
 		// Get metadata
 		const metadata = await sharpInstance.metadata();
 
+		if (options?.keepMetadata) {
+			sharpInstance = sharpInstance.keepMetadata();
+		}
+
 		// Resize if dimensions provided
 		if (options?.width || options?.height) {
 			sharpInstance = sharpInstance.resize({
@@ -80,6 +90,7 @@ export async function generateThumbnail(
 ): Promise<Buffer> {
 	try {
 		return await sharp(buffer)
+			.autoOrient()
 			.resize({
 				width,
 				height,
@@ -110,8 +121,11 @@ export async function extractImageMetadata(buffer: Buffer): Promise<{
 	try {
 		const metadata = await sharp(buffer).metadata();
 		return {
-			width: metadata.width,
-			height: metadata.height,
+			// Photo details (camera, lens, capture date) still present in the file
+			...(metadata.exif ? readPhotoMetadata(metadata.exif) : {}),
+			// Dimensions as displayed, after EXIF orientation
+			width: metadata.autoOrient?.width ?? metadata.width,
+			height: metadata.autoOrient?.height ?? metadata.height,
 			format: metadata.format,
 			size: metadata.size,
 			density: metadata.density,
@@ -128,36 +142,59 @@ export async function extractImageMetadata(buffer: Buffer): Promise<{
 	}
 }
 
+export type WatermarkPosition =
+	| "center"
+	| "top-left"
+	| "top-right"
+	| "bottom-left"
+	| "bottom-right";
+
 /**
- * Add watermark to image (Server-only)
+ * Add watermark to image (Server-only).
+ * The watermark is resized to `scale` of the image width and faded to `opacity`.
  */
 export async function addWatermark(
 	imageBuffer: Buffer,
 	watermarkBuffer: Buffer,
-	position: "center" | "top-left" | "top-right" | "bottom-left" | "bottom-right" = "bottom-right",
+	position: WatermarkPosition = "bottom-right",
 	opacity: number = 0.7,
+	scale: number = 0.1,
 ): Promise<Buffer> {
 	try {
-		const image = sharp(imageBuffer);
-		const watermark = sharp(watermarkBuffer);
-
+		const image = sharp(imageBuffer).autoOrient();
 		const imageMetadata = await image.metadata();
-		const watermarkMetadata = await watermark.metadata();
+		const imageWidth = imageMetadata.autoOrient?.width ?? imageMetadata.width;
+		const imageHeight = imageMetadata.autoOrient?.height ?? imageMetadata.height;
 
-		if (!imageMetadata.width || !imageMetadata.height) {
+		if (!imageWidth || !imageHeight) {
 			throw new Error("Could not get image dimensions");
 		}
 
-		// Resize watermark to be 10% of the image width
-		const watermarkWidth = Math.floor(imageMetadata.width * 0.1);
-		const resizedWatermark = await watermark
-			.resize(watermarkWidth)
-			.toBuffer();
+		// Resize the watermark (never past the image) and multiply its alpha by the opacity
+		const resized = await sharp(watermarkBuffer)
+			.resize({
+				width: Math.max(1, Math.floor(imageWidth * scale)),
+				height: imageHeight,
+				fit: "inside",
+			})
+			.ensureAlpha()
+			.composite([
+				{
+					input: Buffer.from([0, 0, 0, Math.round(255 * opacity)]),
+					raw: { width: 1, height: 1, channels: 4 },
+					tile: true,
+					blend: "dest-in",
+				},
+			])
+			.png()
+			.toBuffer({ resolveWithObject: true });
+		const watermarkWidth = resized.info.width;
+		const watermarkHeight = resized.info.height;
 
 		// Calculate position
 		let left = 0;
 		let top = 0;
-		const padding = 10;
+		const padding = Math.max(10, Math.floor(imageWidth * 0.02));
 
 		switch (position) {
 			case "top-left":
@@ -165,31 +202,29 @@ export async function addWatermark(
 				top = padding;
 				break;
 			case "top-right":
-				left = imageMetadata.width - watermarkWidth - padding;
+				left = imageWidth - watermarkWidth - padding;
 				top = padding;
 				break;
 			case "bottom-left":
 				left = padding;
-				top = imageMetadata.height - (watermarkMetadata.height || 0) - padding;
+				top = imageHeight - watermarkHeight - padding;
 				break;
 			case "bottom-right":
-				left = imageMetadata.width - watermarkWidth - padding;
-				top = imageMetadata.height - (watermarkMetadata.height || 0) - padding;
+				left = imageWidth - watermarkWidth - padding;
+				top = imageHeight - watermarkHeight - padding;
 				break;
 			case "center":
-				left = Math.floor((imageMetadata.width - watermarkWidth) / 2);
-				top = Math.floor(
-					(imageMetadata.height - (watermarkMetadata.height || 0)) / 2,
-				);
+				left = Math.floor((imageWidth - watermarkWidth) / 2);
+				top = Math.floor((imageHeight - watermarkHeight) / 2);
 				break;
 		}
 
 		return await image
 			.composite([
 				{
-					input: resizedWatermark,
-					left,
-					top,
+					input: resized.data,
+					left: Math.max(0, left),
+					top: Math.max(0, top),
 					blend: "over",
 				},
 			])
@@ -200,6 +235,34 @@ export async function addWatermark(
 	}
 }
 
+/**
+ * Render text as a transparent PNG to use with addWatermark (Server-only)
+ */
+export async function renderTextWatermark(text: string): Promise<Buffer> {
+	const fontSize = 64;
+	const escaped = text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+	// Rough width estimate; addWatermark scales the result anyway
+	const width = Math.ceil(text.length * fontSize * 0.62) + fontSize;
+	const height = Math.ceil(fontSize * 1.5);
+
+	const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+	<text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle"
+		font-family="sans-serif" font-size="${fontSize}" font-weight="bold"
+		fill="white" stroke="black" stroke-width="2" paint-order="stroke">${escaped}</text>
+</svg>`;
+
+	try {
+		return await sharp(Buffer.from(svg)).png().trim().toBuffer();
+	} catch (error) {
+		logger.error({ message: "Error rendering text watermark", error });
+		throw error;
+	}
+}
+
 /**
  * Convert image format (Server-only)
  */
@@ -243,6 +306,12 @@ export async function processUploadedFile(
 		maxHeight?: number;
 		quality?: number;
 		addWatermark?: Buffer;
+		watermarkOptions?: {
+			position?: WatermarkPosition;
+			opacity?: number;
+			scale?: number;
+		};
+		keepMetadata?: boolean;
 	},
 ): Promise<ProcessedFile> {
 	try {
@@ -278,6 +347,7 @@ export async function processUploadedFile(
 					width: options.maxWidth,
 					height: options.maxHeight,
 					quality: options.quality,
+					keepMetadata: options.keepMetadata,
 				});
 			}
 
@@ -286,6 +356,9 @@ export async function processUploadedFile(
 				processedBuffer = await addWatermark(
 					processedBuffer,
 					options.addWatermark,
+					options.watermarkOptions?.position,
+					options.watermarkOptions?.opacity,
+					options.watermarkOptions?.scale,
 				);
 			}
 
@@ -84,6 +84,15 @@ export const auth = betterAuth<BetterAuthOptions>({
 		provider: "mysql",
 		schema: schema,
 	}),
+	user: {
+		additionalFields: {
+			role: {
+				type: "string",
+				defaultValue: "user",
+				input: false, // never settable from sign-up payloads; see `bun run admin:promote`
+			},
+		},
+	},
 	trustedOrigins: [process.env.CORS_ORIGIN || ""],
 	emailAndPassword: {
 		enabled: true,
@@ -0,0 +1,2 @@
+// Image variant exports
+export * from "./variants";
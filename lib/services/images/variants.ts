@@ -0,0 +1,128 @@
+import { processImage } from "@/lib/api/upload/server";
+import { logger } from "@/lib/logger";
+import {
+	getFileBuffer,
+	getFileMetadata,
+	fileExists,
+	replaceFile,
+	listFiles,
+	deleteFiles,
+} from "@/lib/services/storage/minio";
+
+// Sizes a variant may be requested at (Next.js default device and image sizes),
+// so the number of cached variants per image stays bounded
+export const IMAGE_VARIANT_SIZES = [
+	16, 32, 48, 64, 96, 128, 256, 384, 640, 750, 828, 1080, 1200, 1920, 2048, 3840,
+];
+
+export const IMAGE_VARIANT_FORMATS = ["webp", "avif", "jpeg", "png"] as const;
+export const IMAGE_VARIANT_FITS = ["cover", "contain", "fill", "inside", "outside"] as const;
+
+// Quality is rounded to this step for the same reason
+const QUALITY_STEP = 5;
+
+// Raster formats sharp can decode
+export const TRANSFORMABLE_IMAGE_TYPES = [
+	"image/jpeg",
+	"image/jpg",
+	"image/png",
+	"image/webp",
+	"image/avif",
+	"image/gif",
+];
+
+// Variants live under their source object's name so they can be removed with it
+export const VARIANT_PREFIX = "variants";
+
+export type ImageVariantFormat = (typeof IMAGE_VARIANT_FORMATS)[number];
+export type ImageVariantFit = (typeof IMAGE_VARIANT_FITS)[number];
+
+export interface ImageVariantOptions {
+	width?: number;
+	height?: number;
+	fit: ImageVariantFit;
+	format: ImageVariantFormat;
+	quality: number;
+}
+
+export interface ImageVariant {
+	buffer: Buffer;
+	contentType: string;
+	cached: boolean;
+}
+
+export function normalizeVariantQuality(quality: number): number {
+	return Math.min(100, Math.max(QUALITY_STEP, Math.round(quality / QUALITY_STEP) * QUALITY_STEP));
+}
+
+function getVariantPrefix(objectName: string): string {
+	return `${VARIANT_PREFIX}/${objectName}/`;
+}
+
+/**
+ * Object name for another file derived from a source object (e.g. a video
+ * preview clip), stored with the image variants so it is deleted with them
+ */
+export function getDerivedObjectName(objectName: string, name: string): string {
+	return `${getVariantPrefix(objectName)}${name}`;
+}
+
+/**
+ * Variant key, tied to the source's ETag so in-place rewrites get fresh variants
+ */
+function getVariantKey(objectName: string, etag: string, options: ImageVariantOptions): string {
+	const size = `${options.width ?? "auto"}x${options.height ?? "auto"}`;
+	return `${getVariantPrefix(objectName)}${etag}-${size}-${options.fit}-q${options.quality}.${options.format}`;
+}
+
+/**
+ * Load a derived image from the variant cache, generating and storing it on a miss
+ */
+export async function getImageVariant(
+	objectName: string,
+	options: ImageVariantOptions,
+): Promise<ImageVariant> {
+	const contentType = `image/${options.format}`;
+	const source = await getFileMetadata(objectName);
+	const key = getVariantKey(objectName, source.etag, options);
+
+	if (await fileExists(key)) {
+		return { buffer: await getFileBuffer(key), contentType, cached: true };
+	}
+
+	const buffer = await processImage(await getFileBuffer(objectName), {
+		width: options.width,
+		height: options.height,
+		fit: options.fit,
+		format: options.format,
+		quality: options.quality,
+	});
+
+	// A failed cache write only costs a regeneration next time
+	try {
+		await replaceFile(key, buffer, contentType, { isVariant: "true", parentFile: objectName });
+	} catch (error) {
+		logger.warn({ message: `Failed to cache image variant: ${key}`, error });
+	}
+
+	return { buffer, contentType, cached: false };
+}
+
+/**
+ * Remove every cached variant of the given source objects
+ */
+export async function deleteImageVariants(objectNames: string[]): Promise<void> {
+	for (const objectName of objectNames) {
+		try {
+			const variants = await listFiles(getVariantPrefix(objectName), true);
+			const failed = await deleteFiles(
+				variants.flatMap((variant) => (variant.name ? [variant.name] : [])),
+			);
+			if (failed.length > 0) {
+				logger.warn(`Failed to delete ${failed.length} variants of ${objectName}`);
+			}
+		} catch (error) {
+			logger.warn({ message: `Failed to delete variants of ${objectName}`, error });
+		}
+	}
+}
@@ -6,4 +6,33 @@ export { auth } from "../auth";
 
 // Storage service
 export * from "./storage/minio";
+export * from "./storage/upload-sessions";
+export * from "./storage/direct-uploads";
+export * from "./storage/trash";
+export * from "./storage/quota";
+export * from "./storage/objects";
+export * from "./storage/content";
+export * from "./storage/access";
+export * from "./storage/zip";
+export * from "./storage/anonymous-uploads";
+export * from "./storage/signed-urls";
+export * from "./storage/url-migration";
 
+
+// Processing queue and worker
+export * from "./processing";
+
+// Search index
+export * from "./search";
+
+// Malware scanning
+export * from "./scanning";
+
+// Image variants
+export * from "./images";
+
+// Video and media tools
+export * from "./media";
+
+// Watermark profiles
+export * from "./watermarks";
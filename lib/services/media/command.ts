@@ -0,0 +1,66 @@
+import { spawn } from "child_process";
+
+export interface CommandOptions {
+	timeoutMs: number;
+	maxOutputBytes?: number;
+}
+
+// Enough for a poster frame or ffprobe JSON; larger outputs go through files
+const DEFAULT_MAX_OUTPUT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Run an external tool and collect its stdout. The process is killed when it
+ * runs past the timeout or writes more than maxOutputBytes.
+ */
+export function runCommand(
+	command: string,
+	args: string[],
+	options: CommandOptions,
+): Promise<Buffer> {
+	const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+	return new Promise((resolve, reject) => {
+		const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+		const stdout: Buffer[] = [];
+		let outputBytes = 0;
+		let stderr = "";
+		let failure: Error | null = null;
+
+		const fail = (error: Error) => {
+			failure ??= error;
+			child.kill("SIGKILL");
+		};
+
+		const timer = setTimeout(() => {
+			fail(new Error(`${command} timed out after ${options.timeoutMs}ms`));
+		}, options.timeoutMs);
+
+		child.stdout.on("data", (chunk: Buffer) => {
+			outputBytes += chunk.length;
+			if (outputBytes > maxOutputBytes) {
+				fail(new Error(`${command} output exceeded ${maxOutputBytes} bytes`));
+				return;
+			}
+			stdout.push(chunk);
+		});
+		// Keep the tail only, it holds the actual error
+		child.stderr.on("data", (chunk: Buffer) => {
+			stderr = (stderr + chunk.toString()).slice(-2000);
+		});
+
+		child.on("error", (error) => {
+			clearTimeout(timer);
+			reject(failure ?? error);
+		});
+		child.on("close", (code) => {
+			clearTimeout(timer);
+			if (failure) {
+				reject(failure);
+			} else if (code !== 0) {
+				reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+			} else {
+				resolve(Buffer.concat(stdout));
+			}
+		});
+	});
+}
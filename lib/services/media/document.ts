@@ -0,0 +1,144 @@
+import os from "os";
+import path from "path";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { fileExists, getFileBuffer, replaceFile } from "@/lib/services/storage/minio";
+import { getDerivedObjectName } from "@/lib/services/images/variants";
+import {
+	getExtensionFromMimeType,
+	PREVIEWABLE_DOCUMENT_TYPES,
+} from "@/lib/api/upload/client";
+import { runCommand } from "./command";
+
+// LIBREOFFICE_PATH / PDFTOPPM_PATH when the binaries are not on PATH
+const LIBREOFFICE = process.env.LIBREOFFICE_PATH || "soffice";
+const PDFTOPPM = process.env.PDFTOPPM_PATH || "pdftoppm";
+const TIMEOUT_MS = parseInt(process.env.DOCUMENT_PROCESSING_TIMEOUT_MS || "120000");
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+// Converted to PDF with LibreOffice before rendering or text extraction
+export const OFFICE_MIME_TYPES = PREVIEWABLE_DOCUMENT_TYPES.filter(
+	(mimeType) => mimeType !== PDF_MIME_TYPE,
+);
+
+export function isOfficeDocument(mimeType: string): boolean {
+	return OFFICE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Run a tool in a scratch directory that is removed afterwards
+ */
+async function withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+	const dir = await mkdtemp(path.join(os.tmpdir(), "document-"));
+	try {
+		return await run(dir);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Convert an Office document to PDF with headless LibreOffice
+ */
+export async function convertToPdf(buffer: Buffer, mimeType: string): Promise<Buffer> {
+	return withTempDir(async (dir) => {
+		const input = path.join(dir, `document.${getExtensionFromMimeType(mimeType)}`);
+		await writeFile(input, buffer);
+
+		await runCommand(
+			LIBREOFFICE,
+			[
+				// A private profile lets conversions run side by side
+				`-env:UserInstallation=file://${path.join(dir, "profile")}`,
+				"--headless",
+				"--convert-to", "pdf",
+				"--outdir", dir,
+				input,
+			],
+			{ timeoutMs: TIMEOUT_MS },
+		);
+
+		return readFile(path.join(dir, "document.pdf"));
+	});
+}
+
+/**
+ * PDF for a stored document: the object itself for PDFs, otherwise a
+ * converted copy cached next to the object's other derived files
+ */
+export async function getDocumentPdf(objectName: string, mimeType: string): Promise<Buffer> {
+	if (mimeType === PDF_MIME_TYPE) {
+		return getFileBuffer(objectName);
+	}
+
+	const pdfName = getDerivedObjectName(objectName, "document.pdf");
+	if (await fileExists(pdfName)) {
+		return getFileBuffer(pdfName);
+	}
+
+	const pdf = await convertToPdf(await getFileBuffer(objectName), mimeType);
+	await replaceFile(pdfName, pdf, PDF_MIME_TYPE, { parentFile: objectName });
+
+	return pdf;
+}
+
+export async function getPdfPageCount(pdf: Buffer): Promise<number> {
+	const { getDocumentProxy } = await import("unpdf");
+	const document = await getDocumentProxy(new Uint8Array(pdf));
+	return document.numPages;
+}
+
+/**
+ * Render one page (1-based) to a JPEG of the given width
+ */
+export async function renderPdfPage(pdf: Buffer, page: number, width: number): Promise<Buffer> {
+	return withTempDir(async (dir) => {
+		const input = path.join(dir, "document.pdf");
+		const outputRoot = path.join(dir, "page");
+		await writeFile(input, pdf);
+
+		await runCommand(
+			PDFTOPPM,
+			[
+				"-f", page.toString(),
+				"-l", page.toString(),
+				"-scale-to-x", width.toString(),
+				"-scale-to-y", "-1",
+				"-jpeg",
+				"-jpegopt", "quality=80",
+				"-singlefile",
+				input,
+				outputRoot,
+			],
+			{ timeoutMs: TIMEOUT_MS },
+		);
+
+		return readFile(`${outputRoot}.jpg`);
+	});
+}
+
+/**
+ * Rendered page (1-based) of a stored document, cached next to the object.
+ * Returns null when the document has fewer pages.
+ */
+export async function getDocumentPage(
+	objectName: string,
+	mimeType: string,
+	options: { page: number; width: number; pageCount?: number },
+): Promise<Buffer | null> {
+	const pageName = getDerivedObjectName(objectName, `page-${options.page}-w${options.width}.jpg`);
+	if (await fileExists(pageName)) {
+		return getFileBuffer(pageName);
+	}
+
+	const pdf = await getDocumentPdf(objectName, mimeType);
+	const pageCount = options.pageCount ?? (await getPdfPageCount(pdf));
+	if (options.page > pageCount) {
+		return null;
+	}
+
+	const rendered = await renderPdfPage(pdf, options.page, options.width);
+	await replaceFile(pageName, rendered, "image/jpeg", { parentFile: objectName });
+
+	return rendered;
+}
@@ -0,0 +1,24 @@
+// External command runner
+export { runCommand, type CommandOptions } from "./command";
+
+// Video exports
+export {
+	probeVideo,
+	extractPosterFrame,
+	createPreviewClip,
+	getPosterTimestamp,
+	isVideoPreviewEnabled,
+	type VideoMetadata,
+} from "./video";
+
+// Document exports
+export {
+	PDF_MIME_TYPE,
+	OFFICE_MIME_TYPES,
+	isOfficeDocument,
+	convertToPdf,
+	getDocumentPdf,
+	getPdfPageCount,
+	renderPdfPage,
+	getDocumentPage,
+} from "./document";
@@ -0,0 +1,173 @@
+import os from "os";
+import path from "path";
+import { readFile, unlink } from "fs/promises";
+import { nanoid } from "nanoid";
+import { getPresignedUrl } from "@/lib/services/storage/minio";
+import { runCommand } from "./command";
+
+// FFMPEG_PATH / FFPROBE_PATH when the binaries are not on PATH
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe";
+const TIMEOUT_MS = parseInt(process.env.VIDEO_PROCESSING_TIMEOUT_MS || "120000");
+
+// ffmpeg reads the object over HTTP so it can seek without downloading it all
+const SOURCE_URL_EXPIRY_SECONDS = 15 * 60;
+
+const POSTER_MAX_WIDTH = 1280;
+const PREVIEW_MAX_WIDTH = 480;
+
+export interface VideoMetadata {
+	duration?: number; // seconds
+	width?: number;
+	height?: number;
+	videoCodec?: string;
+	audioCodec?: string;
+	frameRate?: number;
+	bitRate?: number;
+}
+
+interface ProbeStream {
+	codec_type?: string;
+	codec_name?: string;
+	width?: number;
+	height?: number;
+	avg_frame_rate?: string;
+	tags?: { rotate?: string };
+	side_data_list?: { rotation?: number }[];
+}
+
+interface ProbeOutput {
+	streams?: ProbeStream[];
+	format?: { duration?: string; bit_rate?: string };
+}
+
+/**
+ * Whether preview clips are generated (VIDEO_PREVIEW_CLIPS=true)
+ */
+export function isVideoPreviewEnabled(): boolean {
+	return process.env.VIDEO_PREVIEW_CLIPS === "true";
+}
+
+function toNumber(value: string | undefined): number | undefined {
+	const parsed = value === undefined ? NaN : Number(value);
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// "30000/1001" -> 29.97
+function parseFrameRate(rate: string | undefined): number | undefined {
+	const [num, den] = (rate ?? "").split("/").map(Number);
+	if (!num || !den) return undefined;
+	return Math.round((num / den) * 100) / 100;
+}
+
+/**
+ * Read duration, dimensions and codecs with ffprobe. Dimensions are reported
+ * as displayed, so phone videos recorded in portrait come out portrait.
+ */
+export async function probeVideo(objectName: string): Promise<VideoMetadata> {
+	const source = await getPresignedUrl(objectName, SOURCE_URL_EXPIRY_SECONDS);
+	const output = await runCommand(
+		FFPROBE,
+		["-v", "error", "-print_format", "json", "-show_format", "-show_streams", source],
+		{ timeoutMs: TIMEOUT_MS },
+	);
+
+	const probe = JSON.parse(output.toString()) as ProbeOutput;
+	const video = probe.streams?.find((stream) => stream.codec_type === "video");
+	const audio = probe.streams?.find((stream) => stream.codec_type === "audio");
+
+	let width = video?.width;
+	let height = video?.height;
+	const rotation = Math.abs(
+		video?.side_data_list?.find((data) => data.rotation !== undefined)?.rotation ??
+			toNumber(video?.tags?.rotate) ??
+			0,
+	);
+	if (rotation === 90 || rotation === 270) {
+		[width, height] = [height, width];
+	}
+
+	return {
+		duration: toNumber(probe.format?.duration),
+		width,
+		height,
+		videoCodec: video?.codec_name,
+		audioCodec: audio?.codec_name,
+		frameRate: parseFrameRate(video?.avg_frame_rate),
+		bitRate: toNumber(probe.format?.bit_rate),
+	};
+}
+
+/**
+ * Pick where to grab the poster frame: a little into the video to skip
+ * black intros, without going past the end of short clips
+ */
+export function getPosterTimestamp(duration?: number): number {
+	if (!duration) return 0;
+	return Math.min(5, duration * 0.1);
+}
+
+/**
+ * Grab a single frame as JPEG
+ */
+export async function extractPosterFrame(objectName: string, atSeconds: number): Promise<Buffer> {
+	const source = await getPresignedUrl(objectName, SOURCE_URL_EXPIRY_SECONDS);
+
+	const poster = await runCommand(
+		FFMPEG,
+		[
+			"-v", "error",
+			"-ss", atSeconds.toFixed(2),
+			"-i", source,
+			"-frames:v", "1",
+			"-vf", `scale='min(${POSTER_MAX_WIDTH},iw)':-2`,
+			"-f", "image2",
+			"-c:v", "mjpeg",
+			"-q:v", "3",
+			"pipe:1",
+		],
+		{ timeoutMs: TIMEOUT_MS },
+	);
+
+	if (poster.length === 0) {
+		throw new Error("ffmpeg produced no poster frame");
+	}
+	return poster;
+}
+
+/**
+ * Encode a short, silent, downscaled MP4 preview. Written to a temp file
+ * because faststart needs a seekable output.
+ */
+export async function createPreviewClip(
+	objectName: string,
+	options: { startSeconds: number; durationSeconds: number },
+): Promise<Buffer> {
+	const source = await getPresignedUrl(objectName, SOURCE_URL_EXPIRY_SECONDS);
+	const output = path.join(os.tmpdir(), `preview-${nanoid()}.mp4`);
+
+	try {
+		await runCommand(
+			FFMPEG,
+			[
+				"-v", "error",
+				"-ss", options.startSeconds.toFixed(2),
+				"-t", options.durationSeconds.toString(),
+				"-i", source,
+				"-an",
+				"-vf", `scale='min(${PREVIEW_MAX_WIDTH},iw)':-2`,
+				"-c:v", "libx264",
+				"-preset", "veryfast",
+				"-crf", "28",
+				"-pix_fmt", "yuv420p",
+				"-movflags", "+faststart",
+				"-y", output,
+			],
+			{ timeoutMs: TIMEOUT_MS },
+		);
+
+		return await readFile(output);
+	} finally {
+		await unlink(output).catch(() => undefined);
+	}
+}
@@ -0,0 +1,100 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import { Readable } from "stream";
+import * as minio from "@/lib/services/storage/minio";
+import { createEicarScanner, getInitialScanStatus, setMalwareScanner } from "@/lib/services/scanning";
+import { EICAR_TEST_FILE } from "@/test/eicar";
+import { createFileRecord } from "@/test/files";
+import { getQueries, resetFakeDb } from "@/test/fake-db";
+import type { ProcessingJob } from "./queue";
+
+let storedContent = "";
+
+mock.module("@/lib/services/storage/minio", () => ({
+	...minio,
+	getFile: mock(async () => Readable.from([Buffer.from(storedContent)])),
+	copyFile: mock(async () => {}),
+	deleteFile: mock(async () => {}),
+	listFiles: mock(async () => []),
+}));
+
+const { getProcessingHandler, withMalwareScan } = await import("./handlers");
+
+function createScanJob(next = [{ type: "thumbnail" as const, priority: 2 }]): ProcessingJob {
+	const now = new Date();
+
+	return {
+		id: "job-1",
+		fileId: "file-1",
+		processingType: "virus_scan",
+		priority: 1,
+		status: "processing",
+		attempts: 1,
+		maxAttempts: 3,
+		processingData: { next },
+		result: null,
+		error: null,
+		lockedBy: "worker-1",
+		availableAt: now,
+		startedAt: now,
+		completedAt: null,
+		createdAt: now,
+		updatedAt: now,
+	};
+}
+
+describe("virus_scan handler", () => {
+	const scan = getProcessingHandler("virus_scan")!;
+
+	beforeEach(() => {
+		resetFakeDb();
+		setMalwareScanner(createEicarScanner());
+	});
+
+	afterAll(() => {
+		setMalwareScanner(null);
+	});
+
+	test("new files wait for the scan", () => {
+		expect(getInitialScanStatus()).toBe("pending");
+		expect(withMalwareScan([{ type: "thumbnail", priority: 2 }])[0].type).toBe("virus_scan");
+	});
+
+	test("marks a clean file and queues the remaining jobs", async () => {
+		storedContent = "quarterly numbers";
+
+		const result = await scan({ job: createScanJob(), file: createFileRecord() });
+
+		expect(result).toEqual({ infected: false, scanner: "eicar" });
+		const queries = getQueries();
+		expect(
+			queries.find((query) => query.operation === "update" && query.table === "files")?.values,
+		).toEqual({ scanStatus: "clean" });
+		expect(
+			queries.find(
+				(query) => query.operation === "insert" && query.table === "file_processing_queue",
+			),
+		).toBeDefined();
+	});
+
+	test("quarantines an infected file and queues nothing", async () => {
+		storedContent = EICAR_TEST_FILE;
+		const file = createFileRecord();
+
+		const result = await scan({ job: createScanJob(), file });
+
+		expect(result).toEqual({
+			infected: true,
+			signature: "Eicar-Test-Signature",
+			quarantinedAs: `${minio.QUARANTINE_PREFIX}/${file.fileName}`,
+		});
+		const queries = getQueries();
+		expect(
+			queries.find((query) => query.operation === "update" && query.table === "files")?.values,
+		).toMatchObject({ scanStatus: "infected", isPublic: false });
+		expect(
+			queries.some(
+				(query) => query.operation === "insert" && query.table === "file_processing_queue",
+			),
+		).toBe(false);
+	});
+});
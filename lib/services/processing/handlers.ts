@@ -0,0 +1,451 @@
+import { db } from "@/db";
+import { files, fileVersions } from "@/db/schema/files";
+import { and, eq } from "drizzle-orm";
+import {
+	uploadFile,
+	uploadFileWithPath,
+	replaceFile,
+	getFile,
+	getFileBuffer,
+	deleteFile,
+} from "@/lib/services/storage/minio";
+import {
+	hashStoredObject,
+	findDuplicateFile,
+	retainObject,
+	releaseObjects,
+	replaceObjectReferences,
+	isObjectReferenced,
+} from "@/lib/services/storage/objects";
+import {
+	processImage,
+	generateThumbnail,
+	extractImageMetadata,
+	isPreviewableDocument,
+	ALLOWED_MIME_TYPES,
+} from "@/lib/api/upload/server";
+import { invalidateCache } from "@/lib/services/redis";
+import { getMalwareScanner, quarantineFile } from "@/lib/services/scanning";
+import { deleteImageVariants, getDerivedObjectName } from "@/lib/services/images/variants";
+import {
+	probeVideo,
+	extractPosterFrame,
+	createPreviewClip,
+	getPosterTimestamp,
+	isVideoPreviewEnabled,
+	PDF_MIME_TYPE,
+	isOfficeDocument,
+	getDocumentPdf,
+	getPdfPageCount,
+	renderPdfPage,
+} from "@/lib/services/media";
+import {
+	isIndexableMimeType,
+	extractSearchableText,
+	upsertSearchIndex,
+} from "@/lib/services/search";
+import { logger } from "@/lib/logger";
+import {
+	enqueueFileProcessing,
+	type ProcessingJob,
+	type ProcessingJobRequest,
+	type ProcessingType,
+} from "./queue";
+
+export type FileRecord = typeof files.$inferSelect;
+
+export interface ProcessingContext {
+	job: ProcessingJob;
+	file: FileRecord;
+}
+
+export type ProcessingHandler = (
+	context: ProcessingContext,
+) => Promise<Record<string, unknown> | void>;
+
+// Raster formats sharp can resize and write back in the same format
+const RESIZABLE_IMAGE_TYPES = [
+	"image/jpeg",
+	"image/jpg",
+	"image/png",
+	"image/webp",
+	"image/avif",
+];
+
+// Length of the optional video preview clip (VIDEO_PREVIEW_SECONDS)
+const VIDEO_PREVIEW_SECONDS = parseInt(process.env.VIDEO_PREVIEW_SECONDS || "5");
+
+// First-page thumbnails keep the page's aspect ratio instead of a square crop
+const DOCUMENT_THUMBNAIL_WIDTH = 400;
+
+const handlers = new Map<ProcessingType, ProcessingHandler>();
+
+/**
+ * Register (or replace) the handler for a processing type
+ */
+export function registerProcessingHandler(
+	type: ProcessingType,
+	handler: ProcessingHandler,
+): void {
+	handlers.set(type, handler);
+}
+
+export function getProcessingHandler(type: ProcessingType): ProcessingHandler | undefined {
+	return handlers.get(type);
+}
+
+/**
+ * Jobs to queue for a freshly uploaded file
+ */
+export function getProcessingJobs(mimeType: string): ProcessingJobRequest[] {
+	const jobs: ProcessingJobRequest[] = [];
+
+	if (RESIZABLE_IMAGE_TYPES.includes(mimeType)) {
+		jobs.push({
+			type: "resize",
+			priority: 3,
+			data: { maxWidth: 2000, maxHeight: 2000, quality: 85 },
+		});
+	}
+
+	if (ALLOWED_MIME_TYPES.image.includes(mimeType)) {
+		jobs.push({ type: "metadata_extraction", priority: 4 });
+		jobs.push({ type: "thumbnail", priority: 5 });
+	}
+
+	if (ALLOWED_MIME_TYPES.video.includes(mimeType)) {
+		jobs.push({ type: "metadata_extraction", priority: 4 });
+		jobs.push({ type: "thumbnail", priority: 5 });
+		if (isVideoPreviewEnabled()) {
+			jobs.push({ type: "video_preview", priority: 7 });
+		}
+	}
+
+	if (isPreviewableDocument(mimeType)) {
+		jobs.push({ type: "metadata_extraction", priority: 4 });
+		jobs.push({ type: "thumbnail", priority: 5 });
+	}
+
+	if (isIndexableMimeType(mimeType)) {
+		jobs.push({ type: "text_extraction", priority: 6 });
+	}
+
+	return jobs;
+}
+
+/**
+ * Jobs to queue for a file that reuses another file's object. The source's
+ * resize job moves every file sharing the object, and already processed
+ * results are copied over, so only per-file work is left.
+ */
+export function getDuplicateProcessingJobs(
+	mimeType: string,
+	source: FileRecord,
+): ProcessingJobRequest[] {
+	const jobs = getProcessingJobs(mimeType).filter((job) => job.type !== "resize");
+
+	if (source.processingStatus === "completed") {
+		return jobs.filter((job) => job.type === "text_extraction");
+	}
+
+	return jobs;
+}
+
+/**
+ * Put a malware scan in front of a file's jobs when scanning is enabled.
+ * The jobs are queued by the scan once the file is clean.
+ */
+export function withMalwareScan(jobs: ProcessingJobRequest[]): ProcessingJobRequest[] {
+	if (!getMalwareScanner()) return jobs;
+
+	return [{ type: "virus_scan", priority: 1, data: { next: jobs } }];
+}
+
+async function updateFile(
+	file: FileRecord,
+	values: Partial<typeof files.$inferInsert>,
+): Promise<void> {
+	await db.update(files).set(values).where(eq(files.id, file.id));
+	if (file.userId) {
+		await invalidateCache(`files:user:${file.userId}:*`);
+	}
+}
+
+/**
+ * Store a generated thumbnail on the file and on the version rows of its
+ * current object, so restoring that version keeps it
+ */
+async function setThumbnail(file: FileRecord, thumbnailUrl: string): Promise<void> {
+	await updateFile(file, { thumbnailUrl });
+	await db
+		.update(fileVersions)
+		.set({ thumbnailUrl })
+		.where(and(eq(fileVersions.fileId, file.id), eq(fileVersions.fileName, file.fileName)));
+}
+
+// Scan for malware before anything else touches the file or shares it
+registerProcessingHandler("virus_scan", async ({ job, file }) => {
+	const next = (job.processingData?.next ?? []) as ProcessingJobRequest[];
+	const scanner = getMalwareScanner();
+
+	// Scanning was turned off after the job was queued
+	if (!scanner) {
+		await updateFile(file, { scanStatus: null });
+		await enqueueFileProcessing(file.id, next);
+		return { skipped: true };
+	}
+
+	const result = await scanner.scan(await getFile(file.fileName));
+
+	if (result.infected) {
+		const quarantinedAs = await quarantineFile(file, result, scanner.name);
+		return { infected: true, signature: result.signature, quarantinedAs };
+	}
+
+	await updateFile(file, { scanStatus: "clean" });
+	await invalidateCache("files:public:*");
+	await enqueueFileProcessing(file.id, next);
+
+	return { infected: false, scanner: scanner.name };
+});
+
+// Downscale large images and refresh stored dimensions. The object may be
+// shared by deduplicated files, so the result is written to a new object and
+// every row pointing at the original is moved over.
+registerProcessingHandler("resize", async ({ job, file }) => {
+	const data = job.processingData ?? {};
+	const buffer = await getFileBuffer(file.fileName);
+
+	const resized = await processImage(buffer, {
+		width: Number(data.maxWidth ?? 2000),
+		height: Number(data.maxHeight ?? 2000),
+		quality: Number(data.quality ?? 85),
+		// Uploader opted out of metadata stripping
+		keepMetadata: file.metadata?.metadataStripped === false,
+	});
+
+	// Keep the new object in the original's folder
+	const folder = file.fileName.includes("/")
+		? file.fileName.slice(0, file.fileName.lastIndexOf("/"))
+		: null;
+	const stored = folder
+		? await uploadFileWithPath(resized, folder, file.originalName, file.mimeType)
+		: await uploadFile(resized, file.originalName, file.mimeType);
+	const imageMetadata = await extractImageMetadata(resized);
+
+	const owners = await replaceObjectReferences(file.fileName, stored, imageMetadata);
+	for (const userId of owners) {
+		await invalidateCache(`files:user:${userId}:*`);
+	}
+
+	// A file created meanwhile may still point at the original
+	if (!(await isObjectReferenced(file.fileName))) {
+		try {
+			await deleteFile(file.fileName);
+			await deleteImageVariants([file.fileName]);
+		} catch (error) {
+			logger.warn({ message: `Failed to remove resized original: ${file.fileName}`, error });
+		}
+	}
+
+	return {
+		originalSize: buffer.length,
+		size: stored.size,
+		width: imageMetadata.width,
+		height: imageMetadata.height,
+	};
+});
+
+// Generate the listing thumbnail (a poster frame for videos)
+registerProcessingHandler("thumbnail", async ({ file }) => {
+	if (ALLOWED_MIME_TYPES.video.includes(file.mimeType)) {
+		return generateVideoPoster(file);
+	}
+	if (isPreviewableDocument(file.mimeType)) {
+		return generateDocumentThumbnail(file);
+	}
+
+	const buffer = await getFileBuffer(file.fileName);
+	const thumbnailBuffer = await generateThumbnail(buffer);
+
+	const thumbnailResult = await uploadFile(
+		thumbnailBuffer,
+		`thumb_${file.fileName.split("/").pop()}`,
+		"image/jpeg",
+		{
+			isThumb: "true",
+			parentFile: file.fileName,
+		},
+	);
+
+	await setThumbnail(file, thumbnailResult.url);
+
+	return { thumbnailUrl: thumbnailResult.url };
+});
+
+// Capture image dimensions and format details, or duration and codecs for videos
+registerProcessingHandler("metadata_extraction", async ({ file }) => {
+	if (ALLOWED_MIME_TYPES.video.includes(file.mimeType)) {
+		const videoMetadata = await probeVideo(file.fileName);
+
+		await updateFile(file, {
+			metadata: { ...file.metadata, ...videoMetadata },
+		});
+
+		return { ...videoMetadata };
+	}
+
+	if (isPreviewableDocument(file.mimeType)) {
+		const pageCount = await getPdfPageCount(
+			await getDocumentPdf(file.fileName, file.mimeType),
+		);
+
+		await updateFile(file, {
+			metadata: { ...file.metadata, pageCount },
+		});
+
+		return { pageCount };
+	}
+
+	const buffer = await getFileBuffer(file.fileName);
+	const imageMetadata = await extractImageMetadata(buffer);
+
+	await updateFile(file, {
+		metadata: { ...file.metadata, ...imageMetadata },
+	});
+
+	return imageMetadata;
+});
+
+/**
+ * Store a frame from the video as its thumbnail
+ */
+async function generateVideoPoster(file: FileRecord): Promise<Record<string, unknown>> {
+	// Metadata extraction normally ran first; probe again if it did not
+	const metadata = file.metadata?.videoCodec ? file.metadata : await probeVideo(file.fileName);
+	if (!metadata.videoCodec) {
+		return { skipped: true, reason: "no video stream" };
+	}
+
+	const atSeconds = getPosterTimestamp(metadata.duration);
+	const poster = await extractPosterFrame(file.fileName, atSeconds);
+	const baseName = file.fileName.split("/").pop()!.replace(/\.[^.]+$/, "");
+
+	const posterResult = await uploadFile(poster, `poster_${baseName}.jpg`, "image/jpeg", {
+		isThumb: "true",
+		parentFile: file.fileName,
+	});
+
+	await setThumbnail(file, posterResult.url);
+
+	return { thumbnailUrl: posterResult.url, atSeconds };
+}
+
+/**
+ * Store a render of the document's first page as its thumbnail
+ */
+async function generateDocumentThumbnail(file: FileRecord): Promise<Record<string, unknown>> {
+	const pdf = await getDocumentPdf(file.fileName, file.mimeType);
+	const page = await renderPdfPage(pdf, 1, DOCUMENT_THUMBNAIL_WIDTH);
+	const baseName = file.fileName.split("/").pop()!.replace(/\.[^.]+$/, "");
+
+	const thumbnailResult = await uploadFile(page, `thumb_${baseName}.jpg`, "image/jpeg", {
+		isThumb: "true",
+		parentFile: file.fileName,
+	});
+
+	await setThumbnail(file, thumbnailResult.url);
+
+	return { thumbnailUrl: thumbnailResult.url };
+}
+
+// Short silent preview clip, stored next to the video's other derived files
+registerProcessingHandler("video_preview", async ({ file }) => {
+	const duration = file.metadata?.duration;
+	const startSeconds = getPosterTimestamp(duration);
+	const clip = await createPreviewClip(file.fileName, {
+		startSeconds,
+		durationSeconds: duration
+			? Math.min(VIDEO_PREVIEW_SECONDS, Math.max(duration - startSeconds, 1))
+			: VIDEO_PREVIEW_SECONDS,
+	});
+
+	const previewName = getDerivedObjectName(file.fileName, "preview.mp4");
+	const preview = await replaceFile(previewName, clip, "video/mp4", {
+		parentFile: file.fileName,
+	});
+
+	await updateFile(file, {
+		metadata: { ...file.metadata, previewUrl: preview.url },
+	});
+
+	return { previewUrl: preview.url, size: preview.size };
+});
+
+// Index extracted text for full-text search
+registerProcessingHandler("text_extraction", async ({ file }) => {
+	// Office documents are indexed through their PDF conversion
+	const content = isOfficeDocument(file.mimeType)
+		? await extractSearchableText(
+				await getDocumentPdf(file.fileName, file.mimeType),
+				PDF_MIME_TYPE,
+			)
+		: await extractSearchableText(await getFileBuffer(file.fileName), file.mimeType);
+
+	await upsertSearchIndex(file.id, { content });
+
+	return { indexedLength: content.length };
+});
+
+// Hash an object uploaded straight to storage and fold it into an existing copy.
+// Queues the regular processing afterwards so it runs on the final object.
+registerProcessingHandler("deduplication", async ({ file }) => {
+	const contentHash = await hashStoredObject(file.fileName);
+	const duplicate = file.userId
+		? await findDuplicateFile(contentHash, file.userId, file.id)
+		: null;
+
+	if (!duplicate || duplicate.fileName === file.fileName) {
+		// A hash means a previous attempt already took the reference
+		if (!file.contentHash) {
+			await retainObject(file.fileName, { contentHash, size: file.size });
+			await updateFile(file, { contentHash });
+		}
+		await enqueueFileProcessing(file.id, getProcessingJobs(file.mimeType));
+
+		return { contentHash, duplicateOf: null };
+	}
+
+	await retainObject(duplicate.fileName, { contentHash, size: duplicate.size });
+	await updateFile(file, {
+		contentHash,
+		fileName: duplicate.fileName,
+		url: duplicate.url,
+		size: duplicate.size,
+		thumbnailUrl: duplicate.thumbnailUrl,
+		metadata: {
+			...duplicate.metadata,
+			...file.metadata,
+			fileName: duplicate.fileName,
+			// Other users' files are never disclosed
+			duplicateOf: duplicate.userId === file.userId ? duplicate.id : undefined,
+		},
+	});
+
+	// Our own copy was never tracked, so this only clears a stale entry
+	const [released] = await releaseObjects([file.fileName]);
+	if (released && !(await isObjectReferenced(file.fileName))) {
+		try {
+			await deleteFile(file.fileName);
+		} catch (error) {
+			logger.warn({ message: `Failed to remove duplicate object: ${file.fileName}`, error });
+		}
+	}
+
+	await enqueueFileProcessing(
+		file.id,
+		getDuplicateProcessingJobs(file.mimeType, duplicate),
+	);
+
+	return { contentHash, duplicateOf: duplicate.id };
+});
@@ -0,0 +1,31 @@
+// Processing queue exports
+export {
+	enqueueFileProcessing,
+	claimNextJob,
+	completeJob,
+	failJob,
+	releaseStaleJobs,
+	refreshFileProcessingStatus,
+	type ProcessingJob,
+	type ProcessingType,
+	type ProcessingJobRequest,
+} from "./queue";
+
+// Processing handler exports
+export {
+	registerProcessingHandler,
+	getProcessingHandler,
+	getProcessingJobs,
+	getDuplicateProcessingJobs,
+	withMalwareScan,
+	type ProcessingContext,
+	type ProcessingHandler,
+} from "./handlers";
+
+// Worker exports
+export {
+	processNextJob,
+	startProcessingWorker,
+	stopProcessingWorker,
+	type ProcessingWorkerOptions,
+} from "./worker";
@@ -0,0 +1,235 @@
+import { db } from "@/db";
+import { files, fileProcessingQueue } from "@/db/schema/files";
+import { eq, and, asc, lte, inArray, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { logger } from "@/lib/logger";
+
+export type ProcessingJob = typeof fileProcessingQueue.$inferSelect;
+export type ProcessingType = ProcessingJob["processingType"];
+
+export interface ProcessingJobRequest {
+	type: ProcessingType;
+	priority?: number; // 1-10, 1 is highest
+	data?: Record<string, unknown>;
+	maxAttempts?: number;
+}
+
+// Retry backoff: 30s, 60s, 120s, ... capped at 1 hour
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// Jobs stuck in "processing" longer than this are assumed abandoned by a dead worker
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Add processing jobs for a file and mark the file as pending
+ */
+export async function enqueueFileProcessing(
+	fileId: string,
+	jobs: ProcessingJobRequest[],
+): Promise<void> {
+	if (jobs.length === 0) return;
+
+	try {
+		await db.insert(fileProcessingQueue).values(
+			jobs.map((job) => ({
+				id: nanoid(),
+				fileId,
+				processingType: job.type,
+				priority: job.priority ?? 5,
+				maxAttempts: job.maxAttempts ?? 3,
+				processingData: job.data,
+			})),
+		);
+
+		await db
+			.update(files)
+			.set({ processingStatus: "pending", processingError: null })
+			.where(eq(files.id, fileId));
+
+		logger.debug(`Queued ${jobs.length} processing jobs for file: ${fileId}`);
+	} catch (error) {
+		logger.error({ message: `Error queueing processing jobs for ${fileId}`, error });
+		throw error;
+	}
+}
+
+/**
+ * Claim the highest-priority available job for a worker.
+ * Uses a conditional update so two workers can never claim the same row.
+ */
+export async function claimNextJob(workerId: string): Promise<ProcessingJob | null> {
+	const candidates = await db
+		.select({ id: fileProcessingQueue.id })
+		.from(fileProcessingQueue)
+		.where(
+			and(
+				eq(fileProcessingQueue.status, "pending"),
+				lte(fileProcessingQueue.availableAt, new Date()),
+			),
+		)
+		.orderBy(asc(fileProcessingQueue.priority), asc(fileProcessingQueue.createdAt))
+		.limit(5);
+
+	for (const candidate of candidates) {
+		const [claim] = await db
+			.update(fileProcessingQueue)
+			.set({
+				status: "processing",
+				lockedBy: workerId,
+				startedAt: new Date(),
+				attempts: sql`${fileProcessingQueue.attempts} + 1`,
+			})
+			.where(
+				and(
+					eq(fileProcessingQueue.id, candidate.id),
+					eq(fileProcessingQueue.status, "pending"),
+				),
+			);
+
+		if (claim.affectedRows === 1) {
+			const job = await db
+				.select()
+				.from(fileProcessingQueue)
+				.where(eq(fileProcessingQueue.id, candidate.id))
+				.limit(1);
+			return job[0] ?? null;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Mark a job as done and store its result
+ */
+export async function completeJob(
+	job: ProcessingJob,
+	result?: Record<string, unknown>,
+): Promise<void> {
+	await db
+		.update(fileProcessingQueue)
+		.set({
+			status: "completed",
+			result,
+			error: null,
+			lockedBy: null,
+			completedAt: new Date(),
+		})
+		.where(eq(fileProcessingQueue.id, job.id));
+
+	await refreshFileProcessingStatus(job.fileId);
+}
+
+/**
+ * Record a failure; retry with exponential backoff until maxAttempts is reached
+ */
+export async function failJob(
+	job: ProcessingJob,
+	error: unknown,
+	options?: { retry?: boolean },
+): Promise<void> {
+	const message = error instanceof Error ? error.message : String(error);
+	const canRetry = (options?.retry ?? true) && job.attempts < job.maxAttempts;
+
+	if (canRetry) {
+		const delay = Math.min(
+			BACKOFF_BASE_MS * 2 ** Math.max(0, job.attempts - 1),
+			BACKOFF_MAX_MS,
+		);
+
+		await db
+			.update(fileProcessingQueue)
+			.set({
+				status: "pending",
+				error: message,
+				lockedBy: null,
+				availableAt: new Date(Date.now() + delay),
+			})
+			.where(eq(fileProcessingQueue.id, job.id));
+
+		logger.warn({
+			message: `Processing job ${job.id} failed, retrying in ${delay}ms`,
+			jobId: job.id,
+			attempts: job.attempts,
+			error: message,
+		});
+		return;
+	}
+
+	await db
+		.update(fileProcessingQueue)
+		.set({
+			status: "failed",
+			error: message,
+			lockedBy: null,
+			completedAt: new Date(),
+		})
+		.where(eq(fileProcessingQueue.id, job.id));
+
+	logger.error({
+		message: `Processing job ${job.id} failed permanently`,
+		jobId: job.id,
+		fileId: job.fileId,
+		processingType: job.processingType,
+		error: message,
+	});
+
+	await refreshFileProcessingStatus(job.fileId);
+}
+
+/**
+ * Put jobs whose worker died mid-run back into the queue
+ */
+export async function releaseStaleJobs(): Promise<number> {
+	const [result] = await db
+		.update(fileProcessingQueue)
+		.set({ status: "pending", lockedBy: null })
+		.where(
+			and(
+				eq(fileProcessingQueue.status, "processing"),
+				lte(fileProcessingQueue.startedAt, new Date(Date.now() - LOCK_TIMEOUT_MS)),
+			),
+		);
+
+	if (result.affectedRows > 0) {
+		logger.warn(`Released ${result.affectedRows} stale processing jobs`);
+	}
+
+	return result.affectedRows;
+}
+
+/**
+ * Derive files.processingStatus from the state of the file's jobs
+ */
+export async function refreshFileProcessingStatus(fileId: string): Promise<void> {
+	const jobs = await db
+		.select({
+			status: fileProcessingQueue.status,
+			error: fileProcessingQueue.error,
+		})
+		.from(fileProcessingQueue)
+		.where(
+			and(
+				eq(fileProcessingQueue.fileId, fileId),
+				inArray(fileProcessingQueue.status, ["pending", "processing", "failed"]),
+			),
+		);
+
+	const failed = jobs.find((job) => job.status === "failed");
+	const processingStatus = failed
+		? "failed"
+		: jobs.some((job) => job.status === "processing")
+			? "processing"
+			: jobs.length > 0
+				? "pending"
+				: "completed";
+
+	await db
+		.update(files)
+		.set({
+			processingStatus,
+			processingError: failed?.error ?? null,
+		})
+		.where(eq(files.id, fileId));
+}
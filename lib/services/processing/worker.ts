@@ -0,0 +1,132 @@
+import { db } from "@/db";
+import { files } from "@/db/schema/files";
+import { eq } from "drizzle-orm";
+import { hostname } from "os";
+import { nanoid } from "nanoid";
+import { logger } from "@/lib/logger";
+import {
+	claimNextJob,
+	completeJob,
+	failJob,
+	releaseStaleJobs,
+	refreshFileProcessingStatus,
+} from "./queue";
+import { getProcessingHandler } from "./handlers";
+import { scheduleTrashPurge } from "@/lib/services/storage/trash";
+import { scheduleTemporaryFilePurge } from "@/lib/services/storage/anonymous-uploads";
+import { scheduleUploadSessionSweep } from "@/lib/services/storage/upload-sessions";
+
+export interface ProcessingWorkerOptions {
+	pollIntervalMs?: number;
+	batchSize?: number; // max jobs per poll before yielding
+}
+
+const workerLogger = logger.child({ source: "worker" });
+
+let running = false;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Claim and run a single job. Returns false when the queue is empty.
+ */
+export async function processNextJob(workerId: string): Promise<boolean> {
+	const job = await claimNextJob(workerId);
+	if (!job) return false;
+
+	const start = Date.now();
+
+	try {
+		const file = await db
+			.select()
+			.from(files)
+			.where(eq(files.id, job.fileId))
+			.limit(1);
+
+		// Trashed files can be restored, so their malware scan still runs
+		if (
+			!file[0] ||
+			(file[0].status === "deleted" && job.processingType !== "virus_scan")
+		) {
+			await completeJob(job, { skipped: true, reason: "File no longer active" });
+			return true;
+		}
+
+		const handler = getProcessingHandler(job.processingType);
+		if (!handler) {
+			await failJob(job, new Error(`No handler for ${job.processingType}`), {
+				retry: false,
+			});
+			return true;
+		}
+
+		await refreshFileProcessingStatus(job.fileId);
+
+		const result = await handler({ job, file: file[0] });
+		await completeJob(job, result ?? undefined);
+
+		workerLogger.info({
+			event: "processing.job.completed",
+			message: `Processing job completed: ${job.processingType}`,
+			jobId: job.id,
+			fileId: job.fileId,
+			duration: Date.now() - start,
+		});
+	} catch (error) {
+		await failJob(job, error);
+	}
+
+	return true;
+}
+
+/**
+ * Start polling the processing queue in this process
+ */
+export function startProcessingWorker(options: ProcessingWorkerOptions = {}): void {
+	if (running) return;
+	running = true;
+
+	const pollIntervalMs = options.pollIntervalMs ?? 2000;
+	const batchSize = options.batchSize ?? 10;
+	const workerId = `${hostname()}:${process.pid}:${nanoid(6)}`;
+
+	const poll = async () => {
+		if (!running) return;
+
+		try {
+			await releaseStaleJobs();
+			await scheduleTrashPurge();
+			await scheduleTemporaryFilePurge();
+			await scheduleUploadSessionSweep();
+
+			let processed = 0;
+			while (running && processed < batchSize && (await processNextJob(workerId))) {
+				processed++;
+			}
+		} catch (error) {
+			workerLogger.error({ message: "Processing worker poll failed", error });
+		}
+
+		if (running) {
+			pollTimer = setTimeout(poll, pollIntervalMs);
+		}
+	};
+
+	workerLogger.info({
+		event: "processing.worker.started",
+		message: `Processing worker started: ${workerId}`,
+		workerId,
+	});
+
+	void poll();
+}
+
+/**
+ * Stop polling; a job that is already running finishes on its own
+ */
+export function stopProcessingWorker(): void {
+	running = false;
+	if (pollTimer) {
+		clearTimeout(pollTimer);
+		pollTimer = null;
+	}
+}
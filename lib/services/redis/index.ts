@@ -15,4 +15,5 @@ export {
 
 // Rate limiting exports
 export { checkRateLimit } from "./rate-limit";
+export { checkPasswordAttempt } from "./password-attempts";
 
@@ -0,0 +1,39 @@
+import { TRPCError } from "@trpc/server";
+import { redis } from "./client";
+
+// Wrong passwords allowed per target and client before it locks them out
+const PASSWORD_ATTEMPT_LIMIT = 10;
+const PASSWORD_ATTEMPT_WINDOW_SECONDS = 15 * 60;
+
+/**
+ * Compare a candidate password against a bcrypt hash. Wrong passwords are
+ * counted per target (e.g. `share:<link id>`) and client; past the limit every
+ * attempt is refused until the window runs out.
+ */
+export async function checkPasswordAttempt(
+	target: string,
+	clientIp: string,
+	password: string,
+	hash: string,
+): Promise<boolean> {
+	const key = `password_attempts:${target}:${clientIp}`;
+	const attempts = Number(await redis.get(key));
+	if (attempts >= PASSWORD_ATTEMPT_LIMIT) {
+		throw new TRPCError({
+			code: "TOO_MANY_REQUESTS",
+			message: "Too many password attempts, try again later",
+		});
+	}
+
+	const bcrypt = await import("bcryptjs");
+	const valid = await bcrypt.compare(password, hash);
+
+	if (!valid) {
+		// The window starts at the first wrong password
+		if ((await redis.incr(key)) === 1) {
+			await redis.expire(key, PASSWORD_ATTEMPT_WINDOW_SECONDS);
+		}
+	}
+
+	return valid;
+}
@@ -0,0 +1,89 @@
+import net from "net";
+import { once } from "events";
+import type { MalwareScanner, ScanResult } from "./scanner";
+
+export interface ClamdOptions {
+	socketPath?: string; // unix socket, takes precedence over host/port
+	host?: string;
+	port?: number;
+	timeoutMs?: number;
+}
+
+// clamd rejects INSTREAM chunks above StreamMaxLength, keep them small
+const CHUNK_SIZE = 64 * 1024;
+const DEFAULT_PORT = 3310;
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Parse a clamd reply such as "stream: OK" or "stream: Eicar-Signature FOUND"
+ */
+function parseReply(raw: string): ScanResult {
+	const reply = raw.replace(/\0/g, "").trim();
+
+	if (/^stream: OK$/.test(reply)) {
+		return { infected: false };
+	}
+
+	const found = /^stream: (.+) FOUND$/.exec(reply);
+	if (found) {
+		return { infected: true, signature: found[1] };
+	}
+
+	throw new Error(`clamd scan failed: ${reply || "empty reply"}`);
+}
+
+/**
+ * Scanner backed by a ClamAV daemon, streaming the file with INSTREAM
+ */
+export function createClamdScanner(options: ClamdOptions = {}): MalwareScanner {
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+	return {
+		name: "clamd",
+		async scan(input) {
+			const socket = options.socketPath
+				? net.createConnection(options.socketPath)
+				: net.createConnection(options.port ?? DEFAULT_PORT, options.host ?? "127.0.0.1");
+
+			socket.setTimeout(timeoutMs, () => {
+				socket.destroy(new Error(`clamd did not answer within ${timeoutMs}ms`));
+			});
+
+			let reply = "";
+			socket.on("data", (data) => {
+				reply += data.toString();
+			});
+			// Errors surface through the writes below, the reply is checked after close
+			const closed = once(socket, "close").catch(() => undefined);
+
+			try {
+				await once(socket, "connect");
+				socket.write("zINSTREAM\0");
+
+				for await (const chunk of input) {
+					const data = Buffer.from(chunk);
+					for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+						const slice = data.subarray(offset, offset + CHUNK_SIZE);
+						const size = Buffer.alloc(4);
+						size.writeUInt32BE(slice.length);
+
+						socket.write(size);
+						if (!socket.write(slice)) {
+							await once(socket, "drain");
+						}
+					}
+				}
+
+				// A zero-length chunk ends the stream
+				socket.end(Buffer.alloc(4));
+				await closed;
+			} catch (error) {
+				socket.destroy();
+				// clamd closes early with a reason (e.g. size limit exceeded)
+				if (!reply) throw error;
+			}
+
+			return parseReply(reply);
+		},
+	};
+}
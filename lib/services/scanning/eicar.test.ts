@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { Readable } from "stream";
+import { EICAR_TEST_FILE } from "@/test/eicar";
+import { createEicarScanner } from "./eicar";
+
+describe("createEicarScanner", () => {
+	const scanner = createEicarScanner();
+
+	test("passes a clean file", async () => {
+		const result = await scanner.scan(Readable.from([Buffer.from("just some text")]));
+		expect(result).toEqual({ infected: false });
+	});
+
+	test("detects the EICAR test file", async () => {
+		const result = await scanner.scan(Readable.from([Buffer.from(EICAR_TEST_FILE)]));
+		expect(result).toEqual({ infected: true, signature: "Eicar-Test-Signature" });
+	});
+
+	test("detects a signature split across chunks", async () => {
+		const chunks = [
+			Buffer.from(`padding ${EICAR_TEST_FILE.slice(0, 20)}`),
+			Buffer.from(EICAR_TEST_FILE.slice(20)),
+		];
+		const result = await scanner.scan(Readable.from(chunks));
+		expect(result.infected).toBe(true);
+	});
+});
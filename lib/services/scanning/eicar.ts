@@ -0,0 +1,27 @@
+import type { MalwareScanner } from "./scanner";
+
+// The industry-standard antivirus test string
+const EICAR_SIGNATURE =
+	"X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!H+H*";
+
+/**
+ * Local scanner that only detects the EICAR test file, for development and tests
+ */
+export function createEicarScanner(): MalwareScanner {
+	return {
+		name: "eicar",
+		async scan(input) {
+			// Carry the end of each chunk over so a split signature is still found
+			let tail = "";
+			for await (const chunk of input) {
+				const text = tail + Buffer.from(chunk).toString("latin1");
+				if (text.includes(EICAR_SIGNATURE)) {
+					return { infected: true, signature: "Eicar-Test-Signature" };
+				}
+				tail = text.slice(-(EICAR_SIGNATURE.length - 1));
+			}
+
+			return { infected: false };
+		},
+	};
+}
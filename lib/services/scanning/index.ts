@@ -0,0 +1,16 @@
+// Scanner exports
+export {
+	setMalwareScanner,
+	getMalwareScanner,
+	getInitialScanStatus,
+	isScanCleared,
+	type MalwareScanner,
+	type ScanResult,
+} from "./scanner";
+
+// Scanner implementations
+export { createClamdScanner, type ClamdOptions } from "./clamd";
+export { createEicarScanner } from "./eicar";
+
+// Quarantine exports
+export { quarantineFile, isQuarantined, isQuarantinedObject } from "./quarantine";
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as minio from "@/lib/services/storage/minio";
+import { createFileRecord } from "@/test/files";
+import { getQueries, resetFakeDb } from "@/test/fake-db";
+
+const copyFile = mock(async () => {});
+const deleteFile = mock(async () => {});
+
+mock.module("@/lib/services/storage/minio", () => ({
+	...minio,
+	copyFile,
+	deleteFile,
+	listFiles: mock(async () => []),
+}));
+
+const { quarantineFile } = await import("./quarantine");
+
+describe("quarantineFile", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		copyFile.mockClear();
+		deleteFile.mockClear();
+	});
+
+	test("moves the object under the quarantine prefix and hides the file", async () => {
+		const file = createFileRecord();
+
+		const destination = await quarantineFile(
+			file,
+			{ infected: true, signature: "Eicar-Test-Signature" },
+			"eicar",
+		);
+
+		expect(destination).toBe(`${minio.QUARANTINE_PREFIX}/${file.fileName}`);
+		expect(copyFile).toHaveBeenCalledWith(file.fileName, destination);
+		expect(deleteFile).toHaveBeenCalledWith(file.fileName);
+
+		const update = getQueries().find(
+			(query) => query.operation === "update" && query.table === "files",
+		);
+		expect(update?.values).toMatchObject({
+			fileName: destination,
+			url: minio.getObjectUrl(destination),
+			isPublic: false,
+			scanStatus: "infected",
+			metadata: { scan: { scanner: "eicar", signature: "Eicar-Test-Signature" } },
+		});
+	});
+});
@@ -0,0 +1,94 @@
+import { db } from "@/db";
+import { files, fileVersions } from "@/db/schema/files";
+import { and, eq } from "drizzle-orm";
+import { invalidateCache } from "@/lib/services/redis";
+import {
+	QUARANTINE_PREFIX,
+	copyFile,
+	deleteFile,
+	getObjectUrl,
+} from "@/lib/services/storage/minio";
+import {
+	retainObject,
+	releaseObjects,
+	isObjectReferenced,
+} from "@/lib/services/storage/objects";
+import { deleteImageVariants } from "@/lib/services/images/variants";
+import { logger } from "@/lib/logger";
+import type { ScanResult } from "./scanner";
+
+type FileRecord = typeof files.$inferSelect;
+
+/**
+ * Whether an object lives under the quarantine prefix
+ */
+export function isQuarantinedObject(objectName: string): boolean {
+	return objectName.startsWith(`${QUARANTINE_PREFIX}/`);
+}
+
+/**
+ * Whether a file must never be served: it failed the scan, or it points at
+ * a quarantined object (e.g. through an old version)
+ */
+export function isQuarantined(file: Pick<FileRecord, "fileName" | "scanStatus">): boolean {
+	return file.scanStatus === "infected" || isQuarantinedObject(file.fileName);
+}
+
+/**
+ * Move an infected file's object under the quarantine prefix and make it private.
+ * The row is kept so the owner can see why the upload was blocked.
+ */
+export async function quarantineFile(
+	file: FileRecord,
+	result: ScanResult,
+	scannerName: string,
+): Promise<string> {
+	const destination = `${QUARANTINE_PREFIX}/${file.fileName}`;
+	await copyFile(file.fileName, destination);
+
+	const url = getObjectUrl(destination);
+	await db
+		.update(files)
+		.set({
+			fileName: destination,
+			url,
+			isPublic: false,
+			scanStatus: "infected",
+			metadata: {
+				...file.metadata,
+				scan: {
+					scanner: scannerName,
+					signature: result.signature,
+					scannedAt: new Date().toISOString(),
+				},
+			},
+		})
+		.where(eq(files.id, file.id));
+	await db
+		.update(fileVersions)
+		.set({ fileName: destination, url })
+		.where(and(eq(fileVersions.fileId, file.id), eq(fileVersions.fileName, file.fileName)));
+
+	await retainObject(destination, { contentHash: file.contentHash, size: file.size });
+	const [released] = await releaseObjects([file.fileName]);
+	if (released && !(await isObjectReferenced(file.fileName))) {
+		await deleteFile(file.fileName);
+		await deleteImageVariants([file.fileName]);
+	}
+
+	if (file.userId) {
+		await invalidateCache(`files:user:${file.userId}:*`);
+	}
+	await invalidateCache("files:public:*");
+
+	logger.warn({
+		event: "file.quarantined",
+		message: `Malware detected in file: ${file.id}`,
+		fileId: file.id,
+		userId: file.userId,
+		signature: result.signature,
+		scanner: scannerName,
+	});
+
+	return destination;
+}
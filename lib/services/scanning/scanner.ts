@@ -0,0 +1,68 @@
+import type { Readable } from "stream";
+import type { SQL } from "drizzle-orm";
+import { eq, isNull, or } from "drizzle-orm";
+import { files } from "@/db/schema/files";
+import { createClamdScanner } from "./clamd";
+import { createEicarScanner } from "./eicar";
+
+export interface ScanResult {
+	infected: boolean;
+	signature?: string; // name of the detected malware
+}
+
+export interface MalwareScanner {
+	name: string;
+	scan(input: Readable): Promise<ScanResult>;
+}
+
+// undefined until resolved from the environment, null when scanning is disabled
+let activeScanner: MalwareScanner | null | undefined;
+
+/**
+ * Scanner selected by MALWARE_SCANNER ("clamd", "eicar" or unset to disable)
+ */
+function createScannerFromEnv(): MalwareScanner | null {
+	switch (process.env.MALWARE_SCANNER) {
+		case "clamd":
+			return createClamdScanner({
+				socketPath: process.env.CLAMD_SOCKET,
+				host: process.env.CLAMD_HOST,
+				port: process.env.CLAMD_PORT ? parseInt(process.env.CLAMD_PORT) : undefined,
+				timeoutMs: process.env.CLAMD_TIMEOUT_MS
+					? parseInt(process.env.CLAMD_TIMEOUT_MS)
+					: undefined,
+			});
+		case "eicar":
+			return createEicarScanner();
+		default:
+			return null;
+	}
+}
+
+/**
+ * Replace the scanner (null disables scanning)
+ */
+export function setMalwareScanner(scanner: MalwareScanner | null): void {
+	activeScanner = scanner;
+}
+
+export function getMalwareScanner(): MalwareScanner | null {
+	if (activeScanner === undefined) {
+		activeScanner = createScannerFromEnv();
+	}
+	return activeScanner;
+}
+
+/**
+ * Scan status for a new file row: held back until scanned, or untracked when scanning is off
+ */
+export function getInitialScanStatus(): "pending" | null {
+	return getMalwareScanner() ? "pending" : null;
+}
+
+/**
+ * Condition for files that may be shown to other people
+ */
+export function isScanCleared(): SQL {
+	return or(isNull(files.scanStatus), eq(files.scanStatus, "clean"))!;
+}
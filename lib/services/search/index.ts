@@ -0,0 +1,11 @@
+// Search index exports
+export {
+	INDEXABLE_MIME_TYPES,
+	MAX_TAGS_PER_FILE,
+	isIndexableMimeType,
+	extractSearchableText,
+	normalizeTags,
+	parseTags,
+	upsertSearchIndex,
+	type SearchIndexValues,
+} from "./indexer";
@@ -0,0 +1,95 @@
+import { db } from "@/db";
+import { fileSearchIndex } from "@/db/schema/files";
+import { nanoid } from "nanoid";
+import { logger } from "@/lib/logger";
+import { OFFICE_MIME_TYPES } from "@/lib/services/media/document";
+
+// Mime types we extract searchable text from. Office documents are indexed
+// through their PDF conversion, see the text_extraction job.
+export const INDEXABLE_MIME_TYPES = [
+	"text/plain",
+	"text/csv",
+	"application/pdf",
+	...OFFICE_MIME_TYPES,
+];
+
+// `content` is a TEXT column (64KB); 16k chars stays under it even for 4-byte UTF-8
+const MAX_INDEXED_CONTENT_LENGTH = 16000;
+
+export const MAX_TAGS_PER_FILE = 20;
+
+export interface SearchIndexValues {
+	content?: string | null;
+	tags?: string[];
+	customMetadata?: Record<string, unknown> | null;
+}
+
+export function isIndexableMimeType(mimeType: string): boolean {
+	return INDEXABLE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Extract plain text from a file buffer for the search index
+ */
+export async function extractSearchableText(
+	buffer: Buffer,
+	mimeType: string,
+): Promise<string> {
+	let text: string;
+
+	if (mimeType === "application/pdf") {
+		const { extractText, getDocumentProxy } = await import("unpdf");
+		const pdf = await getDocumentProxy(new Uint8Array(buffer));
+		const result = await extractText(pdf, { mergePages: true });
+		text = result.text;
+	} else {
+		text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+	}
+
+	return text
+		.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, MAX_INDEXED_CONTENT_LENGTH);
+}
+
+/**
+ * Lowercase, trim and dedupe tags. Commas are the storage separator so they are dropped.
+ */
+export function normalizeTags(tags: string[]): string[] {
+	const normalized = tags
+		.map((tag) => tag.replace(/,/g, " ").replace(/\s+/g, " ").trim().toLowerCase())
+		.filter((tag) => tag.length > 0);
+
+	return [...new Set(normalized)].slice(0, MAX_TAGS_PER_FILE);
+}
+
+export function parseTags(value: string | null | undefined): string[] {
+	return value ? value.split(",").filter((tag) => tag.length > 0) : [];
+}
+
+/**
+ * Create or update the search index row for a file (one row per file)
+ */
+export async function upsertSearchIndex(
+	fileId: string,
+	values: SearchIndexValues,
+): Promise<void> {
+	const row = {
+		...(values.content !== undefined && { content: values.content }),
+		...(values.tags !== undefined && { tags: normalizeTags(values.tags).join(",") }),
+		...(values.customMetadata !== undefined && {
+			customMetadata: values.customMetadata,
+		}),
+	};
+
+	try {
+		await db
+			.insert(fileSearchIndex)
+			.values({ id: nanoid(), fileId, ...row })
+			.onDuplicateKeyUpdate({ set: { ...row, updatedAt: new Date() } });
+	} catch (error) {
+		logger.error({ message: `Error updating search index for ${fileId}`, error });
+		throw error;
+	}
+}
@@ -0,0 +1,119 @@
+import { db } from "@/db";
+import { files, fileVersions, watermarkProfiles } from "@/db/schema/files";
+import { and, eq, like, or, sql } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { cache } from "@/lib/services/redis";
+import { getObjectPath } from "./minio";
+
+type FileRecord = typeof files.$inferSelect;
+
+// Object access is cached briefly; visibility changes apply within this window
+const OBJECT_ACCESS_TTL_SECONDS = 60;
+
+export interface ViewableFile {
+	file: FileRecord;
+	isPublic: boolean; // false when only the owner may see it
+}
+
+export interface ObjectAccess {
+	isPublic: boolean; // some public, scan-cleared file uses the object
+	ownerIds: string[]; // users whose files, versions or watermarks use it
+}
+
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Load a file for inline viewing (image variants, document pages).
+ * Public files must have cleared scanning; anything else is owner-only.
+ * Returns null rather than an error so callers can answer 404 either way.
+ */
+export async function findViewableFile(
+	fileId: string,
+	headers: Headers,
+): Promise<ViewableFile | null> {
+	const [file] = await db
+		.select()
+		.from(files)
+		.where(and(eq(files.id, fileId), eq(files.status, "active")))
+		.limit(1);
+
+	if (!file || file.scanStatus === "infected") {
+		return null;
+	}
+
+	const isPublic = file.isPublic && (file.scanStatus ?? "clean") === "clean";
+	if (!isPublic) {
+		const session = await auth.api.getSession({ headers });
+		if (!session?.user || session.user.id !== file.userId) {
+			return null;
+		}
+	}
+
+	return { file, isPublic };
+}
+
+/**
+ * Who may read a stored object: it can be a file, a thumbnail or video
+ * preview, an older version, or a watermark image. Deduplicated objects are
+ * readable by every owner of a file using them.
+ */
+export async function getObjectAccess(objectName: string): Promise<ObjectAccess> {
+	return cache(
+		`objects:access:${objectName}`,
+		async () => {
+			// Stored URLs keep the server URL they were written with, so only the
+			// path is compared; moving to another domain does not lock owners out
+			const urlPattern = `%${escapeLike(getObjectPath(objectName))}`;
+
+			const [fileRows, versionRows, profileRows] = await Promise.all([
+				db
+					.select({
+						userId: files.userId,
+						isPublic: files.isPublic,
+						status: files.status,
+						scanStatus: files.scanStatus,
+					})
+					.from(files)
+					.where(
+						or(
+							eq(files.fileName, objectName),
+							like(files.thumbnailUrl, urlPattern),
+							sql`json_unquote(json_extract(${files.metadata}, '$.previewUrl')) like ${urlPattern}`,
+						),
+					),
+				db
+					.select({ userId: files.userId })
+					.from(fileVersions)
+					.innerJoin(files, eq(fileVersions.fileId, files.id))
+					.where(
+						or(
+							eq(fileVersions.fileName, objectName),
+							like(fileVersions.thumbnailUrl, urlPattern),
+						),
+					),
+				db
+					.select({ userId: watermarkProfiles.userId })
+					.from(watermarkProfiles)
+					.where(eq(watermarkProfiles.imageFileName, objectName)),
+			]);
+
+			const ownerIds = new Set<string>();
+			for (const row of [...fileRows, ...versionRows, ...profileRows]) {
+				if (row.userId) ownerIds.add(row.userId);
+			}
+
+			return {
+				isPublic: fileRows.some(
+					(file) =>
+						file.isPublic &&
+						file.status === "active" &&
+						(file.scanStatus ?? "clean") === "clean",
+				),
+				ownerIds: [...ownerIds],
+			};
+		},
+		OBJECT_ACCESS_TTL_SECONDS,
+	);
+}
@@ -0,0 +1,121 @@
+import { db } from "@/db";
+import { files } from "@/db/schema/files";
+import { lte } from "drizzle-orm";
+import { redis } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+import { TEMP_OBJECT_EXPIRY_DAYS, TEMP_PREFIX } from "./minio";
+import { purgeFiles } from "./trash";
+
+const PURGE_LOCK_KEY = "anonymous_uploads:purge";
+const PURGE_INTERVAL_SECONDS = 15 * 60;
+const PURGE_BATCH_SIZE = 100;
+
+// Cloudflare Turnstile by default; hCaptcha and reCAPTCHA use the same request format
+const DEFAULT_CAPTCHA_VERIFY_URL = "https://challenges.cloudflare.com/turnstile/v0/siteverify";
+
+/**
+ * Who may use POST /api/upload (DIRECT_UPLOAD_MODE):
+ * - disabled: nobody
+ * - authenticated: signed-in users only (default)
+ * - anonymous: signed-in users, and anyone passing the captcha; their files are temporary
+ */
+export type DirectUploadMode = "disabled" | "authenticated" | "anonymous";
+
+// Anonymous uploads are stored under this prefix
+export const ANONYMOUS_UPLOAD_PREFIX = `${TEMP_PREFIX}/anonymous`;
+
+export function getDirectUploadMode(): DirectUploadMode {
+	const mode = process.env.DIRECT_UPLOAD_MODE || "authenticated";
+	if (mode === "disabled" || mode === "authenticated" || mode === "anonymous") {
+		return mode;
+	}
+
+	logger.warn(`Unknown DIRECT_UPLOAD_MODE "${mode}", falling back to authenticated`);
+	return "authenticated";
+}
+
+/**
+ * Hours an anonymous upload is kept (ANONYMOUS_UPLOAD_TTL_HOURS, default 24),
+ * never longer than the temporary prefix's lifecycle rule
+ */
+export function getAnonymousUploadTtlHours(): number {
+	const hours = parseInt(process.env.ANONYMOUS_UPLOAD_TTL_HOURS || "24");
+	const validHours = Number.isFinite(hours) && hours > 0 ? hours : 24;
+	return Math.min(validHours, TEMP_OBJECT_EXPIRY_DAYS * 24);
+}
+
+/**
+ * Check a captcha response token with the provider (CAPTCHA_SECRET_KEY,
+ * CAPTCHA_VERIFY_URL). Without a secret every token is rejected.
+ */
+export async function verifyCaptcha(token: string, remoteIp?: string): Promise<boolean> {
+	const secret = process.env.CAPTCHA_SECRET_KEY;
+	if (!secret) {
+		logger.warn("Anonymous uploads are enabled but CAPTCHA_SECRET_KEY is not set");
+		return false;
+	}
+
+	try {
+		const body = new URLSearchParams({ secret, response: token });
+		if (remoteIp) body.set("remoteip", remoteIp);
+
+		const response = await fetch(
+			process.env.CAPTCHA_VERIFY_URL || DEFAULT_CAPTCHA_VERIFY_URL,
+			{ method: "POST", body, signal: AbortSignal.timeout(5000) },
+		);
+		if (!response.ok) {
+			logger.warn(`Captcha verification returned ${response.status}`);
+			return false;
+		}
+
+		const result = (await response.json()) as { success?: boolean };
+		return result.success === true;
+	} catch (error) {
+		logger.error({ message: "Captcha verification failed", error });
+		return false;
+	}
+}
+
+/**
+ * Hard-delete temporary files past expiresAt
+ */
+export async function purgeExpiredTemporaryFiles(): Promise<number> {
+	let purged = 0;
+
+	while (true) {
+		const expired = await db
+			.select({ id: files.id })
+			.from(files)
+			.where(lte(files.expiresAt, new Date()))
+			.limit(PURGE_BATCH_SIZE);
+
+		if (expired.length === 0) break;
+
+		purged += await purgeFiles(expired.map((file) => file.id));
+		if (expired.length < PURGE_BATCH_SIZE) break;
+	}
+
+	return purged;
+}
+
+/**
+ * Run the purge in the background at most once per interval across instances
+ */
+export async function scheduleTemporaryFilePurge(): Promise<void> {
+	try {
+		const acquired = await redis.set(
+			PURGE_LOCK_KEY,
+			Date.now().toString(),
+			"EX",
+			PURGE_INTERVAL_SECONDS,
+			"NX",
+		);
+		if (acquired !== "OK") return;
+
+		purgeExpiredTemporaryFiles().catch((error) => {
+			logger.error({ message: "Background temporary file purge failed", error });
+		});
+	} catch (error) {
+		logger.warn({ message: "Could not schedule temporary file purge", error });
+	}
+}
@@ -0,0 +1,60 @@
+import {
+	CONTENT_SNIFF_BYTES,
+	verifyContentType,
+	sanitizeSvg,
+	prepareImageContent,
+	type ContentTypeCheck,
+} from "@/lib/api/upload/content-type";
+import { getFileHead, getFileBuffer, replaceFile } from "./minio";
+
+export type StoredContentCheck =
+	| {
+			valid: true;
+			mimeType: string;
+			size: number;
+			imageMetadata: Record<string, unknown>;
+	  }
+	| Extract<ContentTypeCheck, { valid: false }>;
+
+/**
+ * Sniff an object that was uploaded straight to storage and clean it in
+ * place: SVGs are sanitized, raster images lose privacy-sensitive metadata
+ * (unless stripMetadata is false). Returns the detected type and stored size.
+ */
+export async function verifyStoredObject(
+	objectName: string,
+	declaredMimeType: string,
+	size: number,
+	metadata?: Record<string, string>,
+	options: { stripMetadata?: boolean } = {},
+): Promise<StoredContentCheck> {
+	const head = await getFileHead(objectName, CONTENT_SNIFF_BYTES);
+	const check = await verifyContentType(head, declaredMimeType);
+	if (!check.valid) return check;
+
+	if (check.mimeType === "image/svg+xml") {
+		const sanitized = sanitizeSvg(await getFileBuffer(objectName));
+		if (!sanitized) {
+			return { valid: false, error: "SVG image could not be sanitized" };
+		}
+
+		const stored = await replaceFile(objectName, sanitized, check.mimeType, metadata);
+		return { ...check, size: stored.size, imageMetadata: {} };
+	}
+
+	if (check.mimeType.startsWith("image/")) {
+		const original = await getFileBuffer(objectName);
+		const image = await prepareImageContent(original, options.stripMetadata);
+		if (!image) {
+			return { valid: false, error: "Image could not be processed" };
+		}
+		if (image.buffer === original) {
+			return { ...check, size, imageMetadata: image.imageMetadata };
+		}
+
+		const stored = await replaceFile(objectName, image.buffer, check.mimeType, metadata);
+		return { ...check, size: stored.size, imageMetadata: image.imageMetadata };
+	}
+
+	return { ...check, size, imageMetadata: {} };
+}
@@ -0,0 +1,109 @@
+import { nanoid } from "nanoid";
+import { redis, setJson, getJson, deleteKey } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+import { getPresignedUploadPolicy, deleteFiles } from "./minio";
+
+// How long the browser has to POST the object and confirm it
+export const DIRECT_UPLOAD_TTL_SECONDS = 60 * 60;
+
+// Sorted set of unconfirmed object names scored by expiry, used to clean up orphans
+const PENDING_SET_KEY = "direct_upload:pending";
+
+export interface DirectUpload {
+	id: string;
+	userId: string;
+	objectName: string;
+	fileName: string;
+	mimeType: string;
+	size: number;
+	path?: string;
+	isPublic: boolean;
+	stripMetadata?: boolean; // false keeps photo EXIF (GPS included)
+	watermarkProfileId?: string;
+	expiresAt: string; // ISO date
+}
+
+function getDirectUploadKey(id: string): string {
+	return `direct_upload:${id}`;
+}
+
+function createObjectName(upload: Pick<DirectUpload, "fileName" | "path">): string {
+	const ext = upload.fileName.split(".").pop() || "";
+	return upload.path ? `${upload.path}/${nanoid()}.${ext}` : `${nanoid()}.${ext}`;
+}
+
+/**
+ * Key a confirmed upload is moved to. The presigned POST stays valid until it
+ * expires, so the registered object must live where the client cannot write.
+ */
+export function getConfirmedObjectName(upload: DirectUpload): string {
+	return createObjectName(upload);
+}
+
+/**
+ * Reserve an object key and presign a form POST for it, limited to the
+ * declared size and type
+ */
+export async function createDirectUpload(
+	values: Omit<DirectUpload, "id" | "objectName" | "expiresAt">,
+): Promise<DirectUpload & { uploadUrl: string; fields: Record<string, string> }> {
+	const objectName = createObjectName(values);
+	const expiresAt = new Date(Date.now() + DIRECT_UPLOAD_TTL_SECONDS * 1000);
+
+	const upload: DirectUpload = {
+		...values,
+		id: nanoid(),
+		objectName,
+		expiresAt: expiresAt.toISOString(),
+	};
+
+	const { url: uploadUrl, fields } = await getPresignedUploadPolicy(
+		objectName,
+		DIRECT_UPLOAD_TTL_SECONDS,
+		{ mimeType: values.mimeType, size: values.size },
+	);
+
+	await setJson(getDirectUploadKey(upload.id), upload, DIRECT_UPLOAD_TTL_SECONDS);
+	await redis.zadd(PENDING_SET_KEY, expiresAt.getTime(), objectName);
+
+	return { ...upload, uploadUrl, fields };
+}
+
+export async function getDirectUpload(id: string): Promise<DirectUpload | null> {
+	return getJson<DirectUpload>(getDirectUploadKey(id));
+}
+
+/**
+ * Forget a pending upload once it has been confirmed or rejected. The
+ * presigned key stays in the pending set: the client can still POST to it
+ * until the URL expires, and the sweep removes whatever it left there.
+ */
+export async function finishDirectUpload(upload: DirectUpload): Promise<void> {
+	await deleteKey(getDirectUploadKey(upload.id));
+}
+
+/**
+ * Delete presigned keys whose URL has expired (confirmed uploads were moved
+ * away from them)
+ */
+export async function sweepAbandonedDirectUploads(): Promise<number> {
+	try {
+		const expired = await redis.zrangebyscore(PENDING_SET_KEY, 0, Date.now());
+		if (expired.length === 0) return 0;
+
+		// Objects that were never PUT simply don't exist; removeObjects ignores them
+		await deleteFiles(expired);
+		await redis.zrem(PENDING_SET_KEY, ...expired);
+
+		logger.info({
+			event: "direct_upload.swept",
+			message: `Swept ${expired.length} unconfirmed direct uploads`,
+			count: expired.length,
+		});
+
+		return expired.length;
+	} catch (error) {
+		logger.error({ message: "Error sweeping direct uploads", error });
+		throw error;
+	}
+}
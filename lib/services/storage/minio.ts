@@ -15,42 +15,83 @@ const minioClient = new Minio.Client({
 // Default bucket name
 export const BUCKET_NAME = process.env.MINIO_BUCKET_NAME || "uploads";
 
+// Prefix for infected objects, never served
+export const QUARANTINE_PREFIX = process.env.MINIO_QUARANTINE_PREFIX || "quarantine";
+
+// The bucket is private; stored URLs point at this access-checked proxy route
+export const OBJECT_ROUTE = "/api/objects/";
+
+// Prefix for temporary objects (anonymous uploads). A lifecycle rule removes them
+// after TEMP_OBJECT_EXPIRY_DAYS even if the app never purges their rows.
+export const TEMP_PREFIX = process.env.MINIO_TEMP_PREFIX || "tmp";
+export const TEMP_OBJECT_EXPIRY_DAYS = Math.max(
+	1,
+	parseInt(process.env.MINIO_TEMP_EXPIRY_DAYS || "2") || 2,
+);
+
 // Initialize bucket
 export async function initializeBucket(): Promise<void> {
 	try {
 		const bucketExists = await minioClient.bucketExists(BUCKET_NAME);
 
+		// New buckets get no policy, so they stay private
 		if (!bucketExists) {
 			await minioClient.makeBucket(BUCKET_NAME, "us-east-1");
 			logger.info(`Bucket '${BUCKET_NAME}' created successfully`);
-
-			// Set bucket policy to allow public read access
-			const policy = {
-				Version: "2012-10-17",
-				Statement: [
-					{
-						Effect: "Allow",
-						Principal: { AWS: ["*"] },
-						Action: ["s3:GetObject"],
-						Resource: [`arn:aws:s3:::${BUCKET_NAME}/*`],
-					},
-				],
-			};
-
-			await minioClient.setBucketPolicy(
-				BUCKET_NAME,
-				JSON.stringify(policy),
-			);
-			logger.info(`Bucket policy set for '${BUCKET_NAME}'`);
 		} else {
 			logger.info(`Bucket '${BUCKET_NAME}' already exists`);
 		}
+
+		await setTemporaryObjectExpiry();
 	} catch (error) {
 		logger.error({ message: "Error initializing MinIO bucket", error });
 		throw error;
 	}
 }
 
+const TEMP_EXPIRY_RULE_ID = "expire-temporary-objects";
+
+/**
+ * Lifecycle rules already set on the bucket (by an operator or another app)
+ */
+async function getBucketLifecycleRules(): Promise<Minio.LifecycleRule[]> {
+	try {
+		const config = await minioClient.getBucketLifecycle(BUCKET_NAME);
+		// The XML parser returns a lone rule as an object rather than an array
+		return config?.Rule ? [config.Rule].flat() : [];
+	} catch (error) {
+		if ((error as { code?: string }).code === "NoSuchLifecycleConfiguration") {
+			return [];
+		}
+		throw error;
+	}
+}
+
+/**
+ * Expire objects under the temporary prefix with a bucket lifecycle rule.
+ * Only our own rule is added or replaced; other rules on the bucket are kept.
+ */
+async function setTemporaryObjectExpiry(): Promise<void> {
+	try {
+		const rules = await getBucketLifecycleRules();
+
+		await minioClient.setBucketLifecycle(BUCKET_NAME, {
+			Rule: [
+				...rules.filter((rule) => rule.ID !== TEMP_EXPIRY_RULE_ID),
+				{
+					ID: TEMP_EXPIRY_RULE_ID,
+					Status: "Enabled",
+					Filter: { Prefix: `${TEMP_PREFIX}/` },
+					Expiration: { Days: TEMP_OBJECT_EXPIRY_DAYS },
+				},
+			],
+		});
+	} catch (error) {
+		// Not every S3-compatible store supports lifecycle rules; the purge still runs
+		logger.warn({ message: "Could not set lifecycle rule for temporary objects", error });
+	}
+}
+
 /**
  * Upload file to MinIO
  */
@@ -88,8 +129,8 @@ export async function uploadFile(
 		// Get file stats
 		const stat = await minioClient.statObject(BUCKET_NAME, fileName);
 
-		// Generate public URL
-		const url = getPublicUrl(fileName);
+		// Generate the stored URL
+		const url = getObjectUrl(fileName);
 
 		logger.info(`File uploaded successfully: ${fileName}`);
 
@@ -137,7 +178,7 @@ export async function uploadFileWithPath(
 		);
 
 		const stat = await minioClient.statObject(BUCKET_NAME, fileName);
-		const url = getPublicUrl(fileName);
+		const url = getObjectUrl(fileName);
 
 		logger.info(`File uploaded with path: ${fileName}`);
 
@@ -152,6 +193,38 @@ export async function uploadFileWithPath(
 	}
 }
 
+/**
+ * Overwrite an existing object (keeps its name and URL)
+ */
+export async function replaceFile(
+	fileName: string,
+	file: Buffer,
+	mimeType: string,
+	metadata?: Record<string, string>,
+): Promise<{
+	fileName: string;
+	url: string;
+	size: number;
+}> {
+	try {
+		await minioClient.putObject(BUCKET_NAME, fileName, file, file.length, {
+			"Content-Type": mimeType,
+			...metadata,
+		});
+
+		logger.info(`File replaced: ${fileName}`);
+
+		return {
+			fileName,
+			url: getObjectUrl(fileName),
+			size: file.length,
+		};
+	} catch (error) {
+		logger.error({ message: `Error replacing file ${fileName} in MinIO`, error });
+		throw error;
+	}
+}
+
 /**
  * Get file from MinIO
  */
@@ -166,6 +239,51 @@ export async function getFile(fileName: string): Promise<stream.Readable> {
 	}
 }
 
+/**
+ * Read a whole object from MinIO into memory
+ */
+export async function getFileBuffer(fileName: string): Promise<Buffer> {
+	const objectStream = await getFile(fileName);
+	const chunks: Buffer[] = [];
+	for await (const chunk of objectStream) {
+		chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+	}
+	return Buffer.concat(chunks);
+}
+
+/**
+ * Stream part of an object (HTTP range requests)
+ */
+export async function getFileRange(
+	fileName: string,
+	offset: number,
+	length: number,
+): Promise<stream.Readable> {
+	try {
+		return await minioClient.getPartialObject(BUCKET_NAME, fileName, offset, length);
+	} catch (error) {
+		logger.error({ message: `Error getting range of file ${fileName} from MinIO`, error });
+		throw error;
+	}
+}
+
+/**
+ * Read the first bytes of an object (for content sniffing)
+ */
+export async function getFileHead(fileName: string, length: number): Promise<Buffer> {
+	try {
+		const objectStream = await minioClient.getPartialObject(BUCKET_NAME, fileName, 0, length);
+		const chunks: Buffer[] = [];
+		for await (const chunk of objectStream) {
+			chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+		}
+		return Buffer.concat(chunks);
+	} catch (error) {
+		logger.error({ message: `Error reading head of ${fileName} from MinIO`, error });
+		throw error;
+	}
+}
+
 /**
  * Delete file from MinIO
  */
@@ -180,12 +298,18 @@ export async function deleteFile(fileName: string): Promise<void> {
 }
 
 /**
- * Delete multiple files
+ * Delete multiple files in one request. Returns the object names that failed.
  */
-export async function deleteFiles(fileNames: string[]): Promise<void> {
+export async function deleteFiles(fileNames: string[]): Promise<string[]> {
+	if (fileNames.length === 0) return [];
+
 	try {
-		await minioClient.removeObjects(BUCKET_NAME, fileNames);
-		logger.info(`Deleted ${fileNames.length} files`);
+		const results = await minioClient.removeObjects(BUCKET_NAME, fileNames);
+		const failed = results.flatMap((result) =>
+			result?.Error?.Key ? [result.Error.Key] : [],
+		);
+		logger.info(`Deleted ${fileNames.length - failed.length} files`);
+		return failed;
 	} catch (error) {
 		logger.error({ message: "Error deleting files from MinIO:", error });
 		throw error;
@@ -276,6 +400,35 @@ export async function getPresignedUploadUrl(
 	}
 }
 
+/**
+ * Presign a browser form POST for one object. The policy pins the exact size
+ * and content type, so the upload cannot be larger than what was declared.
+ */
+export async function getPresignedUploadPolicy(
+	fileName: string,
+	expirySeconds: number,
+	conditions: { mimeType: string; size: number },
+): Promise<{ url: string; fields: Record<string, string> }> {
+	try {
+		const policy = minioClient.newPostPolicy();
+		policy.setBucket(BUCKET_NAME);
+		policy.setKey(fileName);
+		policy.setExpires(new Date(Date.now() + expirySeconds * 1000));
+		policy.setContentType(conditions.mimeType);
+		policy.setContentLengthRange(conditions.size, conditions.size);
+
+		const { postURL, formData } = await minioClient.presignedPostPolicy(policy);
+		logger.debug(`Generated presigned upload policy for ${fileName}`);
+		return { url: postURL, fields: formData };
+	} catch (error) {
+		logger.error({
+			message: `Error generating presigned upload policy for ${fileName}:`,
+			error
+		});
+		throw error;
+	}
+}
+
 /**
  * List files in a path
  */
@@ -310,17 +463,23 @@ export async function listFiles(
 }
 
 /**
- * Copy file within MinIO
+ * Copy file within MinIO. With an etag the copy fails unless the source is
+ * still that exact object.
  */
 export async function copyFile(
 	source: string,
 	destination: string,
+	etag?: string,
 ): Promise<void> {
 	try {
+		const conditions = new Minio.CopyConditions();
+		if (etag) conditions.setMatchETag(etag);
+
 		await minioClient.copyObject(
 			BUCKET_NAME,
 			destination,
 			`/${BUCKET_NAME}/${source}`,
+			conditions,
 		);
 		logger.info(`File copied from ${source} to ${destination}`);
 	} catch (error) {
@@ -335,9 +494,10 @@ export async function copyFile(
 export async function moveFile(
 	source: string,
 	destination: string,
+	etag?: string,
 ): Promise<void> {
 	try {
-		await copyFile(source, destination);
+		await copyFile(source, destination, etag);
 		await deleteFile(source);
 		logger.info(`File moved from ${source} to ${destination}`);
 	} catch (error) {
@@ -347,12 +507,47 @@ export async function moveFile(
 }
 
 /**
- * Get public URL for a file
+ * Path of an object's proxy route, without the server URL
+ */
+export function getObjectPath(fileName: string): string {
+	return `${OBJECT_ROUTE}${fileName.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * Stored URL for an object: the proxy route, which checks access on every request
  */
-export function getPublicUrl(fileName: string): string {
-	const publicUrl = process.env.MINIO_PUBLIC_URL ||
-		`http${process.env.MINIO_USE_SSL === "true" ? "s" : ""}://${process.env.MINIO_ENDPOINT}:${process.env.MINIO_PORT}`;
-	return `${publicUrl}/${BUCKET_NAME}/${fileName}`;
+export function getObjectUrl(fileName: string): string {
+	return `${process.env.NEXT_PUBLIC_SERVER_URL}${getObjectPath(fileName)}`;
+}
+
+/**
+ * Get object name back from a stored URL (inverse of getObjectUrl). Also reads
+ * the direct bucket URLs stored before the bucket was made private.
+ */
+export function getObjectNameFromUrl(url: string): string | null {
+	const path = url.split("?")[0];
+
+	for (const marker of [OBJECT_ROUTE, `/${BUCKET_NAME}/`]) {
+		const index = path.indexOf(marker);
+		if (index !== -1) {
+			return decodeURIComponent(path.slice(index + marker.length));
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Remove the bucket policy so nothing is readable without credentials
+ */
+export async function removeBucketPolicy(): Promise<void> {
+	try {
+		await minioClient.setBucketPolicy(BUCKET_NAME, "");
+		logger.info(`Bucket policy removed for '${BUCKET_NAME}'`);
+	} catch (error) {
+		logger.error({ message: `Error removing bucket policy for '${BUCKET_NAME}'`, error });
+		throw error;
+	}
 }
 
 /**
@@ -383,7 +578,7 @@ export async function streamUpload(
 			metaData,
 		);
 
-		const url = getPublicUrl(fileName);
+		const url = getObjectUrl(fileName);
 
 		logger.info(`Stream upload completed: ${fileName}`);
 
@@ -398,6 +593,110 @@ export async function streamUpload(
 	}
 }
 
+/**
+ * Start a multipart upload
+ */
+export async function createMultipartUpload(
+	fileName: string,
+	mimeType: string,
+	metadata?: Record<string, string>,
+): Promise<string> {
+	try {
+		const uploadId = await minioClient.initiateNewMultipartUpload(
+			BUCKET_NAME,
+			fileName,
+			{
+				"Content-Type": mimeType,
+				...metadata,
+			},
+		);
+		logger.debug(`Multipart upload started: ${fileName}`);
+		return uploadId;
+	} catch (error) {
+		logger.error({ message: `Error starting multipart upload for ${fileName}:`, error });
+		throw error;
+	}
+}
+
+/**
+ * Upload a single part of a multipart upload (part numbers start at 1)
+ */
+export async function uploadPart(
+	fileName: string,
+	uploadId: string,
+	partNumber: number,
+	data: Buffer,
+): Promise<string> {
+	try {
+		const { etag } = await minioClient.uploadPart(
+			{
+				bucketName: BUCKET_NAME,
+				objectName: fileName,
+				uploadID: uploadId,
+				partNumber,
+				headers: {},
+			},
+			data,
+		);
+		return etag;
+	} catch (error) {
+		logger.error({ message: `Error uploading part ${partNumber} for ${fileName}:`, error });
+		throw error;
+	}
+}
+
+/**
+ * Assemble uploaded parts into the final object
+ */
+export async function completeMultipartUpload(
+	fileName: string,
+	uploadId: string,
+	parts: Array<{ part: number; etag: string }>,
+): Promise<{
+	fileName: string;
+	url: string;
+	size: number;
+}> {
+	try {
+		const sortedParts = [...parts].sort((a, b) => a.part - b.part);
+		await minioClient.completeMultipartUpload(
+			BUCKET_NAME,
+			fileName,
+			uploadId,
+			sortedParts,
+		);
+
+		const stat = await minioClient.statObject(BUCKET_NAME, fileName);
+
+		logger.info(`Multipart upload completed: ${fileName}`);
+
+		return {
+			fileName,
+			url: getObjectUrl(fileName),
+			size: stat.size,
+		};
+	} catch (error) {
+		logger.error({ message: `Error completing multipart upload for ${fileName}:`, error });
+		throw error;
+	}
+}
+
+/**
+ * Abort a multipart upload and discard its parts
+ */
+export async function abortMultipartUpload(
+	fileName: string,
+	uploadId: string,
+): Promise<void> {
+	try {
+		await minioClient.abortMultipartUpload(BUCKET_NAME, fileName, uploadId);
+		logger.info(`Multipart upload aborted: ${fileName}`);
+	} catch (error) {
+		logger.error({ message: `Error aborting multipart upload for ${fileName}:`, error });
+		throw error;
+	}
+}
+
 /**
  * Health check for MinIO connection
  */
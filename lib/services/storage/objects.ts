@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import { db } from "@/db";
+import { files, fileVersions, storageObjects } from "@/db/schema/files";
+import { and, asc, eq, ne, or, isNull, inArray, sql, type SQL } from "drizzle-orm";
+import { getFile } from "./minio";
+
+type FileRecord = typeof files.$inferSelect;
+
+export type DedupScope = "user" | "global";
+
+/**
+ * Whose uploads can share objects (DEDUP_SCOPE, "user" by default).
+ * "global" reuses identical bytes uploaded by anyone.
+ */
+export function getDedupScope(): DedupScope {
+	return process.env.DEDUP_SCOPE === "global" ? "global" : "user";
+}
+
+/**
+ * SHA-256 of a stored object, streamed so large files are never buffered
+ */
+export async function hashStoredObject(objectName: string): Promise<string> {
+	const hash = crypto.createHash("sha256");
+	for await (const chunk of await getFile(objectName)) {
+		hash.update(chunk);
+	}
+	return hash.digest("hex");
+}
+
+/**
+ * Oldest file with the same content the uploader is allowed to share.
+ * Trashed files qualify too: the reference count keeps their object alive.
+ */
+export async function findDuplicateFile(
+	contentHash: string,
+	userId: string,
+	excludeFileId?: string,
+): Promise<FileRecord | null> {
+	const conditions: SQL[] = [
+		eq(files.contentHash, contentHash),
+		// Quarantined objects are never reused
+		or(isNull(files.scanStatus), ne(files.scanStatus, "infected"))!,
+	];
+
+	if (getDedupScope() === "user") {
+		conditions.push(eq(files.userId, userId));
+	}
+	if (excludeFileId) {
+		conditions.push(ne(files.id, excludeFileId));
+	}
+
+	const duplicate = await db
+		.select()
+		.from(files)
+		.where(and(...conditions))
+		.orderBy(asc(files.createdAt))
+		.limit(1);
+
+	return duplicate[0] ?? null;
+}
+
+/**
+ * Record one more file row pointing at an object
+ */
+export async function retainObject(
+	objectName: string,
+	{ contentHash, size }: { contentHash?: string | null; size: number },
+): Promise<void> {
+	await db
+		.insert(storageObjects)
+		.values({ objectName, contentHash, size, refCount: 1 })
+		.onDuplicateKeyUpdate({
+			set: {
+				refCount: sql`${storageObjects.refCount} + 1`,
+				contentHash: sql`coalesce(${storageObjects.contentHash}, values(${storageObjects.contentHash}))`,
+			},
+		});
+}
+
+/**
+ * Drop one reference per name (names may repeat). Returns the objects no file
+ * row points at anymore; untracked objects (uploaded before reference counting)
+ * are returned as well and left to the caller's own reference checks.
+ */
+export async function releaseObjects(objectNames: string[]): Promise<string[]> {
+	if (objectNames.length === 0) return [];
+
+	const counts = new Map<string, number>();
+	for (const name of objectNames) {
+		counts.set(name, (counts.get(name) ?? 0) + 1);
+	}
+
+	for (const [objectName, count] of counts) {
+		await db
+			.update(storageObjects)
+			.set({ refCount: sql`greatest(${storageObjects.refCount} - ${count}, 0)` })
+			.where(eq(storageObjects.objectName, objectName));
+	}
+
+	const names = [...counts.keys()];
+	const tracked = await db
+		.select({ objectName: storageObjects.objectName, refCount: storageObjects.refCount })
+		.from(storageObjects)
+		.where(inArray(storageObjects.objectName, names));
+
+	const inUse = new Set(
+		tracked.filter((row) => row.refCount > 0).map((row) => row.objectName),
+	);
+	const released = names.filter((name) => !inUse.has(name));
+
+	// Released objects are about to be deleted, forget them
+	const releasedTracked = tracked
+		.filter((row) => row.refCount <= 0)
+		.map((row) => row.objectName);
+	if (releasedTracked.length > 0) {
+		await db
+			.delete(storageObjects)
+			.where(inArray(storageObjects.objectName, releasedTracked));
+	}
+
+	return released;
+}
+
+/**
+ * Point every file and version row at a rewritten copy of an object and move
+ * its reference count over. `metadata` is merged into each file's metadata.
+ * Returns the owners of the re-pointed files.
+ */
+export async function replaceObjectReferences(
+	objectName: string,
+	replacement: { fileName: string; url: string; size: number },
+	metadata: Record<string, unknown> = {},
+): Promise<string[]> {
+	const referencing = await db
+		.select({ id: files.id, userId: files.userId, metadata: files.metadata })
+		.from(files)
+		.where(eq(files.fileName, objectName));
+
+	for (const row of referencing) {
+		await db
+			.update(files)
+			.set({
+				...replacement,
+				metadata: {
+					...row.metadata,
+					...metadata,
+					fileName: replacement.fileName,
+					size: replacement.size,
+				},
+			})
+			.where(and(eq(files.id, row.id), eq(files.fileName, objectName)));
+	}
+
+	await db
+		.update(fileVersions)
+		.set(replacement)
+		.where(eq(fileVersions.fileName, objectName));
+
+	// The content hash stays: it identifies the uploaded bytes this object was made from
+	await db
+		.update(storageObjects)
+		.set({ objectName: replacement.fileName, size: replacement.size })
+		.where(eq(storageObjects.objectName, objectName));
+
+	return [...new Set(referencing.flatMap((row) => (row.userId ? [row.userId] : [])))];
+}
+
+/**
+ * Check whether any file or version row still points at an object
+ */
+export async function isObjectReferenced(fileName: string): Promise<boolean> {
+	const [fileRefs, versionRefs] = await Promise.all([
+		db
+			.select({ count: sql<number>`count(*)` })
+			.from(files)
+			.where(eq(files.fileName, fileName)),
+		db
+			.select({ count: sql<number>`count(*)` })
+			.from(fileVersions)
+			.where(eq(fileVersions.fileName, fileName)),
+	]);
+
+	return (fileRefs[0]?.count || 0) + (versionRefs[0]?.count || 0) > 0;
+}
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { queueResults, resetFakeDb } from "@/test/fake-db";
+import { assertStorageQuota, getStorageQuota } from "./quota";
+
+// getStorageQuota reads file usage, version usage, then the account
+function queueUsage(fileBytes: number, versionBytes: number, storageQuota: number | null) {
+	queueResults(
+		[{ total: fileBytes }],
+		[{ total: versionBytes }],
+		[{ plan: "free", storageQuota }],
+	);
+}
+
+describe("storage quota", () => {
+	beforeEach(() => {
+		resetFakeDb();
+	});
+
+	test("counts current objects and older versions", async () => {
+		queueUsage(600, 300, 1000);
+
+		expect(await getStorageQuota("user-1")).toEqual({
+			plan: "free",
+			limit: 1000,
+			used: 900,
+			remaining: 100,
+			percentUsed: 90,
+		});
+	});
+
+	test("accepts an upload that fits", async () => {
+		queueUsage(600, 300, 1000);
+		await expect(assertStorageQuota("user-1", 100)).resolves.toBeUndefined();
+	});
+
+	test("rejects an upload that would exceed the quota", async () => {
+		queueUsage(600, 300, 1000);
+		await expect(assertStorageQuota("user-1", 101)).rejects.toThrow("Storage quota exceeded");
+	});
+
+	test("never limits unlimited plans", async () => {
+		queueResults([{ total: 600 }], [{ total: 300 }], [{ plan: "unlimited", storageQuota: null }]);
+		await expect(assertStorageQuota("user-1", 10_000_000_000)).resolves.toBeUndefined();
+	});
+});
@@ -0,0 +1,102 @@
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { user } from "@/db/schema/auth";
+import { files, fileVersions } from "@/db/schema/files";
+import { and, eq, ne, sql } from "drizzle-orm";
+import { formatFileSize } from "@/lib/api/upload/server";
+
+export type StoragePlan = (typeof user.$inferSelect)["plan"];
+
+export interface StorageQuota {
+	plan: StoragePlan;
+	limit: number | null; // bytes, null means unlimited
+	used: number;
+	remaining: number | null;
+	percentUsed: number | null;
+}
+
+const MB = 1024 * 1024;
+
+function quotaFromEnv(name: string, defaultMb: number): number {
+	const mb = parseInt(process.env[name] || "");
+	return (Number.isFinite(mb) && mb > 0 ? mb : defaultMb) * MB;
+}
+
+/**
+ * Default quota per plan (STORAGE_QUOTA_FREE_MB / STORAGE_QUOTA_PRO_MB)
+ */
+export const STORAGE_PLAN_QUOTAS: Record<StoragePlan, number | null> = {
+	free: quotaFromEnv("STORAGE_QUOTA_FREE_MB", 5 * 1024),
+	pro: quotaFromEnv("STORAGE_QUOTA_PRO_MB", 100 * 1024),
+	unlimited: null,
+};
+
+/**
+ * Bytes a user occupies in storage. Trashed and archived files still count
+ * (their objects are kept), as do older versions. Deduplicated copies of the
+ * same object count once.
+ */
+export async function getStorageUsage(userId: string): Promise<number> {
+	const fileObjects = db
+		.selectDistinct({ fileName: files.fileName, size: files.size })
+		.from(files)
+		.where(eq(files.userId, userId))
+		.as("file_objects");
+
+	const versionObjects = db
+		.selectDistinct({ fileName: fileVersions.fileName, size: fileVersions.size })
+		.from(fileVersions)
+		.innerJoin(files, eq(fileVersions.fileId, files.id))
+		.where(and(eq(files.userId, userId), ne(fileVersions.fileName, files.fileName)))
+		.as("version_objects");
+
+	const [fileUsage, versionUsage] = await Promise.all([
+		db
+			.select({ total: sql<number>`coalesce(sum(${fileObjects.size}), 0)` })
+			.from(fileObjects),
+		db
+			.select({ total: sql<number>`coalesce(sum(${versionObjects.size}), 0)` })
+			.from(versionObjects),
+	]);
+
+	return Number(fileUsage[0]?.total || 0) + Number(versionUsage[0]?.total || 0);
+}
+
+/**
+ * Quota and current usage for a user
+ */
+export async function getStorageQuota(userId: string): Promise<StorageQuota> {
+	const [account, used] = await Promise.all([
+		db
+			.select({ plan: user.plan, storageQuota: user.storageQuota })
+			.from(user)
+			.where(eq(user.id, userId))
+			.limit(1),
+		getStorageUsage(userId),
+	]);
+
+	const plan = account[0]?.plan ?? "free";
+	const limit = account[0]?.storageQuota ?? STORAGE_PLAN_QUOTAS[plan];
+
+	return {
+		plan,
+		limit,
+		used,
+		remaining: limit === null ? null : Math.max(0, limit - used),
+		percentUsed: limit === null ? null : Math.min(100, Math.round((used / limit) * 100)),
+	};
+}
+
+/**
+ * Reject an upload of `bytes` that would push the user over their quota
+ */
+export async function assertStorageQuota(userId: string, bytes: number): Promise<void> {
+	const quota = await getStorageQuota(userId);
+
+	if (quota.limit !== null && quota.used + bytes > quota.limit) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: `Storage quota exceeded: ${formatFileSize(quota.used)} of ${formatFileSize(quota.limit)} used, upload needs ${formatFileSize(bytes)}`,
+		});
+	}
+}
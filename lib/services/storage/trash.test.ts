@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as minio from "@/lib/services/storage/minio";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+
+const deleteFiles = mock(async () => [] as string[]);
+
+mock.module("@/lib/services/storage/minio", () => ({
+	...minio,
+	deleteFiles,
+	listFiles: mock(async () => []),
+}));
+
+const { purgeFiles } = await import("./trash");
+
+const WRITE = [{ affectedRows: 1 }];
+
+describe("purgeFiles", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		deleteFiles.mockClear();
+	});
+
+	test("deletes released objects and keeps ones other files still use", async () => {
+		queueResults(
+			// The purged rows and their versions
+			[
+				{ id: "file-1", userId: "user-1", fileName: "uploads/a.txt", thumbnailUrl: null },
+				{ id: "file-2", userId: "user-1", fileName: "uploads/shared.txt", thumbnailUrl: null },
+			],
+			[{ fileName: "uploads/a-v1.txt", thumbnailUrl: null }],
+			// A deduplicated copy elsewhere still points at the shared object
+			[{ fileName: "uploads/shared.txt", thumbnailUrl: null }],
+			[],
+			// releaseObjects: one decrement per purged row, then the remaining counts
+			WRITE,
+			WRITE,
+			[
+				{ objectName: "uploads/a.txt", refCount: 0 },
+				{ objectName: "uploads/shared.txt", refCount: 1 },
+			],
+		);
+
+		const purged = await purgeFiles(["file-1", "file-2"]);
+
+		expect(purged).toBe(2);
+		expect(deleteFiles).toHaveBeenCalledWith(["uploads/a.txt", "uploads/a-v1.txt"]);
+
+		const queries = getQueries();
+		expect(
+			queries.filter(
+				(query) => query.operation === "update" && query.table === "storage_objects",
+			),
+		).toHaveLength(2);
+		expect(
+			queries.some((query) => query.operation === "delete" && query.table === "storage_objects"),
+		).toBe(true);
+		expect(
+			queries.some((query) => query.operation === "delete" && query.table === "files"),
+		).toBe(true);
+	});
+
+	test("does nothing for files that are already gone", async () => {
+		expect(await purgeFiles(["missing"])).toBe(0);
+		expect(deleteFiles).not.toHaveBeenCalled();
+	});
+});
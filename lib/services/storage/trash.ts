@@ -0,0 +1,190 @@
+import { db } from "@/db";
+import { files, fileVersions } from "@/db/schema/files";
+import { and, eq, or, inArray, lte, not } from "drizzle-orm";
+import { redis, invalidateCache } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+import { deleteFiles, getObjectNameFromUrl } from "./minio";
+import { releaseObjects } from "./objects";
+import { deleteImageVariants } from "@/lib/services/images/variants";
+
+const PURGE_LOCK_KEY = "trash:purge";
+const PURGE_INTERVAL_SECONDS = 60 * 60;
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Days a file stays in the trash before it is hard-deleted (TRASH_RETENTION_DAYS, default 30)
+ */
+export function getTrashRetentionDays(): number {
+	const days = parseInt(process.env.TRASH_RETENTION_DAYS || "30");
+	return Number.isFinite(days) && days > 0 ? days : 30;
+}
+
+/**
+ * Date after which a trashed file will be purged
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+	return new Date(deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Hard-delete files: remove their objects (current, thumbnails and versions) from
+ * MinIO in one request, then delete the rows. Objects still referenced by other
+ * files (including deduplicated copies) are kept. Returns the number of rows removed.
+ */
+export async function purgeFiles(fileIds: string[]): Promise<number> {
+	if (fileIds.length === 0) return 0;
+
+	try {
+		const [fileRows, versionRows] = await Promise.all([
+			db
+				.select({
+					id: files.id,
+					userId: files.userId,
+					fileName: files.fileName,
+					thumbnailUrl: files.thumbnailUrl,
+				})
+				.from(files)
+				.where(inArray(files.id, fileIds)),
+			db
+				.select({
+					fileName: fileVersions.fileName,
+					thumbnailUrl: fileVersions.thumbnailUrl,
+				})
+				.from(fileVersions)
+				.where(inArray(fileVersions.fileId, fileIds)),
+		]);
+
+		if (fileRows.length === 0) return 0;
+
+		const objectNames = new Set<string>();
+		const thumbnailUrls = new Set<string>();
+		for (const row of [...fileRows, ...versionRows]) {
+			objectNames.add(row.fileName);
+			if (row.thumbnailUrl) thumbnailUrls.add(row.thumbnailUrl);
+		}
+
+		// Keep anything another file or version still points at
+		const ids = fileRows.map((row) => row.id);
+		const names = [...objectNames];
+		const urls = [...thumbnailUrls];
+		const [fileRefs, versionRefs] = await Promise.all([
+			db
+				.select({ fileName: files.fileName, thumbnailUrl: files.thumbnailUrl })
+				.from(files)
+				.where(
+					and(
+						not(inArray(files.id, ids)),
+						or(
+							inArray(files.fileName, names),
+							urls.length > 0 ? inArray(files.thumbnailUrl, urls) : undefined,
+						),
+					),
+				),
+			db
+				.select({
+					fileName: fileVersions.fileName,
+					thumbnailUrl: fileVersions.thumbnailUrl,
+				})
+				.from(fileVersions)
+				.where(
+					and(
+						not(inArray(fileVersions.fileId, ids)),
+						or(
+							inArray(fileVersions.fileName, names),
+							urls.length > 0 ? inArray(fileVersions.thumbnailUrl, urls) : undefined,
+						),
+					),
+				),
+		]);
+
+		// Shared objects survive until their last file row is purged
+		const released = new Set(await releaseObjects(fileRows.map((row) => row.fileName)));
+		const stillReferenced = new Set<string>(
+			fileRows.map((row) => row.fileName).filter((name) => !released.has(name)),
+		);
+		for (const ref of [...fileRefs, ...versionRefs]) {
+			stillReferenced.add(ref.fileName);
+			if (ref.thumbnailUrl) stillReferenced.add(ref.thumbnailUrl);
+		}
+
+		const toDelete = [
+			...names.filter((name) => !stillReferenced.has(name)),
+			...urls
+				.filter((url) => !stillReferenced.has(url))
+				.flatMap((url) => {
+					const name = getObjectNameFromUrl(url);
+					return name ? [name] : [];
+				}),
+		];
+
+		const failed = await deleteFiles(toDelete);
+		if (failed.length > 0) {
+			logger.warn(`Failed to delete ${failed.length} objects while purging files`);
+		}
+		await deleteImageVariants(names.filter((name) => !stillReferenced.has(name)));
+
+		// Versions, share links, access logs and category relations cascade
+		await db.delete(files).where(inArray(files.id, ids));
+
+		for (const userId of new Set(fileRows.map((row) => row.userId))) {
+			if (userId) await invalidateCache(`files:user:${userId}:*`);
+		}
+
+		logger.info({
+			event: "file.purged",
+			message: `Purged ${ids.length} files`,
+			fileIds: ids,
+			objectCount: toDelete.length - failed.length,
+		});
+
+		return ids.length;
+	} catch (error) {
+		logger.error({ message: "Error purging files", error });
+		throw error;
+	}
+}
+
+/**
+ * Hard-delete trashed files older than the retention period
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+	const cutoff = new Date(Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+	let purged = 0;
+
+	while (true) {
+		const expired = await db
+			.select({ id: files.id })
+			.from(files)
+			.where(and(eq(files.status, "deleted"), lte(files.deletedAt, cutoff)))
+			.limit(PURGE_BATCH_SIZE);
+
+		if (expired.length === 0) break;
+
+		purged += await purgeFiles(expired.map((file) => file.id));
+		if (expired.length < PURGE_BATCH_SIZE) break;
+	}
+
+	return purged;
+}
+
+/**
+ * Run the trash purge in the background at most once per interval across instances
+ */
+export async function scheduleTrashPurge(): Promise<void> {
+	try {
+		const acquired = await redis.set(
+			PURGE_LOCK_KEY,
+			Date.now().toString(),
+			"EX",
+			PURGE_INTERVAL_SECONDS,
+			"NX",
+		);
+		if (acquired !== "OK") return;
+
+		purgeExpiredTrash().catch((error) => {
+			logger.error({ message: "Background trash purge failed", error });
+		});
+	} catch (error) {
+		logger.warn({ message: "Could not schedule trash purge", error });
+	}
+}
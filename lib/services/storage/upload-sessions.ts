@@ -0,0 +1,84 @@
+import { db } from "@/db";
+import { uploadSessions } from "@/db/schema/files";
+import { inArray, lte } from "drizzle-orm";
+import { redis } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+import { abortMultipartUpload } from "./minio";
+import { sweepAbandonedDirectUploads } from "./direct-uploads";
+
+const SWEEP_LOCK_KEY = "upload_sessions:sweep";
+const SWEEP_INTERVAL_SECONDS = 15 * 60;
+
+/**
+ * Remove upload sessions past expiresAt and abort their MinIO multipart uploads
+ */
+export async function sweepExpiredUploadSessions(): Promise<number> {
+	try {
+		const expired = await db
+			.select()
+			.from(uploadSessions)
+			.where(lte(uploadSessions.expiresAt, new Date()));
+
+		if (expired.length === 0) return 0;
+
+		for (const session of expired) {
+			const isOpen = session.status === "pending" || session.status === "uploading";
+			if (isOpen && session.metadata) {
+				try {
+					await abortMultipartUpload(
+						session.metadata.objectName,
+						session.metadata.uploadId,
+					);
+				} catch (error) {
+					logger.warn({
+						message: `Failed to abort multipart upload for session: ${session.id}`,
+						error,
+					});
+				}
+			}
+		}
+
+		await db.delete(uploadSessions).where(
+			inArray(
+				uploadSessions.id,
+				expired.map((session) => session.id),
+			),
+		);
+
+		logger.info({
+			event: "upload_session.swept",
+			message: `Swept ${expired.length} expired upload sessions`,
+			count: expired.length,
+		});
+
+		return expired.length;
+	} catch (error) {
+		logger.error({ message: "Error sweeping upload sessions", error });
+		throw error;
+	}
+}
+
+/**
+ * Run the sweep in the background at most once per interval across instances
+ */
+export async function scheduleUploadSessionSweep(): Promise<void> {
+	try {
+		const acquired = await redis.set(
+			SWEEP_LOCK_KEY,
+			Date.now().toString(),
+			"EX",
+			SWEEP_INTERVAL_SECONDS,
+			"NX",
+		);
+		if (acquired !== "OK") return;
+
+		sweepExpiredUploadSessions().catch((error) => {
+			logger.error({ message: "Background upload session sweep failed", error });
+		});
+		sweepAbandonedDirectUploads().catch((error) => {
+			logger.error({ message: "Background direct upload sweep failed", error });
+		});
+	} catch (error) {
+		logger.warn({ message: "Could not schedule upload session sweep", error });
+	}
+}
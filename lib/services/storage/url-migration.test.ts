@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as minio from "@/lib/services/storage/minio";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+
+const removeBucketPolicy = mock(async () => {});
+
+mock.module("@/lib/services/storage/minio", () => ({ ...minio, removeBucketPolicy }));
+
+const { migrateStoredUrls } = await import("./url-migration");
+
+// How objects were linked before the bucket was made private
+function bucketUrl(objectName: string): string {
+	return `http://localhost:9000/${minio.BUCKET_NAME}/${objectName}`;
+}
+
+function findUpdates(table: string) {
+	return getQueries()
+		.filter((query) => query.operation === "update" && query.table === table)
+		.map((query) => query.values);
+}
+
+describe("migrateStoredUrls", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		removeBucketPolicy.mockClear();
+	});
+
+	test("points file, thumbnail and preview URLs at the object route", async () => {
+		queueResults(
+			[
+				{
+					id: "file-1",
+					url: bucketUrl("uploads/clip.mp4"),
+					thumbnailUrl: bucketUrl("thumbnails/clip.webp"),
+					metadata: { previewUrl: bucketUrl("previews/clip.mp4"), duration: 12 },
+				},
+			],
+			[{ affectedRows: 1 }], // file update
+			[
+				{
+					id: "version-1",
+					url: bucketUrl("uploads/clip-0.mp4"),
+					thumbnailUrl: null,
+				},
+			],
+		);
+
+		const result = await migrateStoredUrls();
+
+		expect(result).toEqual({ files: 1, versions: 1 });
+		expect(findUpdates("files")).toEqual([
+			{
+				url: minio.getObjectUrl("uploads/clip.mp4"),
+				thumbnailUrl: minio.getObjectUrl("thumbnails/clip.webp"),
+				metadata: { previewUrl: minio.getObjectUrl("previews/clip.mp4"), duration: 12 },
+			},
+		]);
+		expect(findUpdates("file_versions")).toEqual([
+			{ url: minio.getObjectUrl("uploads/clip-0.mp4"), thumbnailUrl: null },
+		]);
+		expect(removeBucketPolicy).toHaveBeenCalledTimes(1);
+	});
+
+	test("moves thumbnails written under another server URL to this one", async () => {
+		queueResults([
+			{
+				id: "file-1",
+				url: minio.getObjectUrl("uploads/photo.jpg"),
+				thumbnailUrl: `https://old.example.com${minio.getObjectPath("thumbnails/photo.webp")}`,
+				metadata: {},
+			},
+		]);
+
+		await migrateStoredUrls();
+
+		expect(findUpdates("files")[0]).toMatchObject({
+			thumbnailUrl: minio.getObjectUrl("thumbnails/photo.webp"),
+		});
+	});
+
+	test("leaves rows that already use the object route alone", async () => {
+		queueResults([
+			{
+				id: "file-1",
+				url: minio.getObjectUrl("uploads/report-1.txt"),
+				thumbnailUrl: null,
+				metadata: {},
+			},
+		]);
+
+		const result = await migrateStoredUrls();
+
+		expect(result).toEqual({ files: 0, versions: 0 });
+		expect(getQueries().some((query) => query.operation === "update")).toBe(false);
+	});
+});
@@ -0,0 +1,136 @@
+import { db } from "@/db";
+import { files, fileVersions } from "@/db/schema/files";
+import { asc, eq, gt } from "drizzle-orm";
+import { invalidateCache } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+import { getObjectNameFromUrl, getObjectUrl, removeBucketPolicy } from "./minio";
+
+const MIGRATION_BATCH_SIZE = 500;
+
+export interface StoredUrlMigrationResult {
+	files: number; // rows rewritten
+	versions: number;
+}
+
+/**
+ * Proxy URL for a stored URL; unchanged when it is not one of our objects
+ */
+function toObjectUrl(url: string): string {
+	const objectName = getObjectNameFromUrl(url);
+	return objectName ? getObjectUrl(objectName) : url;
+}
+
+async function migrateFileUrls(): Promise<number> {
+	let migrated = 0;
+	let cursor = "";
+
+	while (true) {
+		const rows = await db
+			.select({
+				id: files.id,
+				url: files.url,
+				thumbnailUrl: files.thumbnailUrl,
+				metadata: files.metadata,
+			})
+			.from(files)
+			.where(gt(files.id, cursor))
+			.orderBy(asc(files.id))
+			.limit(MIGRATION_BATCH_SIZE);
+
+		for (const row of rows) {
+			const url = toObjectUrl(row.url);
+			const thumbnailUrl = row.thumbnailUrl ? toObjectUrl(row.thumbnailUrl) : null;
+			const previewUrl =
+				typeof row.metadata?.previewUrl === "string"
+					? toObjectUrl(row.metadata.previewUrl)
+					: undefined;
+
+			if (
+				url === row.url &&
+				thumbnailUrl === row.thumbnailUrl &&
+				previewUrl === row.metadata?.previewUrl
+			) {
+				continue;
+			}
+
+			await db
+				.update(files)
+				.set({
+					url,
+					thumbnailUrl,
+					metadata: previewUrl ? { ...row.metadata, previewUrl } : row.metadata,
+				})
+				.where(eq(files.id, row.id));
+			migrated++;
+		}
+
+		if (rows.length < MIGRATION_BATCH_SIZE) break;
+		cursor = rows[rows.length - 1].id;
+	}
+
+	return migrated;
+}
+
+async function migrateVersionUrls(): Promise<number> {
+	let migrated = 0;
+	let cursor = "";
+
+	while (true) {
+		const rows = await db
+			.select({
+				id: fileVersions.id,
+				url: fileVersions.url,
+				thumbnailUrl: fileVersions.thumbnailUrl,
+			})
+			.from(fileVersions)
+			.where(gt(fileVersions.id, cursor))
+			.orderBy(asc(fileVersions.id))
+			.limit(MIGRATION_BATCH_SIZE);
+
+		for (const row of rows) {
+			const url = toObjectUrl(row.url);
+			const thumbnailUrl = row.thumbnailUrl ? toObjectUrl(row.thumbnailUrl) : null;
+			if (url === row.url && thumbnailUrl === row.thumbnailUrl) continue;
+
+			await db
+				.update(fileVersions)
+				.set({ url, thumbnailUrl })
+				.where(eq(fileVersions.id, row.id));
+			migrated++;
+		}
+
+		if (rows.length < MIGRATION_BATCH_SIZE) break;
+		cursor = rows[rows.length - 1].id;
+	}
+
+	return migrated;
+}
+
+/**
+ * Move an existing deployment to the private bucket: rewrite the direct bucket
+ * URLs stored in files and file versions to the proxy route, then remove the
+ * public-read bucket policy. Safe to run more than once.
+ */
+export async function migrateStoredUrls(): Promise<StoredUrlMigrationResult> {
+	try {
+		const result = {
+			files: await migrateFileUrls(),
+			versions: await migrateVersionUrls(),
+		};
+
+		// URLs are rewritten first so nothing points at the bucket once it is closed
+		await removeBucketPolicy();
+		await invalidateCache("files:*");
+
+		logger.info({
+			event: "storage.urls.migrated",
+			message: `Rewrote stored URLs of ${result.files} files and ${result.versions} versions`,
+			...result,
+		});
+
+		return result;
+	} catch (error) {
+		logger.error({ message: "Error migrating stored URLs", error });
+		throw error;
+	}
+}
@@ -0,0 +1,99 @@
+import archiver from "archiver";
+import type { Readable } from "stream";
+import { logger } from "@/lib/logger";
+
+// ZIP_MAX_FILES / ZIP_MAX_TOTAL_SIZE cap a single archive request
+export const ZIP_MAX_FILES = parseInt(process.env.ZIP_MAX_FILES || "1000");
+export const ZIP_MAX_TOTAL_SIZE = parseInt(
+	process.env.ZIP_MAX_TOTAL_SIZE || String(10 * 1024 * 1024 * 1024),
+);
+
+export interface ZipEntry {
+	name: string; // path inside the archive, "/" separated
+	mimeType: string;
+	date?: Date;
+	open: () => Promise<Readable | Buffer>; // called when the entry is written
+}
+
+// Already-compressed types are stored as-is; deflating them only burns CPU
+function isCompressible(mimeType: string): boolean {
+	return (
+		mimeType.startsWith("text/") ||
+		mimeType === "application/json" ||
+		mimeType === "application/xml" ||
+		mimeType === "image/svg+xml"
+	);
+}
+
+/**
+ * Make an archive path safe: no absolute paths, no "..", no empty segments
+ */
+export function toZipPath(...parts: Array<string | null | undefined>): string {
+	return parts
+		.filter((part): part is string => !!part)
+		.flatMap((part) => part.split(/[\\/]+/))
+		.map((segment) => segment.replace(/[\x00-\x1f]/g, "").trim())
+		.filter((segment) => segment && segment !== "." && segment !== "..")
+		.join("/");
+}
+
+/**
+ * Give duplicate archive paths a " (n)" suffix before the extension
+ */
+export function dedupeZipPaths<T extends { name: string }>(entries: T[]): T[] {
+	const seen = new Set<string>();
+
+	return entries.map((entry) => {
+		let name = entry.name;
+		const dot = name.lastIndexOf(".");
+		const hasExt = dot > name.lastIndexOf("/") + 1;
+		const base = hasExt ? name.slice(0, dot) : name;
+		const ext = hasExt ? name.slice(dot) : "";
+
+		for (let n = 1; seen.has(name.toLowerCase()); n++) {
+			name = `${base} (${n})${ext}`;
+		}
+		seen.add(name.toLowerCase());
+
+		return name === entry.name ? entry : { ...entry, name };
+	});
+}
+
+/**
+ * Stream a ZIP of the entries. Sources are opened one at a time as the
+ * previous entry finishes, so only one object is read from storage at once
+ * and nothing is buffered beyond the stream's own high-water mark.
+ */
+export function createZipStream(entries: ZipEntry[]): Readable {
+	const archive = archiver("zip", { zlib: { level: 6 } });
+	let index = 0;
+
+	const appendNext = async () => {
+		const entry = entries[index++];
+		if (!entry) {
+			await archive.finalize();
+			return;
+		}
+
+		archive.append(await entry.open(), {
+			name: entry.name,
+			date: entry.date,
+			store: !isCompressible(entry.mimeType),
+		});
+	};
+
+	const fail = (error: unknown) => {
+		logger.error({ message: "ZIP stream failed", error });
+		archive.destroy(error instanceof Error ? error : new Error(String(error)));
+	};
+
+	archive.on("entry", () => {
+		appendNext().catch(fail);
+	});
+	archive.on("warning", (error) => {
+		logger.warn(`ZIP stream warning: ${error.message}`);
+	});
+	appendNext().catch(fail);
+
+	return archive;
+}
@@ -0,0 +1,12 @@
+// Watermark profile exports
+export {
+	WATERMARKABLE_IMAGE_TYPES,
+	WATERMARK_PREFIX,
+	isWatermarkable,
+	getWatermarkProfile,
+	getWatermarkOverlay,
+	getWatermarkOptions,
+	applyWatermarkProfile,
+	watermarkStoredObject,
+	type WatermarkProfile,
+} from "./profiles";
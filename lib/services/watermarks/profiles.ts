@@ -0,0 +1,115 @@
+import { db } from "@/db";
+import { watermarkProfiles } from "@/db/schema/files";
+import { and, eq } from "drizzle-orm";
+import {
+	addWatermark,
+	renderTextWatermark,
+	type WatermarkPosition,
+} from "@/lib/api/upload/server";
+import { getFileBuffer, replaceFile } from "@/lib/services/storage/minio";
+
+export type WatermarkProfile = typeof watermarkProfiles.$inferSelect;
+
+// Raster formats sharp can composite onto and write back in the same format
+export const WATERMARKABLE_IMAGE_TYPES = [
+	"image/jpeg",
+	"image/jpg",
+	"image/png",
+	"image/webp",
+	"image/avif",
+];
+
+// Image watermarks are stored per user under this prefix
+export const WATERMARK_PREFIX = "watermarks";
+
+export function isWatermarkable(mimeType: string): boolean {
+	return WATERMARKABLE_IMAGE_TYPES.includes(mimeType);
+}
+
+/**
+ * Load a profile owned by the user
+ */
+export async function getWatermarkProfile(
+	profileId: string,
+	userId: string,
+): Promise<WatermarkProfile | null> {
+	const profile = await db
+		.select()
+		.from(watermarkProfiles)
+		.where(and(eq(watermarkProfiles.id, profileId), eq(watermarkProfiles.userId, userId)))
+		.limit(1);
+
+	return profile[0] ?? null;
+}
+
+/**
+ * The overlay for a profile: its stored image or its rendered text
+ */
+export async function getWatermarkOverlay(profile: WatermarkProfile): Promise<Buffer> {
+	if (profile.type === "image") {
+		if (!profile.imageFileName) {
+			throw new Error(`Watermark profile ${profile.id} has no image`);
+		}
+		return getFileBuffer(profile.imageFileName);
+	}
+
+	if (!profile.text) {
+		throw new Error(`Watermark profile ${profile.id} has no text`);
+	}
+	return renderTextWatermark(profile.text);
+}
+
+/**
+ * A profile's settings as addWatermark / processUploadedFile options
+ */
+export function getWatermarkOptions(profile: WatermarkProfile): {
+	position: WatermarkPosition;
+	opacity: number;
+	scale: number;
+} {
+	return {
+		position: profile.position,
+		opacity: profile.opacity / 100,
+		scale: profile.scale / 100,
+	};
+}
+
+/**
+ * Watermark an image buffer with a profile. Other file types pass through.
+ */
+export async function applyWatermarkProfile(
+	buffer: Buffer,
+	mimeType: string,
+	profile: WatermarkProfile,
+): Promise<Buffer> {
+	if (!isWatermarkable(mimeType)) {
+		return buffer;
+	}
+
+	const { position, opacity, scale } = getWatermarkOptions(profile);
+	return addWatermark(buffer, await getWatermarkOverlay(profile), position, opacity, scale);
+}
+
+/**
+ * Watermark an object uploaded straight to storage, in place.
+ * Returns the stored size.
+ */
+export async function watermarkStoredObject(
+	objectName: string,
+	mimeType: string,
+	profile: WatermarkProfile,
+	metadata?: Record<string, string>,
+): Promise<number | null> {
+	if (!isWatermarkable(mimeType)) {
+		return null;
+	}
+
+	const watermarked = await applyWatermarkProfile(
+		await getFileBuffer(objectName),
+		mimeType,
+		profile,
+	);
+	const stored = await replaceFile(objectName, watermarked, mimeType, metadata);
+
+	return stored.size;
+}
@@ -0,0 +1,39 @@
+import type { ImageLoaderProps } from "next/image";
+
+const IMAGE_ENDPOINT = "/api/images/";
+const DOCUMENT_ENDPOINT = "/api/documents/";
+
+// Widest page render the document endpoint accepts
+const MAX_DOCUMENT_PAGE_WIDTH = 2048;
+
+/**
+ * Source for a stored image, served through the transform endpoint.
+ * Pass fit to crop instead of fitting inside the requested size.
+ */
+export function getImageSrc(fileId: string, fit?: "cover" | "contain"): string {
+	return `${IMAGE_ENDPOINT}${fileId}${fit ? `?fit=${fit}` : ""}`;
+}
+
+/**
+ * Source for a rendered page (1-based) of a PDF or Office document
+ */
+export function getDocumentPageSrc(fileId: string, page: number = 1): string {
+	return `${DOCUMENT_ENDPOINT}${fileId}/pages/${page}`;
+}
+
+/**
+ * next/image loader: sizes our own images and document pages through the
+ * API, other sources are used as they are
+ */
+export default function imageLoader({ src, width, quality }: ImageLoaderProps): string {
+	const separator = src.includes("?") ? "&" : "?";
+
+	if (src.startsWith(IMAGE_ENDPOINT)) {
+		return `${src}${separator}w=${width}&q=${quality || 75}`;
+	}
+	if (src.startsWith(DOCUMENT_ENDPOINT)) {
+		return `${src}${separator}w=${Math.min(width, MAX_DOCUMENT_PAGE_WIDTH)}`;
+	}
+
+	return src;
+}
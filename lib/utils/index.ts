@@ -1,2 +1,3 @@
 export { cn } from "./cn";
 
+export { getImageSrc, getDocumentPageSrc } from "./image-loader";
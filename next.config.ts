@@ -12,7 +12,12 @@ const nextConfig: NextConfig = {
     ],
     formats: ['image/avif', 'image/webp'],
     minimumCacheTTL: 60,
+    // Stored images are resized by /api/images, see lib/utils/image-loader.ts
+    loader: 'custom',
+    loaderFile: './lib/utils/image-loader.ts',
   },
+  // jsdom (used to sanitize SVG uploads) reads its own files at runtime
+  serverExternalPackages: ['isomorphic-dompurify'],
   experimental: {
     cssChunking: 'strict',
     serverActions: {
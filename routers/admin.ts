@@ -0,0 +1,189 @@
+import { adminProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { user } from "@/db/schema/auth";
+import { eq, desc, and, or, like, sql, type SQL } from "drizzle-orm";
+import { getStorageQuota, type StorageQuota } from "@/lib/services/storage/quota";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	listUsersSchema,
+	setUserRoleSchema,
+	setUserQuotaSchema,
+	type ListUsersResponse,
+	type SetUserRoleResponse,
+} from "../types/admin";
+
+// Export types for use in other files
+export * from "../types/admin";
+
+export const adminRouter = router({
+	// List users with their roles
+	listUsers: adminProcedure
+		.input(listUsersSchema)
+		.query(async ({ input }): Promise<ListUsersResponse> => {
+			try {
+				const conditions: SQL[] = [];
+
+				if (input.search) {
+					conditions.push(
+						or(
+							like(user.name, `%${input.search}%`),
+							like(user.email, `%${input.search}%`),
+						)!,
+					);
+				}
+
+				if (input.role) {
+					conditions.push(eq(user.role, input.role));
+				}
+
+				const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+				const [users, countResult] = await Promise.all([
+					db
+						.select({
+							id: user.id,
+							name: user.name,
+							email: user.email,
+							role: user.role,
+							plan: user.plan,
+							storageQuota: user.storageQuota,
+							createdAt: user.createdAt,
+						})
+						.from(user)
+						.where(where)
+						.orderBy(desc(user.createdAt))
+						.limit(input.limit)
+						.offset(input.offset),
+					db
+						.select({ count: sql<number>`count(*)` })
+						.from(user)
+						.where(where),
+				]);
+
+				const total = countResult[0]?.count || 0;
+
+				return {
+					users,
+					pagination: {
+						total,
+						limit: input.limit,
+						offset: input.offset,
+						hasMore: input.offset + input.limit < total,
+					},
+				};
+			} catch (error) {
+				logger.error({ message: "List users error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to fetch users",
+				});
+			}
+		}),
+
+	// Promote or demote a user
+	setRole: adminProcedure
+		.input(setUserRoleSchema)
+		.mutation(async ({ input, ctx }): Promise<SetUserRoleResponse> => {
+			try {
+				const target = await db
+					.select({ id: user.id, email: user.email, role: user.role })
+					.from(user)
+					.where(eq(user.id, input.userId))
+					.limit(1);
+
+				if (!target[0]) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "User not found",
+					});
+				}
+
+				if (target[0].role === "admin" && input.role !== "admin") {
+					const adminCount = await db
+						.select({ count: sql<number>`count(*)` })
+						.from(user)
+						.where(eq(user.role, "admin"));
+
+					if ((adminCount[0]?.count || 0) <= 1) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "Cannot remove the last admin",
+						});
+					}
+				}
+
+				await db
+					.update(user)
+					.set({ role: input.role, updatedAt: new Date() })
+					.where(eq(user.id, input.userId));
+
+				logger.info({
+					event: "user.role.updated",
+					message: `User ${target[0].email} role changed from ${target[0].role} to ${input.role}`,
+					targetUserId: input.userId,
+					previousRole: target[0].role,
+					role: input.role,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					userId: input.userId,
+					role: input.role,
+					message: `User role updated to ${input.role}`,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Set user role error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to update user role",
+				});
+			}
+		}),
+
+	// Change a user's plan and/or per-user quota override
+	setQuota: adminProcedure
+		.input(setUserQuotaSchema)
+		.mutation(async ({ input, ctx }): Promise<StorageQuota> => {
+			try {
+				const [result] = await db
+					.update(user)
+					.set({
+						...(input.plan !== undefined && { plan: input.plan }),
+						...(input.storageQuota !== undefined && {
+							storageQuota: input.storageQuota,
+						}),
+						updatedAt: new Date(),
+					})
+					.where(eq(user.id, input.userId));
+
+				if (result.affectedRows === 0) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "User not found",
+					});
+				}
+
+				logger.info({
+					event: "user.quota.updated",
+					message: `Storage quota updated for user: ${input.userId}`,
+					targetUserId: input.userId,
+					plan: input.plan,
+					storageQuota: input.storageQuota,
+					userId: ctx.session.user.id,
+				});
+
+				return await getStorageQuota(input.userId);
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Set user quota error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to update storage quota",
+				});
+			}
+		}),
+});
@@ -0,0 +1,181 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { files, fileAccessLogs } from "@/db/schema/files";
+import { eq, desc, and, like, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { formatFileSize, getFileCategory } from "@/lib/api/upload";
+import { invalidateCache } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	listArchivedSchema,
+	archiveFileSchema,
+	type ListArchivedResponse,
+} from "../types/archive";
+
+// Export types for use in other files
+export * from "../types/archive";
+
+type FileStatus = (typeof files.$inferSelect)["status"];
+
+/**
+ * Move one of the user's files between the active and archived states
+ */
+async function setArchived(
+	fileId: string,
+	userId: string,
+	archived: boolean,
+): Promise<void> {
+	const from: FileStatus = archived ? "active" : "archived";
+	const to: FileStatus = archived ? "archived" : "active";
+
+	const [result] = await db
+		.update(files)
+		.set({ status: to, updatedAt: new Date() })
+		.where(and(eq(files.id, fileId), eq(files.userId, userId), eq(files.status, from)));
+
+	if (result.affectedRows === 0) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: archived ? "File not found" : "Archived file not found",
+		});
+	}
+
+	await invalidateCache(`files:user:${userId}:*`);
+	await invalidateCache("files:public:*");
+}
+
+export const archiveRouter = router({
+	// List the user's archived files
+	listArchived: protectedProcedure
+		.input(listArchivedSchema)
+		.query(async ({ input, ctx }): Promise<ListArchivedResponse> => {
+			try {
+				const conditions = [
+					eq(files.userId, ctx.session.user.id),
+					eq(files.status, "archived"),
+				];
+
+				if (input.search) {
+					conditions.push(like(files.originalName, `%${input.search}%`));
+				}
+
+				const [archived, countResult] = await Promise.all([
+					db
+						.select({
+							id: files.id,
+							originalName: files.originalName,
+							mimeType: files.mimeType,
+							size: files.size,
+							url: files.url,
+							thumbnailUrl: files.thumbnailUrl,
+							createdAt: files.createdAt,
+							updatedAt: files.updatedAt,
+						})
+						.from(files)
+						.where(and(...conditions))
+						.orderBy(desc(files.updatedAt))
+						.limit(input.limit)
+						.offset(input.offset),
+					db
+						.select({ count: sql<number>`count(*)` })
+						.from(files)
+						.where(and(...conditions)),
+				]);
+
+				const total = countResult[0]?.count || 0;
+
+				return {
+					files: archived.map((file) => ({
+						...file,
+						formattedSize: formatFileSize(file.size),
+						category: getFileCategory(file.mimeType),
+					})),
+					pagination: {
+						total,
+						limit: input.limit,
+						offset: input.offset,
+						hasMore: input.offset + input.limit < total,
+					},
+				};
+			} catch (error) {
+				logger.error({ message: "List archived files error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to fetch archived files",
+				});
+			}
+		}),
+
+	// Archive a file (hidden from listings and shares, kept in storage)
+	archiveFile: protectedProcedure
+		.input(archiveFileSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				await setArchived(input.id, ctx.session.user.id, true);
+
+				await db.insert(fileAccessLogs).values({
+					id: nanoid(),
+					fileId: input.id,
+					userId: ctx.session.user.id,
+					action: "archive",
+				});
+
+				logger.info({
+					event: "file.archived",
+					message: `File archived: ${input.id}`,
+					fileId: input.id,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					id: input.id,
+					message: "File archived successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Archive file error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to archive file",
+				});
+			}
+		}),
+
+	// Bring an archived file back to the active listings
+	unarchiveFile: protectedProcedure
+		.input(archiveFileSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				await setArchived(input.id, ctx.session.user.id, false);
+
+				await db.insert(fileAccessLogs).values({
+					id: nanoid(),
+					fileId: input.id,
+					userId: ctx.session.user.id,
+					action: "restore",
+				});
+
+				logger.info({
+					event: "file.unarchived",
+					message: `File unarchived: ${input.id}`,
+					fileId: input.id,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					id: input.id,
+					message: "File unarchived successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Unarchive file error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to unarchive file",
+				});
+			}
+		}),
+});
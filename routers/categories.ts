@@ -0,0 +1,378 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { files, fileCategories, fileCategoryRelations } from "@/db/schema/files";
+import { eq, and, asc, inArray, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { invalidateCache } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	createCategorySchema,
+	renameCategorySchema,
+	moveCategorySchema,
+	deleteCategorySchema,
+	categoryFilesSchema,
+	type CategoryNode,
+} from "../types/categories";
+
+// Export types for use in other files
+export * from "../types/categories";
+
+type Category = typeof fileCategories.$inferSelect;
+
+/**
+ * Build a globally unique slug (slugs are unique across all users)
+ */
+async function generateSlug(name: string): Promise<string> {
+	const base =
+		name
+			.toLowerCase()
+			.normalize("NFKD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "")
+			.slice(0, 80) || "folder";
+
+	const existing = await db
+		.select({ id: fileCategories.id })
+		.from(fileCategories)
+		.where(eq(fileCategories.slug, base))
+		.limit(1);
+
+	return existing[0] ? `${base}-${nanoid(8).toLowerCase()}` : base;
+}
+
+/**
+ * Load a category owned by the user
+ */
+async function findOwnedCategory(id: string, userId: string): Promise<Category> {
+	const category = await db
+		.select()
+		.from(fileCategories)
+		.where(and(eq(fileCategories.id, id), eq(fileCategories.userId, userId)))
+		.limit(1);
+
+	if (!category[0]) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Category not found",
+		});
+	}
+
+	return category[0];
+}
+
+/**
+ * Make sure all file ids exist and belong to the user
+ */
+async function assertOwnedFiles(fileIds: string[], userId: string): Promise<void> {
+	const owned = await db
+		.select({ id: files.id })
+		.from(files)
+		.where(and(inArray(files.id, fileIds), eq(files.userId, userId)));
+
+	if (owned.length !== new Set(fileIds).size) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "One or more files not found",
+		});
+	}
+}
+
+export const categoriesRouter = router({
+	// Create a category (optionally nested under a parent)
+	create: protectedProcedure
+		.input(createCategorySchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				if (input.parentId) {
+					await findOwnedCategory(input.parentId, ctx.session.user.id);
+				}
+
+				const category = {
+					id: nanoid(),
+					name: input.name,
+					slug: await generateSlug(input.name),
+					description: input.description ?? null,
+					parentId: input.parentId ?? null,
+					userId: ctx.session.user.id,
+					isPublic: input.isPublic,
+				};
+
+				await db.insert(fileCategories).values(category);
+
+				logger.info({
+					event: "category.created",
+					message: `Category created: ${input.name}`,
+					categoryId: category.id,
+					userId: ctx.session.user.id,
+				});
+
+				return category;
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Create category error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create category",
+				});
+			}
+		}),
+
+	// Rename a category (regenerates its slug)
+	rename: protectedProcedure
+		.input(renameCategorySchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const category = await findOwnedCategory(input.id, ctx.session.user.id);
+
+				const slug =
+					category.name === input.name ? category.slug : await generateSlug(input.name);
+
+				await db
+					.update(fileCategories)
+					.set({
+						name: input.name,
+						slug,
+						description:
+							input.description === undefined ? category.description : input.description,
+					})
+					.where(eq(fileCategories.id, category.id));
+
+				return {
+					message: "Category renamed successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Rename category error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to rename category",
+				});
+			}
+		}),
+
+	// Move a category under another parent (or to the root)
+	move: protectedProcedure
+		.input(moveCategorySchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const category = await findOwnedCategory(input.id, ctx.session.user.id);
+
+				// Walk up from the new parent to make sure we don't create a cycle
+				let ancestorId = input.parentId;
+				while (ancestorId) {
+					if (ancestorId === category.id) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "A category cannot be moved into itself or its descendants",
+						});
+					}
+					const ancestor = await findOwnedCategory(ancestorId, ctx.session.user.id);
+					ancestorId = ancestor.parentId;
+				}
+
+				await db
+					.update(fileCategories)
+					.set({ parentId: input.parentId })
+					.where(eq(fileCategories.id, category.id));
+
+				return {
+					message: "Category moved successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Move category error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to move category",
+				});
+			}
+		}),
+
+	// Delete a category; its children move up to its parent, files stay untouched
+	delete: protectedProcedure
+		.input(deleteCategorySchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const category = await findOwnedCategory(input.id, ctx.session.user.id);
+
+				await db
+					.update(fileCategories)
+					.set({ parentId: category.parentId })
+					.where(eq(fileCategories.parentId, category.id));
+
+				// File relations are removed by the foreign key cascade
+				await db.delete(fileCategories).where(eq(fileCategories.id, category.id));
+
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+
+				logger.info({
+					event: "category.deleted",
+					message: `Category deleted: ${category.name}`,
+					categoryId: category.id,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					message: "Category deleted successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Delete category error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to delete category",
+				});
+			}
+		}),
+
+	// List the user's categories as a tree
+	list: protectedProcedure.query(async ({ ctx }): Promise<CategoryNode[]> => {
+		try {
+			const [categories, counts] = await Promise.all([
+				db
+					.select()
+					.from(fileCategories)
+					.where(eq(fileCategories.userId, ctx.session.user.id))
+					.orderBy(asc(fileCategories.name)),
+				db
+					.select({
+						categoryId: fileCategoryRelations.categoryId,
+						count: sql<number>`count(*)`,
+					})
+					.from(fileCategoryRelations)
+					.innerJoin(files, eq(fileCategoryRelations.fileId, files.id))
+					.innerJoin(
+						fileCategories,
+						eq(fileCategoryRelations.categoryId, fileCategories.id),
+					)
+					.where(
+						and(
+							eq(fileCategories.userId, ctx.session.user.id),
+							eq(files.status, "active"),
+						),
+					)
+					.groupBy(fileCategoryRelations.categoryId),
+			]);
+
+			const countMap = new Map(counts.map((c) => [c.categoryId, Number(c.count)]));
+			const nodes = new Map<string, CategoryNode>(
+				categories.map((category) => [
+					category.id,
+					{
+						id: category.id,
+						name: category.name,
+						slug: category.slug,
+						description: category.description,
+						parentId: category.parentId,
+						isPublic: category.isPublic,
+						createdAt: category.createdAt,
+						fileCount: countMap.get(category.id) ?? 0,
+						children: [],
+					},
+				]),
+			);
+
+			const roots: CategoryNode[] = [];
+			for (const node of nodes.values()) {
+				const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+				if (parent) {
+					parent.children.push(node);
+				} else {
+					roots.push(node);
+				}
+			}
+
+			return roots;
+		} catch (error) {
+			logger.error({ message: "List categories error", error });
+			throw new TRPCError({
+				code: "INTERNAL_SERVER_ERROR",
+				message: "Failed to fetch categories",
+			});
+		}
+	}),
+
+	// Attach files to a category
+	attachFiles: protectedProcedure
+		.input(categoryFilesSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				await findOwnedCategory(input.categoryId, ctx.session.user.id);
+				await assertOwnedFiles(input.fileIds, ctx.session.user.id);
+
+				const existing = await db
+					.select({ fileId: fileCategoryRelations.fileId })
+					.from(fileCategoryRelations)
+					.where(
+						and(
+							eq(fileCategoryRelations.categoryId, input.categoryId),
+							inArray(fileCategoryRelations.fileId, input.fileIds),
+						),
+					);
+				const attached = new Set(existing.map((r) => r.fileId));
+				const toAttach = [...new Set(input.fileIds)].filter((id) => !attached.has(id));
+
+				if (toAttach.length > 0) {
+					await db.insert(fileCategoryRelations).values(
+						toAttach.map((fileId) => ({
+							id: nanoid(),
+							fileId,
+							categoryId: input.categoryId,
+						})),
+					);
+				}
+
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+
+				return {
+					categoryId: input.categoryId,
+					count: toAttach.length,
+					message: `Added ${toAttach.length} files to category`,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Attach files to category error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to add files to category",
+				});
+			}
+		}),
+
+	// Detach files from a category
+	detachFiles: protectedProcedure
+		.input(categoryFilesSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				await findOwnedCategory(input.categoryId, ctx.session.user.id);
+
+				const [result] = await db
+					.delete(fileCategoryRelations)
+					.where(
+						and(
+							eq(fileCategoryRelations.categoryId, input.categoryId),
+							inArray(fileCategoryRelations.fileId, input.fileIds),
+						),
+					);
+
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+
+				return {
+					categoryId: input.categoryId,
+					count: result.affectedRows,
+					message: `Removed ${result.affectedRows} files from category`,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Detach files from category error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to remove files from category",
+				});
+			}
+		}),
+});
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as minio from "@/lib/services/storage/minio";
+import * as directUploads from "@/lib/services/storage/direct-uploads";
+import type { DirectUpload } from "@/lib/services/storage/direct-uploads";
+import { getQueries, resetFakeDb } from "@/test/fake-db";
+import { createTestContext } from "@/test/trpc";
+
+const PDF = Buffer.from("%PDF-1.4\nquarterly numbers");
+
+const upload: DirectUpload = {
+	id: "upload-1",
+	userId: "user-1",
+	objectName: "tmp-key.pdf",
+	fileName: "report.pdf",
+	mimeType: "application/pdf",
+	size: PDF.length,
+	isPublic: true,
+	stripMetadata: true,
+	expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+};
+
+const stored = { size: PDF.length, contentType: "application/pdf", etag: "etag-1" };
+
+const getPresignedUploadPolicy = mock(async () => ({
+	url: "http://minio.test/uploads",
+	fields: { key: "tmp-key.pdf", policy: "signed" },
+}));
+const getFileMetadata = mock(async () => ({
+	size: stored.size,
+	metaData: { "content-type": stored.contentType },
+	lastModified: new Date(),
+	etag: stored.etag,
+}));
+const getFileHead = mock(async () => PDF);
+const moveFile = mock(async () => {});
+const deleteFile = mock(async () => {});
+
+mock.module("@/lib/services/storage/minio", () => ({
+	...minio,
+	getPresignedUploadPolicy,
+	getFileMetadata,
+	getFileHead,
+	moveFile,
+	deleteFile,
+}));
+mock.module("@/lib/services/storage/direct-uploads", () => ({
+	...directUploads,
+	getDirectUpload: mock(async () => upload),
+}));
+
+const { directUploadRouter } = await import("./direct-upload");
+
+function insertedFiles() {
+	return getQueries().filter((query) => query.operation === "insert" && query.table === "files");
+}
+
+describe("directUpload.createUploadUrl", () => {
+	test("signs the declared size and type into the upload policy", async () => {
+		const caller = directUploadRouter.createCaller(createTestContext());
+
+		const response = await caller.createUploadUrl({
+			fileName: "report.pdf",
+			mimeType: "application/pdf",
+			size: 2048,
+		});
+
+		expect(getPresignedUploadPolicy).toHaveBeenCalledWith(expect.any(String), expect.any(Number), {
+			mimeType: "application/pdf",
+			size: 2048,
+		});
+		expect(response.uploadUrl).toBe("http://minio.test/uploads");
+		expect(response.fields).toEqual({ key: "tmp-key.pdf", policy: "signed" });
+	});
+});
+
+describe("directUpload.confirmUpload", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		moveFile.mockClear();
+		deleteFile.mockClear();
+		getFileHead.mockImplementation(async () => PDF);
+		stored.size = PDF.length;
+		stored.contentType = "application/pdf";
+		moveFile.mockImplementation(async () => {});
+	});
+
+	test("verifies the object on the presigned key before moving it", async () => {
+		const caller = directUploadRouter.createCaller(createTestContext());
+
+		const response = await caller.confirmUpload({ uploadId: "upload-1" });
+
+		expect(moveFile).toHaveBeenCalledWith("tmp-key.pdf", response.fileName, "etag-1");
+		expect(insertedFiles()).toHaveLength(1);
+		expect(insertedFiles()[0].values).toMatchObject({
+			fileName: response.fileName,
+			size: PDF.length,
+		});
+	});
+
+	test("deletes an object whose size differs from the declared size", async () => {
+		stored.size = PDF.length + 1;
+		const caller = directUploadRouter.createCaller(createTestContext());
+
+		await expect(caller.confirmUpload({ uploadId: "upload-1" })).rejects.toThrow(
+			"Uploaded size does not match the declared size",
+		);
+
+		expect(deleteFile).toHaveBeenCalledWith("tmp-key.pdf");
+		expect(moveFile).not.toHaveBeenCalled();
+		expect(insertedFiles()).toHaveLength(0);
+	});
+
+	test("deletes an object whose bytes are not the declared type", async () => {
+		getFileHead.mockImplementation(async () => Buffer.from("<html><script>alert(1)</script>"));
+		const caller = directUploadRouter.createCaller(createTestContext());
+
+		await expect(caller.confirmUpload({ uploadId: "upload-1" })).rejects.toThrow();
+
+		expect(deleteFile).toHaveBeenCalledWith("tmp-key.pdf");
+		expect(moveFile).not.toHaveBeenCalled();
+		expect(insertedFiles()).toHaveLength(0);
+	});
+
+	test("rejects an object replaced after it was verified", async () => {
+		moveFile.mockImplementation(async () => {
+			throw new Error("At least one of the pre-conditions you specified did not hold");
+		});
+		const caller = directUploadRouter.createCaller(createTestContext());
+
+		await expect(caller.confirmUpload({ uploadId: "upload-1" })).rejects.toThrow(
+			"Uploaded file changed during verification",
+		);
+
+		expect(deleteFile).toHaveBeenCalledWith("tmp-key.pdf");
+		expect(insertedFiles()).toHaveLength(0);
+	});
+});
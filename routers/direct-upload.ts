@@ -0,0 +1,274 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { files } from "@/db/schema/files";
+import { nanoid } from "nanoid";
+import {
+	getFileMetadata,
+	deleteFile,
+	moveFile,
+	getObjectUrl,
+} from "@/lib/services/storage/minio";
+import {
+	createDirectUpload,
+	getDirectUpload,
+	finishDirectUpload,
+	getConfirmedObjectName,
+	type DirectUpload,
+} from "@/lib/services/storage/direct-uploads";
+import { scheduleUploadSessionSweep } from "@/lib/services/storage/upload-sessions";
+import { assertStorageQuota } from "@/lib/services/storage/quota";
+import { verifyStoredObject } from "@/lib/services/storage/content";
+import { getWatermarkProfile, watermarkStoredObject } from "@/lib/services/watermarks";
+import { isValidFileType, isValidFileSize } from "@/lib/api/upload";
+import { invalidateCache } from "@/lib/services/redis";
+import { enqueueFileProcessing, withMalwareScan } from "@/lib/services/processing";
+import { getInitialScanStatus } from "@/lib/services/scanning";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	createDirectUploadSchema,
+	confirmUploadSchema,
+	type DirectUploadUrlResponse,
+} from "../types/direct-upload";
+import type { UploadFileResponse } from "../types/upload";
+
+// Export types for use in other files
+export * from "../types/direct-upload";
+
+/**
+ * Drop an object that failed confirmation and forget the pending upload
+ */
+async function rejectDirectUpload(
+	upload: DirectUpload,
+	message: string,
+	objectName: string = upload.objectName,
+): Promise<never> {
+	try {
+		await deleteFile(objectName);
+	} catch (error) {
+		logger.warn({ message: `Failed to delete rejected direct upload: ${objectName}`, error });
+	}
+	await finishDirectUpload(upload);
+
+	throw new TRPCError({
+		code: "BAD_REQUEST",
+		message,
+	});
+}
+
+export const directUploadRouter = router({
+	// Step 1: presign a size-limited POST for a new object key
+	createUploadUrl: protectedProcedure
+		.input(createDirectUploadSchema)
+		.mutation(async ({ input, ctx }): Promise<DirectUploadUrlResponse> => {
+			try {
+				if (!isValidFileType(input.mimeType)) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: `File type ${input.mimeType} is not allowed`,
+					});
+				}
+
+				if (!isValidFileSize(input.size, input.mimeType)) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "File size exceeds the maximum allowed size",
+					});
+				}
+
+				await assertStorageQuota(ctx.session.user.id, input.size);
+
+				if (
+					input.watermarkProfileId &&
+					!(await getWatermarkProfile(input.watermarkProfileId, ctx.session.user.id))
+				) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Watermark profile not found",
+					});
+				}
+
+				// Opportunistically clean up abandoned uploads
+				await scheduleUploadSessionSweep();
+
+				const upload = await createDirectUpload({
+					userId: ctx.session.user.id,
+					fileName: input.fileName,
+					mimeType: input.mimeType,
+					size: input.size,
+					path: input.path,
+					isPublic: input.isPublic,
+					stripMetadata: input.stripMetadata,
+					watermarkProfileId: input.watermarkProfileId,
+				});
+
+				return {
+					uploadId: upload.id,
+					uploadUrl: upload.uploadUrl,
+					fields: upload.fields,
+					expiresAt: new Date(upload.expiresAt),
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Create direct upload error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to start upload",
+				});
+			}
+		}),
+
+	// Step 2: verify the uploaded object and create the file record
+	confirmUpload: protectedProcedure
+		.input(confirmUploadSchema)
+		.mutation(async ({ input, ctx }): Promise<UploadFileResponse> => {
+			try {
+				const upload = await getDirectUpload(input.uploadId);
+
+				if (!upload || upload.userId !== ctx.session.user.id) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Upload not found or expired",
+					});
+				}
+
+				let uploaded: Awaited<ReturnType<typeof getFileMetadata>>;
+				try {
+					uploaded = await getFileMetadata(upload.objectName);
+				} catch {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "File has not been uploaded yet",
+					});
+				}
+
+				if (uploaded.size !== upload.size) {
+					await rejectDirectUpload(upload, "Uploaded size does not match the declared size");
+				}
+
+				const contentType = uploaded.metaData["content-type"]?.split(";")[0].trim();
+				if (contentType !== upload.mimeType) {
+					await rejectDirectUpload(
+						upload,
+						"Uploaded content type does not match the declared type",
+					);
+				}
+
+				// The header is client-controlled, so check the bytes themselves
+				const content = await verifyStoredObject(
+					upload.objectName,
+					upload.mimeType,
+					uploaded.size,
+					{ "X-Original-Name": upload.fileName },
+					{ stripMetadata: upload.stripMetadata ?? true },
+				);
+				if (!content.valid) {
+					return rejectDirectUpload(upload, content.error);
+				}
+
+				// Take the verified object away from the still-valid presigned POST. The
+				// copy is conditional on the etag, so a replacement uploaded in the
+				// meantime is rejected instead of registered.
+				const verified = await getFileMetadata(upload.objectName);
+				if (verified.size !== content.size) {
+					await rejectDirectUpload(upload, "Uploaded file changed during verification");
+				}
+
+				const objectName = getConfirmedObjectName(upload);
+				try {
+					await moveFile(upload.objectName, objectName, verified.etag);
+				} catch {
+					await rejectDirectUpload(upload, "Uploaded file changed during verification");
+				}
+				await finishDirectUpload(upload);
+
+				const { mimeType, imageMetadata } = content;
+				let size = content.size;
+
+				// The profile may have been deleted since the URL was issued
+				if (upload.watermarkProfileId) {
+					const profile = await getWatermarkProfile(
+						upload.watermarkProfileId,
+						ctx.session.user.id,
+					);
+					if (!profile) {
+						return rejectDirectUpload(upload, "Watermark profile not found", objectName);
+					}
+					size =
+						(await watermarkStoredObject(objectName, mimeType, profile, {
+							"X-Original-Name": upload.fileName,
+						})) ?? size;
+				}
+
+				// Usage may have grown since the URL was issued
+				try {
+					await assertStorageQuota(ctx.session.user.id, size);
+				} catch (error) {
+					await deleteFile(objectName);
+					throw error;
+				}
+
+				const fileId = nanoid();
+				const url = getObjectUrl(objectName);
+				await db.insert(files).values({
+					id: fileId,
+					originalName: upload.fileName,
+					fileName: objectName,
+					mimeType,
+					size,
+					url,
+					thumbnailUrl: null,
+					path: upload.path,
+					userId: ctx.session.user.id,
+					metadata: {
+						originalName: upload.fileName,
+						fileName: objectName,
+						mimeType,
+						size,
+						...imageMetadata,
+					},
+					isPublic: upload.isPublic,
+					status: "active",
+					processingStatus: "completed",
+					scanStatus: getInitialScanStatus(),
+				});
+
+				// Hashing runs in the worker (after the malware scan, if enabled) and
+				// queues the regular processing afterwards
+				await enqueueFileProcessing(
+					fileId,
+					withMalwareScan([{ type: "deduplication", priority: 1 }]),
+				);
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+
+				logger.info({
+					event: "file.uploaded",
+					message: `File uploaded directly to storage: ${upload.fileName}`,
+					fileId,
+					userId: ctx.session.user.id,
+					size,
+				});
+
+				return {
+					id: fileId,
+					url,
+					thumbnailUrl: null,
+					fileName: objectName,
+					originalName: upload.fileName,
+					size,
+					mimeType,
+					duplicateOf: null, // known once the deduplication job has run
+					message: "File uploaded successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Confirm upload error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to confirm upload",
+				});
+			}
+		}),
+});
@@ -0,0 +1,81 @@
+import { apiLogger } from "@/lib/logger";
+import { findViewableFile } from "@/lib/services/storage/access";
+import { getDocumentPage } from "@/lib/services/media";
+import { isPreviewableDocument } from "@/lib/api/upload";
+import type { Context } from "hono";
+
+// Import schemas from global types
+import {
+	documentPageParamsSchema,
+	documentPageQuerySchema,
+} from "../types/documents";
+
+// Export types for use in other files
+export * from "../types/documents";
+
+// Same reasoning as image variants: the URL can outlive a version switch
+const PUBLIC_MAX_AGE = 24 * 60 * 60;
+const PRIVATE_MAX_AGE = 60 * 60;
+
+/**
+ * Serve one rendered page of a PDF or Office document as JPEG
+ * GET /api/documents/:fileId/pages/:page?w=
+ */
+export async function handleDocumentPage(c: Context) {
+	const childLogger = apiLogger;
+
+	const params = documentPageParamsSchema.safeParse({
+		fileId: c.req.param("fileId"),
+		page: c.req.param("page"),
+	});
+	const query = documentPageQuerySchema.safeParse(c.req.query());
+	if (!params.success || !query.success) {
+		return c.json({ error: "Invalid page parameters" }, 400);
+	}
+
+	try {
+		const viewable = await findViewableFile(params.data.fileId, c.req.raw.headers);
+		if (!viewable) {
+			return c.json({ error: "Document not found" }, 404);
+		}
+		const { file, isPublic } = viewable;
+
+		if (!isPreviewableDocument(file.mimeType)) {
+			return c.json({ error: "File has no page previews" }, 415);
+		}
+
+		const pageCount =
+			typeof file.metadata?.pageCount === "number" ? file.metadata.pageCount : undefined;
+		const page = await getDocumentPage(file.fileName, file.mimeType, {
+			page: params.data.page,
+			width: query.data.w,
+			pageCount,
+		});
+		if (!page) {
+			return c.json({ error: "Page not found" }, 404);
+		}
+
+		const headers: Record<string, string> = {
+			"Content-Type": "image/jpeg",
+			"Content-Length": page.length.toString(),
+			"Cache-Control": isPublic
+				? `public, max-age=${PUBLIC_MAX_AGE}`
+				: `private, max-age=${PRIVATE_MAX_AGE}`,
+		};
+		if (pageCount !== undefined) {
+			headers["X-Page-Count"] = pageCount.toString();
+		}
+
+		return c.body(new Uint8Array(page), 200, headers);
+	} catch (error) {
+		childLogger.error({
+			event: "document.page.error",
+			message: `Document page render failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			fileId: params.data.fileId,
+			page: params.data.page,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+
+		return c.json({ error: "Failed to render document page" }, 500);
+	}
+}
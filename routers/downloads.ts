@@ -0,0 +1,223 @@
+import { db } from "@/db";
+import { files, fileAccessLogs } from "@/db/schema/files";
+import { eq, and, or, like, inArray, asc, type SQL } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { Readable } from "stream";
+import { auth } from "@/lib/auth";
+import { getFile } from "@/lib/services/storage/minio";
+import { isQuarantined } from "@/lib/services/scanning";
+import {
+	createZipStream,
+	dedupeZipPaths,
+	toZipPath,
+	ZIP_MAX_FILES,
+	ZIP_MAX_TOTAL_SIZE,
+	type ZipEntry,
+} from "@/lib/services/storage/zip";
+import { formatContentDisposition, formatFileSize } from "@/lib/api/upload";
+import { apiLogger } from "@/lib/logger";
+import { getClientIp } from "@/lib/middleware/rate-limiter";
+import type { Context } from "hono";
+
+// Import schemas from global types
+import { zipDownloadSchema } from "../types/downloads";
+
+// Export types for use in other files
+export * from "../types/downloads";
+
+type FileRecord = typeof files.$inferSelect;
+
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Files in a folder path or any of its subfolders
+ */
+export function filesUnderPath(prefix: string): SQL {
+	return or(eq(files.path, prefix), like(files.path, `${escapeLike(prefix)}/%`))!;
+}
+
+/**
+ * Read the request from the query (GET) or a form / JSON body (POST).
+ * Repeated `fileIds` fields become an array.
+ */
+async function readZipRequest(c: Context): Promise<unknown> {
+	if (c.req.method !== "POST") {
+		return {
+			fileIds: c.req.queries("fileIds"),
+			path: c.req.query("path"),
+			name: c.req.query("name"),
+		};
+	}
+
+	if (c.req.header("content-type")?.includes("application/json")) {
+		return c.req.json();
+	}
+
+	const body = await c.req.parseBody({ all: true });
+	const fileIds = body.fileIds;
+	return {
+		fileIds: Array.isArray(fileIds) ? fileIds : fileIds ? [fileIds] : undefined,
+		path: typeof body.path === "string" ? body.path : undefined,
+		name: typeof body.name === "string" ? body.name : undefined,
+	};
+}
+
+/**
+ * Archive entry for a stored file, read from storage when it is written
+ */
+export function toZipEntry(file: FileRecord, name: string): ZipEntry {
+	return {
+		name,
+		mimeType: file.mimeType,
+		date: file.updatedAt,
+		open: () => getFile(file.fileName),
+	};
+}
+
+/**
+ * Path of a file inside an archive. Folder downloads are rooted at the
+ * requested folder; other files keep their full folder path.
+ */
+export function getZipEntryName(file: FileRecord, prefix: string | null): string {
+	const folder =
+		prefix && file.path
+			? toZipPath(prefix.split("/").pop(), file.path.slice(prefix.length))
+			: toZipPath(file.path);
+	return toZipPath(folder, file.originalName);
+}
+
+/**
+ * Node stream as a response body, read as the client consumes it
+ */
+export function toResponseStream(stream: Readable): ReadableStream<Uint8Array> {
+	const chunks: AsyncIterator<Uint8Array> = stream[Symbol.asyncIterator]();
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { value, done } = await chunks.next();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		cancel(reason) {
+			stream.destroy(reason instanceof Error ? reason : undefined);
+		},
+	});
+}
+
+/**
+ * Stream a ZIP response; entry paths are deduplicated first
+ */
+export function sendZip(c: Context, archiveName: string, entries: ZipEntry[]) {
+	const zip = createZipStream(dedupeZipPaths(entries));
+
+	return c.body(toResponseStream(zip), 200, {
+		"Content-Type": "application/zip",
+		"Content-Disposition": formatContentDisposition(`${archiveName}.zip`),
+		"Cache-Control": "no-store",
+	});
+}
+
+/**
+ * Check an archive against the file count and total size limits.
+ * Returns an error message when it is too big.
+ */
+export function checkZipLimits(selected: Array<{ size: number }>): string | null {
+	if (selected.length > ZIP_MAX_FILES) {
+		return `Archives are limited to ${ZIP_MAX_FILES} files`;
+	}
+
+	const totalSize = selected.reduce((sum, file) => sum + file.size, 0);
+	if (totalSize > ZIP_MAX_TOTAL_SIZE) {
+		return `Archives are limited to ${formatFileSize(ZIP_MAX_TOTAL_SIZE)}`;
+	}
+
+	return null;
+}
+
+/**
+ * Download several of the user's files, or a whole folder, as one ZIP
+ * GET  /api/downloads/zip?fileIds=a&fileIds=b | ?path=photos/2024
+ * POST /api/downloads/zip (form or JSON body with the same fields)
+ */
+export async function handleZipDownload(c: Context) {
+	const childLogger = apiLogger;
+
+	const input = zipDownloadSchema.safeParse(await readZipRequest(c).catch(() => null));
+	if (!input.success) {
+		return c.json({ error: "Invalid download request" }, 400);
+	}
+	const { fileIds, path, name } = input.data;
+
+	try {
+		const session = await auth.api.getSession({ headers: c.req.raw.headers });
+		if (!session?.user) {
+			return c.json({ error: "Unauthorized" }, 401);
+		}
+
+		const conditions = [eq(files.userId, session.user.id), eq(files.status, "active")];
+		if (fileIds?.length) {
+			conditions.push(inArray(files.id, fileIds));
+		}
+		const prefix = path ? toZipPath(path) : null;
+		if (prefix) {
+			conditions.push(filesUnderPath(prefix));
+		}
+
+		const selected = (
+			await db
+				.select()
+				.from(files)
+				.where(and(...conditions))
+				.orderBy(asc(files.path), asc(files.originalName))
+				.limit(ZIP_MAX_FILES + 1)
+		).filter((file) => !isQuarantined(file));
+
+		if (fileIds?.length && selected.length !== new Set(fileIds).size) {
+			return c.json({ error: "One or more files not found" }, 404);
+		}
+		if (selected.length === 0) {
+			return c.json({ error: "No files to download" }, 404);
+		}
+
+		const limitError = checkZipLimits(selected);
+		if (limitError) {
+			return c.json({ error: limitError }, 413);
+		}
+
+		const entries = selected.map((file) => toZipEntry(file, getZipEntryName(file, prefix)));
+
+		await db.insert(fileAccessLogs).values(
+			selected.map((file) => ({
+				id: nanoid(),
+				fileId: file.id,
+				userId: session.user.id,
+				action: "download" as const,
+				ipAddress: getClientIp(c),
+				userAgent: c.req.header("user-agent") || null,
+			})),
+		);
+
+		childLogger.info({
+			event: "files.zip.download",
+			message: `ZIP download of ${selected.length} files`,
+			userId: session.user.id,
+			fileCount: selected.length,
+			path: prefix,
+		});
+
+		return sendZip(c, name ?? prefix?.split("/").pop() ?? "files", entries);
+	} catch (error) {
+		childLogger.error({
+			event: "files.zip.error",
+			message: `ZIP download failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+
+		return c.json({ error: "Failed to create archive" }, 500);
+	}
+}
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { Hono } from "hono";
+import * as minio from "@/lib/services/storage/minio";
+import type { fileRequests } from "@/db/schema/files";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+import { getRedisCommands, resetFakeRedis, setRedisReply } from "@/test/fake-redis";
+
+const uploadFileWithPath = mock(async (buffer: Buffer, path: string, fileName: string) => ({
+	fileName: `${path}/${fileName}`,
+	url: minio.getObjectUrl(`${path}/${fileName}`),
+	size: buffer.length,
+}));
+
+mock.module("@/lib/services/storage/minio", () => ({ ...minio, uploadFileWithPath }));
+
+const { handleFileRequestUpload } = await import("./file-requests");
+
+const app = new Hono().post("/api/request/:token/upload", handleFileRequestUpload);
+
+function createFileRequest(
+	overrides: Partial<typeof fileRequests.$inferSelect> = {},
+): typeof fileRequests.$inferSelect {
+	return {
+		id: "request-1",
+		userId: "user-1",
+		token: "token-1",
+		title: "Receipts",
+		description: null,
+		targetPath: "receipts",
+		categoryId: null,
+		allowedTypes: null,
+		maxFileSize: null,
+		maxFiles: 2,
+		uploadCount: 1,
+		password: null,
+		expiresAt: null,
+		createdAt: new Date(),
+		lastUploadAt: null,
+		revokedAt: null,
+		...overrides,
+	};
+}
+
+// A PDF signature in front, so the content type check lets the bytes through
+function upload(fields: Record<string, string> = {}) {
+	const body = new FormData();
+	body.set(
+		"file",
+		new File(["%PDF-1.4\nreceipt"], "receipt.pdf", { type: "application/pdf" }),
+	);
+	for (const [name, value] of Object.entries(fields)) {
+		body.set(name, value);
+	}
+	return app.request("/api/request/token-1/upload", {
+		method: "POST",
+		body,
+		headers: { "x-real-ip": "203.0.113.7" },
+	});
+}
+
+function findRequestUpdates() {
+	return getQueries()
+		.filter((query) => query.operation === "update" && query.table === "file_requests")
+		.map((query) => query.values);
+}
+
+describe("handleFileRequestUpload", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		resetFakeRedis();
+		uploadFileWithPath.mockClear();
+		uploadFileWithPath.mockImplementation(async (buffer, path, fileName) => ({
+			fileName: `${path}/${fileName}`,
+			url: minio.getObjectUrl(`${path}/${fileName}`),
+			size: buffer.length,
+		}));
+	});
+
+	test("claims a slot before storing the file", async () => {
+		queueResults(
+			[createFileRequest()],
+			[], // quota: usage of files
+			[], // quota: usage of versions
+			[], // quota: account, default plan
+			[{ affectedRows: 1 }], // claimFileRequestSlot
+		);
+
+		const response = await upload();
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ remainingFiles: 0 });
+		expect(uploadFileWithPath).toHaveBeenCalledTimes(1);
+		expect(findRequestUpdates()).toEqual([
+			{ uploadCount: expect.anything(), lastUploadAt: expect.any(Date) },
+		]);
+	});
+
+	test("refuses the upload when another one took the last slot", async () => {
+		queueResults([createFileRequest()], [], [], [], [{ affectedRows: 0 }]);
+
+		const response = await upload();
+
+		expect(response.status).toBe(403);
+		expect(await response.json()).toEqual({
+			error: "File request has received all the files it accepts",
+		});
+		expect(uploadFileWithPath).not.toHaveBeenCalled();
+	});
+
+	test("gives the slot back when the file cannot be stored", async () => {
+		uploadFileWithPath.mockImplementation(async () => {
+			throw new Error("Storage is down");
+		});
+		queueResults([createFileRequest()], [], [], [], [{ affectedRows: 1 }]);
+
+		const response = await upload();
+
+		expect(response.status).toBe(500);
+		const updates = findRequestUpdates();
+		expect(updates).toHaveLength(2);
+		expect(updates[1]).toEqual({ uploadCount: expect.anything() });
+		expect(getQueries().some((query) => query.operation === "insert")).toBe(false);
+	});
+
+	test("counts wrong passwords per request and client", async () => {
+		const bcrypt = await import("bcryptjs");
+		queueResults([createFileRequest({ password: await bcrypt.hash("open sesame", 4) })]);
+
+		const response = await upload({ password: "guess" });
+
+		expect(response.status).toBe(401);
+		expect(getRedisCommands()).toContainEqual([
+			"incr",
+			"password_attempts:file_request:request-1:203.0.113.7",
+		]);
+	});
+
+	test("locks a client out after too many wrong passwords", async () => {
+		const bcrypt = await import("bcryptjs");
+		setRedisReply("get", "10");
+		queueResults([createFileRequest({ password: await bcrypt.hash("open sesame", 4) })]);
+
+		const response = await upload({ password: "open sesame" });
+
+		expect(response.status).toBe(429);
+		expect(await response.json()).toEqual({
+			error: "Too many password attempts, try again later",
+		});
+		expect(uploadFileWithPath).not.toHaveBeenCalled();
+	});
+});
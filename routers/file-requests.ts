@@ -0,0 +1,522 @@
+import { protectedProcedure, publicProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { db } from "@/db";
+import {
+	files,
+	fileCategories,
+	fileCategoryRelations,
+	fileRequests,
+} from "@/db/schema/files";
+import { eq, and, or, isNull, lt, sql, desc } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { uploadFileWithPath } from "@/lib/services/storage/minio";
+import {
+	isValidFileType,
+	isValidFileSize,
+	formatFileSize,
+} from "@/lib/api/upload";
+import { calculateFileHash } from "@/lib/api/upload/server";
+import { prepareUploadContent } from "@/lib/api/upload/content-type";
+import { enqueueFileProcessing, getProcessingJobs, withMalwareScan } from "@/lib/services/processing";
+import { getInitialScanStatus } from "@/lib/services/scanning";
+import { assertStorageQuota } from "@/lib/services/storage/quota";
+import { retainObject } from "@/lib/services/storage/objects";
+import { invalidateCache, checkPasswordAttempt } from "@/lib/services/redis";
+import { getClientIp } from "@/lib/middleware/rate-limiter";
+import { apiLogger, logger } from "@/lib/logger";
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+
+// Import schemas from global types
+import {
+	createFileRequestSchema,
+	revokeFileRequestSchema,
+	getFileRequestSchema,
+	type FileRequestItem,
+	type FileRequestStatus,
+	type FileRequestUploadResponse,
+	type PublicFileRequestResponse,
+} from "../types/file-requests";
+
+// Export types for use in other files
+export * from "../types/file-requests";
+
+type FileRequest = typeof fileRequests.$inferSelect;
+
+// Objects of requests without a destination folder are stored under this prefix
+const FILE_REQUEST_PREFIX = "requests";
+
+function getFileRequestPageUrl(token: string): string {
+	return `${process.env.NEXT_PUBLIC_SERVER_URL}/request/${token}`;
+}
+
+function getFileRequestUploadUrl(token: string): string {
+	return `${process.env.NEXT_PUBLIC_SERVER_URL}/api/requests/${token}/upload`;
+}
+
+function getFileRequestStatus(request: FileRequest): FileRequestStatus {
+	if (request.revokedAt) return "revoked";
+	if (request.expiresAt && request.expiresAt.getTime() <= Date.now()) return "expired";
+	if (request.maxFiles !== null && request.uploadCount >= request.maxFiles) return "full";
+	return "active";
+}
+
+function toFileRequestItem(request: FileRequest): FileRequestItem {
+	return {
+		id: request.id,
+		token: request.token,
+		url: getFileRequestPageUrl(request.token),
+		title: request.title,
+		description: request.description,
+		targetPath: request.targetPath,
+		categoryId: request.categoryId,
+		allowedTypes: request.allowedTypes,
+		maxFileSize: request.maxFileSize,
+		maxFiles: request.maxFiles,
+		uploadCount: request.uploadCount,
+		status: getFileRequestStatus(request),
+		requiresPassword: !!request.password,
+		expiresAt: request.expiresAt,
+		createdAt: request.createdAt,
+		lastUploadAt: request.lastUploadAt,
+		revokedAt: request.revokedAt,
+	};
+}
+
+/**
+ * Whether a type matches the request's list; "image/*" matches any image type
+ */
+function isAcceptedByRequest(request: FileRequest, mimeType: string): boolean {
+	if (!request.allowedTypes) return true;
+
+	return request.allowedTypes.some((allowed) =>
+		allowed.endsWith("/*")
+			? mimeType.startsWith(allowed.slice(0, -1))
+			: allowed === mimeType,
+	);
+}
+
+/**
+ * Load a request by token and make sure it still accepts files
+ */
+async function findActiveFileRequest(token: string): Promise<FileRequest> {
+	const result = await db
+		.select()
+		.from(fileRequests)
+		.where(eq(fileRequests.token, token))
+		.limit(1);
+
+	const request = result[0];
+	if (!request) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "File request not found",
+		});
+	}
+
+	switch (getFileRequestStatus(request)) {
+		case "revoked":
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "File request has been closed",
+			});
+		case "expired":
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "File request has expired",
+			});
+		case "full":
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "File request has received all the files it accepts",
+			});
+	}
+
+	return request;
+}
+
+/**
+ * Compare a candidate password against the request's bcrypt hash. Wrong
+ * passwords are counted per request and client, like share link passwords.
+ */
+async function checkFileRequestPassword(
+	request: FileRequest,
+	clientIp: string,
+	password?: string,
+): Promise<boolean> {
+	if (!request.password) return true;
+	if (!password) return false;
+
+	return checkPasswordAttempt(
+		`file_request:${request.id}`,
+		clientIp,
+		password,
+		request.password,
+	);
+}
+
+/**
+ * Reserve one upload against maxFiles in a single statement so concurrent
+ * uploads cannot go past the limit
+ */
+async function claimFileRequestSlot(request: FileRequest): Promise<void> {
+	const [claim] = await db
+		.update(fileRequests)
+		.set({
+			uploadCount: sql`${fileRequests.uploadCount} + 1`,
+			lastUploadAt: new Date(),
+		})
+		.where(
+			and(
+				eq(fileRequests.id, request.id),
+				or(
+					isNull(fileRequests.maxFiles),
+					lt(fileRequests.uploadCount, fileRequests.maxFiles),
+				),
+			),
+		);
+
+	if (claim.affectedRows === 0) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "File request has received all the files it accepts",
+		});
+	}
+}
+
+async function releaseFileRequestSlot(request: FileRequest): Promise<void> {
+	await db
+		.update(fileRequests)
+		.set({ uploadCount: sql`greatest(${fileRequests.uploadCount} - 1, 0)` })
+		.where(eq(fileRequests.id, request.id));
+}
+
+export const fileRequestsRouter = router({
+	// Create an upload request link
+	create: protectedProcedure
+		.input(createFileRequestSchema)
+		.mutation(async ({ input, ctx }): Promise<FileRequestItem> => {
+			try {
+				if (input.categoryId) {
+					const category = await db
+						.select({ id: fileCategories.id })
+						.from(fileCategories)
+						.where(
+							and(
+								eq(fileCategories.id, input.categoryId),
+								eq(fileCategories.userId, ctx.session.user.id),
+							),
+						)
+						.limit(1);
+
+					if (!category[0]) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Category not found",
+						});
+					}
+				}
+
+				let hashedPassword: string | null = null;
+				if (input.password) {
+					const bcrypt = await import("bcryptjs");
+					hashedPassword = await bcrypt.hash(input.password, 10);
+				}
+
+				const request: FileRequest = {
+					id: nanoid(),
+					userId: ctx.session.user.id,
+					token: nanoid(32),
+					title: input.title,
+					description: input.description || null,
+					targetPath: input.path ?? null,
+					categoryId: input.categoryId ?? null,
+					allowedTypes: input.allowedTypes ? [...new Set(input.allowedTypes)] : null,
+					maxFileSize: input.maxFileSize ?? null,
+					maxFiles: input.maxFiles ?? null,
+					uploadCount: 0,
+					password: hashedPassword,
+					expiresAt: new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000),
+					createdAt: new Date(),
+					lastUploadAt: null,
+					revokedAt: null,
+				};
+
+				await db.insert(fileRequests).values(request);
+
+				logger.info({
+					event: "file_request.created",
+					message: `File request created: ${request.title}`,
+					requestId: request.id,
+					userId: ctx.session.user.id,
+					targetPath: request.targetPath,
+					categoryId: request.categoryId,
+				});
+
+				return toFileRequestItem(request);
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Create file request error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create file request",
+				});
+			}
+		}),
+
+	// The user's requests, newest first
+	list: protectedProcedure.query(async ({ ctx }): Promise<FileRequestItem[]> => {
+		try {
+			const requests = await db
+				.select()
+				.from(fileRequests)
+				.where(eq(fileRequests.userId, ctx.session.user.id))
+				.orderBy(desc(fileRequests.createdAt));
+
+			return requests.map(toFileRequestItem);
+		} catch (error) {
+			logger.error({ message: "List file requests error", error });
+			throw new TRPCError({
+				code: "INTERNAL_SERVER_ERROR",
+				message: "Failed to list file requests",
+			});
+		}
+	}),
+
+	// Stop accepting files; files already received are kept
+	revoke: protectedProcedure
+		.input(revokeFileRequestSchema)
+		.mutation(async ({ input, ctx }): Promise<FileRequestItem> => {
+			try {
+				const result = await db
+					.select()
+					.from(fileRequests)
+					.where(
+						and(
+							eq(fileRequests.id, input.id),
+							eq(fileRequests.userId, ctx.session.user.id),
+						),
+					)
+					.limit(1);
+
+				const request = result[0];
+				if (!request) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "File request not found",
+					});
+				}
+
+				const revokedAt = request.revokedAt ?? new Date();
+				if (!request.revokedAt) {
+					await db
+						.update(fileRequests)
+						.set({ revokedAt })
+						.where(eq(fileRequests.id, request.id));
+
+					logger.info({
+						event: "file_request.revoked",
+						message: `File request closed: ${request.id}`,
+						requestId: request.id,
+						userId: ctx.session.user.id,
+					});
+				}
+
+				return toFileRequestItem({ ...request, revokedAt });
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Revoke file request error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to close file request",
+				});
+			}
+		}),
+
+	// Public details of a request for the upload page
+	get: publicProcedure
+		.input(getFileRequestSchema)
+		.query(async ({ input }): Promise<PublicFileRequestResponse> => {
+			try {
+				const request = await findActiveFileRequest(input.token);
+
+				return {
+					token: request.token,
+					title: request.title,
+					description: request.description,
+					requiresPassword: !!request.password,
+					allowedTypes: request.allowedTypes,
+					maxFileSize: request.maxFileSize,
+					formattedMaxFileSize:
+						request.maxFileSize !== null ? formatFileSize(request.maxFileSize) : null,
+					remainingFiles:
+						request.maxFiles !== null ? request.maxFiles - request.uploadCount : null,
+					expiresAt: request.expiresAt,
+					uploadUrl: getFileRequestUploadUrl(request.token),
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				apiLogger.error({ message: "Get file request error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to resolve file request",
+				});
+			}
+		}),
+});
+
+/**
+ * Handle an upload through a file request link (Hono handler)
+ * POST multipart form: `file`, plus `password` for protected requests and
+ * an optional `uploaderName`. The file belongs to the request's owner.
+ */
+export async function handleFileRequestUpload(c: Context) {
+	const childLogger = apiLogger;
+	const token = c.req.param("token");
+
+	try {
+		const request = await findActiveFileRequest(token);
+
+		const formData = await c.req.formData();
+		const file = formData.get("file");
+		if (!(file instanceof File)) {
+			return c.json({ error: "No file provided" }, 400);
+		}
+
+		const password = formData.get("password");
+		if (
+			!(await checkFileRequestPassword(
+				request,
+				getClientIp(c),
+				typeof password === "string" ? password : undefined,
+			))
+		) {
+			return c.json({ error: "Invalid password" }, 401);
+		}
+
+		if (request.maxFileSize !== null && file.size > request.maxFileSize) {
+			return c.json(
+				{ error: `Files are limited to ${formatFileSize(request.maxFileSize)}` },
+				400,
+			);
+		}
+
+		// Uploaders are anonymous, so photo metadata is always stripped
+		const content = await prepareUploadContent(Buffer.from(await file.arrayBuffer()), file.type, {
+			stripMetadata: true,
+		});
+		if (!content.valid) {
+			return c.json({ error: content.error }, 400);
+		}
+		const { buffer, mimeType, imageMetadata } = content;
+
+		if (!isValidFileType(mimeType) || !isAcceptedByRequest(request, mimeType)) {
+			return c.json({ error: `File type ${mimeType} is not accepted` }, 400);
+		}
+		if (!isValidFileSize(buffer.length, mimeType)) {
+			return c.json({ error: "File size exceeds the maximum allowed size" }, 400);
+		}
+
+		await assertStorageQuota(request.userId, buffer.length);
+		await claimFileRequestSlot(request);
+
+		let fileId: string;
+		try {
+			// Store the original; resizing and the thumbnail run in the processing worker
+			const uploadResult = await uploadFileWithPath(
+				buffer,
+				request.targetPath ?? `${FILE_REQUEST_PREFIX}/${request.id}`,
+				file.name,
+				mimeType,
+				{
+					userId: request.userId,
+					fileRequestId: request.id,
+				},
+			);
+
+			const uploaderName = formData.get("uploaderName");
+			// Hash the uploaded bytes like the other upload paths so duplicates are found
+			const contentHash = await calculateFileHash(buffer);
+
+			fileId = nanoid();
+			await db.insert(files).values({
+				id: fileId,
+				originalName: file.name,
+				fileName: uploadResult.fileName,
+				mimeType,
+				size: uploadResult.size,
+				url: uploadResult.url,
+				thumbnailUrl: null,
+				path: request.targetPath,
+				userId: request.userId,
+				fileRequestId: request.id,
+				contentHash,
+				metadata: {
+					originalName: file.name,
+					fileName: uploadResult.fileName,
+					mimeType,
+					size: uploadResult.size,
+					...imageMetadata,
+					uploaderName:
+						typeof uploaderName === "string" && uploaderName.trim()
+							? uploaderName.trim().slice(0, 100)
+							: undefined,
+				},
+				isPublic: false,
+				status: "active",
+				processingStatus: "completed",
+				scanStatus: getInitialScanStatus(),
+			});
+			await retainObject(uploadResult.fileName, { contentHash, size: uploadResult.size });
+
+			if (request.categoryId) {
+				await db.insert(fileCategoryRelations).values({
+					id: nanoid(),
+					fileId,
+					categoryId: request.categoryId,
+				});
+			}
+
+			await enqueueFileProcessing(fileId, withMalwareScan(getProcessingJobs(mimeType)));
+		} catch (error) {
+			await releaseFileRequestSlot(request);
+			throw error;
+		}
+
+		await invalidateCache(`files:user:${request.userId}:*`);
+
+		childLogger.info({
+			event: "file_request.upload",
+			message: `File received through request ${request.id}: ${file.name}`,
+			requestId: request.id,
+			fileId,
+			userId: request.userId,
+			size: buffer.length,
+		});
+
+		const response: FileRequestUploadResponse = {
+			fileName: file.name,
+			size: buffer.length,
+			remainingFiles:
+				request.maxFiles !== null ? request.maxFiles - request.uploadCount - 1 : null,
+		};
+
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof TRPCError) {
+			return c.json(
+				{ error: error.message },
+				getHTTPStatusCodeFromError(error) as ContentfulStatusCode,
+			);
+		}
+
+		childLogger.error({
+			event: "file_request.upload.error",
+			message: `File request upload failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+
+		return c.json({ error: "Failed to upload file" }, 500);
+	}
+}
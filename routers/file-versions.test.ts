@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import * as minio from "@/lib/services/storage/minio";
+import type { fileVersions } from "@/db/schema/files";
+import { createEicarScanner, setMalwareScanner } from "@/lib/services/scanning";
+import { createFileRecord } from "@/test/files";
+import { getQueries, queueResults, resetFakeDb, type RecordedQuery } from "@/test/fake-db";
+import { createTestContext } from "@/test/trpc";
+
+mock.module("@/lib/services/storage/minio", () => ({
+	...minio,
+	uploadFileWithPath: mock(async (buffer: Buffer, path: string, fileName: string) => ({
+		fileName: `${path}/${fileName}`,
+		url: minio.getObjectUrl(`${path}/${fileName}`),
+		size: buffer.length,
+	})),
+}));
+
+const { fileVersionsRouter } = await import("./file-versions");
+
+type FileVersion = typeof fileVersions.$inferSelect;
+
+function createVersion(overrides: Partial<FileVersion> = {}): FileVersion {
+	return {
+		id: "version-1",
+		fileId: "file-1",
+		versionNumber: 1,
+		fileName: "uploads/report-0.txt",
+		mimeType: "text/plain",
+		size: 40,
+		url: minio.getObjectUrl("uploads/report-0.txt"),
+		thumbnailUrl: null,
+		metadata: {},
+		changeDescription: null,
+		createdBy: "user-1",
+		createdAt: new Date(),
+		...overrides,
+	};
+}
+
+function findFileUpdate(queries: RecordedQuery[]) {
+	return queries.find(
+		(query) =>
+			query.operation === "update" &&
+			query.table === "files" &&
+			(query.values as { fileName?: string }).fileName !== undefined,
+	)?.values;
+}
+
+function findQueuedJobs(queries: RecordedQuery[]) {
+	return queries
+		.filter((query) => query.operation === "insert" && query.table === "file_processing_queue")
+		.flatMap((query) => query.values as { processingType: string; processingData?: unknown }[]);
+}
+
+describe("fileVersions", () => {
+	const caller = fileVersionsRouter.createCaller(createTestContext());
+
+	beforeAll(() => {
+		setMalwareScanner(createEicarScanner());
+	});
+
+	afterAll(() => {
+		setMalwareScanner(null);
+	});
+
+	beforeEach(() => {
+		resetFakeDb();
+	});
+
+	test("upload holds the new version back and extracts text only after the scan", async () => {
+		const file = createFileRecord({ scanStatus: "clean" });
+		queueResults(
+			[file], // findOwnedFile
+			[], // quota: usage of files
+			[], // quota: usage of versions
+			[], // quota: account, default plan
+			[{ id: "version-1" }], // ensureInitialVersion
+			[{ max: 1 }], // getNextVersionNumber
+		);
+
+		const content = Buffer.from("%PDF-1.4\nsecond edition");
+		await caller.upload({
+			fileId: file.id,
+			fileName: "report.pdf",
+			mimeType: "application/pdf",
+			size: content.length,
+			fileData: content.toString("base64"),
+		});
+
+		const queries = getQueries();
+		expect(findFileUpdate(queries)).toMatchObject({
+			fileName: "uploads/report.pdf",
+			scanStatus: "pending",
+		});
+		const jobs = findQueuedJobs(queries);
+		expect(jobs).toHaveLength(1);
+		expect(jobs[0].processingType).toBe("virus_scan");
+		expect(jobs[0].processingData).toEqual({
+			next: expect.arrayContaining([expect.objectContaining({ type: "text_extraction" })]),
+		});
+	});
+
+	test("restore rescans the restored object", async () => {
+		const file = createFileRecord({ scanStatus: "infected" });
+		queueResults(
+			[file], // findOwnedFile
+			[createVersion()], // findVersion
+			[{ max: 3 }], // getNextVersionNumber
+		);
+
+		await caller.restore({ fileId: file.id, versionNumber: 1 });
+
+		const queries = getQueries();
+		expect(findFileUpdate(queries)).toMatchObject({
+			fileName: "uploads/report-0.txt",
+			scanStatus: "pending",
+		});
+		expect(findQueuedJobs(queries)[0]).toMatchObject({
+			processingType: "virus_scan",
+			processingData: { next: [{ type: "text_extraction" }] },
+		});
+	});
+
+	test("restore refuses a version whose object was quarantined", async () => {
+		const file = createFileRecord({ scanStatus: "clean" });
+		queueResults(
+			[file], // findOwnedFile
+			[createVersion({ fileName: `${minio.QUARANTINE_PREFIX}/uploads/report-0.txt` })],
+		);
+
+		await expect(caller.restore({ fileId: file.id, versionNumber: 1 })).rejects.toThrow(
+			"Version failed the malware scan",
+		);
+
+		expect(findFileUpdate(getQueries())).toBeUndefined();
+		expect(findQueuedJobs(getQueries())).toHaveLength(0);
+	});
+});
@@ -0,0 +1,522 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { files, fileAccessLogs, fileVersions } from "@/db/schema/files";
+import { eq, desc, and, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import {
+	uploadFile,
+	uploadFileWithPath,
+	deleteFile,
+	getObjectNameFromUrl,
+} from "@/lib/services/storage/minio";
+import {
+	isValidFileType,
+	isValidFileSize,
+	formatFileSize,
+} from "@/lib/api/upload";
+import { invalidateCache } from "@/lib/services/redis";
+import {
+	enqueueFileProcessing,
+	getProcessingJobs,
+	withMalwareScan,
+	type ProcessingJobRequest,
+} from "@/lib/services/processing";
+import { getInitialScanStatus, isQuarantinedObject } from "@/lib/services/scanning";
+import { isIndexableMimeType, upsertSearchIndex } from "@/lib/services/search";
+import { assertStorageQuota } from "@/lib/services/storage/quota";
+import { signObjectUrl } from "@/lib/services/storage/signed-urls";
+import { prepareUploadContent } from "@/lib/api/upload/content-type";
+import {
+	retainObject,
+	releaseObjects,
+	isObjectReferenced,
+} from "@/lib/services/storage/objects";
+import { deleteImageVariants } from "@/lib/services/images";
+import { applyWatermarkProfile, getWatermarkProfile } from "@/lib/services/watermarks";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	uploadFileVersionSchema,
+	listFileVersionsSchema,
+	downloadFileVersionSchema,
+	restoreFileVersionSchema,
+	purgeFileVersionSchema,
+	type FileVersionItem,
+} from "../types/file-versions";
+
+// Export types for use in other files
+export * from "../types/file-versions";
+
+type FileRecord = typeof files.$inferSelect;
+type FileVersion = typeof fileVersions.$inferSelect;
+
+/**
+ * Load an active file owned by the user
+ */
+async function findOwnedFile(fileId: string, userId: string): Promise<FileRecord> {
+	const file = await db
+		.select()
+		.from(files)
+		.where(
+			and(
+				eq(files.id, fileId),
+				eq(files.userId, userId),
+				eq(files.status, "active"),
+			),
+		)
+		.limit(1);
+
+	if (!file[0]) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "File not found",
+		});
+	}
+
+	return file[0];
+}
+
+async function findVersion(fileId: string, versionNumber: number): Promise<FileVersion> {
+	const version = await db
+		.select()
+		.from(fileVersions)
+		.where(
+			and(
+				eq(fileVersions.fileId, fileId),
+				eq(fileVersions.versionNumber, versionNumber),
+			),
+		)
+		.limit(1);
+
+	if (!version[0]) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: `Version ${versionNumber} not found`,
+		});
+	}
+
+	return version[0];
+}
+
+/**
+ * Record the file's current object as version 1 the first time it is versioned
+ */
+async function ensureInitialVersion(file: FileRecord, userId: string): Promise<void> {
+	const existing = await db
+		.select({ id: fileVersions.id })
+		.from(fileVersions)
+		.where(eq(fileVersions.fileId, file.id))
+		.limit(1);
+
+	if (existing[0]) return;
+
+	await db.insert(fileVersions).values({
+		id: nanoid(),
+		fileId: file.id,
+		versionNumber: 1,
+		fileName: file.fileName,
+		mimeType: file.mimeType,
+		size: file.size,
+		url: file.url,
+		thumbnailUrl: file.thumbnailUrl,
+		metadata: file.metadata,
+		changeDescription: "Initial version",
+		createdBy: userId,
+		createdAt: file.createdAt,
+	});
+}
+
+async function getNextVersionNumber(fileId: string): Promise<number> {
+	const result = await db
+		.select({ max: sql<number | null>`max(${fileVersions.versionNumber})` })
+		.from(fileVersions)
+		.where(eq(fileVersions.fileId, fileId));
+
+	return (result[0]?.max ?? 0) + 1;
+}
+
+/**
+ * Point the file row at a version's object. The file is held back from shares
+ * until the object passes the malware scan again; `jobs` run after the scan.
+ */
+async function setCurrentVersion(
+	fileId: string,
+	version: FileVersion,
+	jobs: ProcessingJobRequest[],
+): Promise<void> {
+	const current = await db
+		.select({ fileName: files.fileName })
+		.from(files)
+		.where(eq(files.id, fileId))
+		.limit(1);
+
+	await db
+		.update(files)
+		.set({
+			fileName: version.fileName,
+			mimeType: version.mimeType ?? undefined,
+			size: version.size,
+			url: version.url,
+			thumbnailUrl: version.thumbnailUrl,
+			metadata: version.metadata,
+			contentHash: null, // version objects are not hashed, so never deduplicated against
+			scanStatus: getInitialScanStatus(),
+			updatedAt: new Date(),
+		})
+		.where(eq(files.id, fileId));
+
+	// The old object stays referenced by its version row
+	if (current[0] && current[0].fileName !== version.fileName) {
+		await retainObject(version.fileName, { size: version.size });
+		await releaseObjects([current[0].fileName]);
+	}
+
+	// Content the index should not keep is dropped now; new text is extracted after the scan
+	if (!version.mimeType || !isIndexableMimeType(version.mimeType)) {
+		await upsertSearchIndex(fileId, { content: null });
+	}
+
+	await enqueueFileProcessing(fileId, withMalwareScan(jobs));
+}
+
+async function isThumbnailReferenced(thumbnailUrl: string): Promise<boolean> {
+	const [fileRefs, versionRefs] = await Promise.all([
+		db
+			.select({ count: sql<number>`count(*)` })
+			.from(files)
+			.where(eq(files.thumbnailUrl, thumbnailUrl)),
+		db
+			.select({ count: sql<number>`count(*)` })
+			.from(fileVersions)
+			.where(eq(fileVersions.thumbnailUrl, thumbnailUrl)),
+	]);
+
+	return (fileRefs[0]?.count || 0) + (versionRefs[0]?.count || 0) > 0;
+}
+
+export const fileVersionsRouter = router({
+	// Upload a new version of an existing file
+	upload: protectedProcedure
+		.input(uploadFileVersionSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const file = await findOwnedFile(input.fileId, ctx.session.user.id);
+
+				if (!isValidFileType(input.mimeType)) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: `File type ${input.mimeType} is not allowed`,
+					});
+				}
+
+				if (!isValidFileSize(input.size, input.mimeType)) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "File size exceeds the maximum allowed size",
+					});
+				}
+
+				// Store the type detected from the bytes, not the declared one
+				const content = await prepareUploadContent(
+					Buffer.from(input.fileData, "base64"),
+					input.mimeType,
+					{ stripMetadata: input.stripMetadata },
+				);
+				if (!content.valid) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: content.error,
+					});
+				}
+				const { mimeType, imageMetadata } = content;
+				let buffer = content.buffer;
+
+				if (input.watermarkProfileId) {
+					const profile = await getWatermarkProfile(
+						input.watermarkProfileId,
+						ctx.session.user.id,
+					);
+					if (!profile) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Watermark profile not found",
+						});
+					}
+					buffer = await applyWatermarkProfile(buffer, mimeType, profile);
+				}
+
+				await assertStorageQuota(ctx.session.user.id, buffer.length);
+
+				// Store the original; resizing and the thumbnail run in the processing worker
+				const objectMetadata = {
+					userId: ctx.session.user.id,
+					fileId: file.id,
+				};
+				const uploadResult = file.path
+					? await uploadFileWithPath(
+							buffer,
+							file.path,
+							input.fileName,
+							mimeType,
+							objectMetadata,
+						)
+					: await uploadFile(buffer, input.fileName, mimeType, objectMetadata);
+
+				await ensureInitialVersion(file, ctx.session.user.id);
+				const versionNumber = await getNextVersionNumber(file.id);
+
+				const version: FileVersion = {
+					id: nanoid(),
+					fileId: file.id,
+					versionNumber,
+					fileName: uploadResult.fileName,
+					mimeType,
+					size: uploadResult.size,
+					url: uploadResult.url,
+					thumbnailUrl: null,
+					metadata: {
+						originalName: input.fileName,
+						fileName: uploadResult.fileName,
+						mimeType,
+						size: uploadResult.size,
+						...imageMetadata,
+					},
+					changeDescription: input.changeDescription ?? null,
+					createdBy: ctx.session.user.id,
+					createdAt: new Date(),
+				};
+
+				await db.insert(fileVersions).values(version);
+				await setCurrentVersion(file.id, version, getProcessingJobs(mimeType));
+
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+				await invalidateCache("files:public:*");
+
+				logger.info({
+					event: "file.version.uploaded",
+					message: `New version ${versionNumber} uploaded for file: ${file.id}`,
+					fileId: file.id,
+					versionNumber,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					fileId: file.id,
+					versionNumber,
+					url: uploadResult.url,
+					thumbnailUrl: null,
+					size: uploadResult.size,
+					message: "New version uploaded successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Upload file version error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to upload new version",
+				});
+			}
+		}),
+
+	// List versions of a file, newest first
+	list: protectedProcedure
+		.input(listFileVersionsSchema)
+		.query(async ({ input, ctx }): Promise<FileVersionItem[]> => {
+			try {
+				const file = await findOwnedFile(input.fileId, ctx.session.user.id);
+
+				const versions = await db
+					.select()
+					.from(fileVersions)
+					.where(eq(fileVersions.fileId, file.id))
+					.orderBy(desc(fileVersions.versionNumber));
+
+				return versions.map((version) => ({
+					id: version.id,
+					versionNumber: version.versionNumber,
+					fileName: version.fileName,
+					mimeType: version.mimeType,
+					size: version.size,
+					formattedSize: formatFileSize(version.size),
+					url: version.url,
+					thumbnailUrl: version.thumbnailUrl,
+					changeDescription: version.changeDescription,
+					createdBy: version.createdBy,
+					createdAt: version.createdAt,
+					isCurrent: version.fileName === file.fileName,
+				}));
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "List file versions error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to fetch file versions",
+				});
+			}
+		}),
+
+	// Get a temporary download URL for a specific version
+	download: protectedProcedure
+		.input(downloadFileVersionSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const file = await findOwnedFile(input.fileId, ctx.session.user.id);
+				const version = await findVersion(file.id, input.versionNumber);
+
+				const url = signObjectUrl(version.fileName, input.expiresInSeconds);
+
+				await db.insert(fileAccessLogs).values({
+					id: nanoid(),
+					fileId: file.id,
+					userId: ctx.session.user.id,
+					action: "download",
+				});
+
+				return {
+					url,
+					versionNumber: version.versionNumber,
+					expiresInSeconds: input.expiresInSeconds,
+					message: "Presigned URL generated successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Download file version error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to generate download URL",
+				});
+			}
+		}),
+
+	// Make an older version current again (recorded as a new version)
+	restore: protectedProcedure
+		.input(restoreFileVersionSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const file = await findOwnedFile(input.fileId, ctx.session.user.id);
+				const source = await findVersion(file.id, input.versionNumber);
+
+				if (source.fileName === file.fileName) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: `Version ${input.versionNumber} is already current`,
+					});
+				}
+
+				if (isQuarantinedObject(source.fileName)) {
+					throw new TRPCError({
+						code: "FORBIDDEN",
+						message: "Version failed the malware scan",
+					});
+				}
+
+				const versionNumber = await getNextVersionNumber(file.id);
+				const version: FileVersion = {
+					...source,
+					id: nanoid(),
+					versionNumber,
+					changeDescription:
+						input.changeDescription ?? `Restored from version ${source.versionNumber}`,
+					createdBy: ctx.session.user.id,
+					createdAt: new Date(),
+				};
+
+				await db.insert(fileVersions).values(version);
+				// The restored object may never have been scanned; its thumbnail is kept
+				await setCurrentVersion(
+					file.id,
+					version,
+					version.mimeType && isIndexableMimeType(version.mimeType)
+						? [{ type: "text_extraction", priority: 6 }]
+						: [],
+				);
+
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+				await invalidateCache("files:public:*");
+
+				logger.info({
+					event: "file.version.restored",
+					message: `Version ${source.versionNumber} restored for file: ${file.id}`,
+					fileId: file.id,
+					restoredVersion: source.versionNumber,
+					versionNumber,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					fileId: file.id,
+					versionNumber,
+					url: version.url,
+					thumbnailUrl: version.thumbnailUrl,
+					size: version.size,
+					message: `Version ${source.versionNumber} restored successfully`,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Restore file version error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to restore version",
+				});
+			}
+		}),
+
+	// Delete a version row; its object is removed once nothing references it
+	purge: protectedProcedure
+		.input(purgeFileVersionSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const file = await findOwnedFile(input.fileId, ctx.session.user.id);
+				const version = await findVersion(file.id, input.versionNumber);
+
+				if (version.fileName === file.fileName) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "The current version cannot be purged",
+					});
+				}
+
+				await db.delete(fileVersions).where(eq(fileVersions.id, version.id));
+
+				if (!(await isObjectReferenced(version.fileName))) {
+					await deleteFile(version.fileName);
+					await deleteImageVariants([version.fileName]);
+				}
+
+				if (
+					version.thumbnailUrl &&
+					!(await isThumbnailReferenced(version.thumbnailUrl))
+				) {
+					const thumbnailFileName = getObjectNameFromUrl(version.thumbnailUrl);
+					if (thumbnailFileName) {
+						try {
+							await deleteFile(thumbnailFileName);
+						} catch (error) {
+							logger.warn({ message: `Failed to delete thumbnail: ${thumbnailFileName}`, error });
+						}
+					}
+				}
+
+				logger.info({
+					event: "file.version.purged",
+					message: `Version ${version.versionNumber} purged for file: ${file.id}`,
+					fileId: file.id,
+					versionNumber: version.versionNumber,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					message: `Version ${version.versionNumber} purged successfully`,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Purge file version error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to purge version",
+				});
+			}
+		}),
+});
@@ -0,0 +1,98 @@
+import { apiLogger } from "@/lib/logger";
+import { findViewableFile } from "@/lib/services/storage/access";
+import {
+	getImageVariant,
+	normalizeVariantQuality,
+	TRANSFORMABLE_IMAGE_TYPES,
+	type ImageVariantFormat,
+} from "@/lib/services/images/variants";
+import type { Context } from "hono";
+
+// Import schemas from global types
+import {
+	imageTransformParamsSchema,
+	imageTransformQuerySchema,
+} from "../types/images";
+
+// Export types for use in other files
+export * from "../types/images";
+
+// Browsers get URL-keyed variants for this long; they are not immutable
+// because a file can switch versions or visibility under the same URL
+const PUBLIC_MAX_AGE = 24 * 60 * 60;
+const PRIVATE_MAX_AGE = 60 * 60;
+
+/**
+ * Pick an output format the client accepts when none was requested.
+ * AVIF is skipped: it is much slower to encode and only worth it on request.
+ */
+function negotiateFormat(accept: string | undefined, sourceMimeType: string): ImageVariantFormat {
+	if (accept?.includes("image/webp")) {
+		return "webp";
+	}
+	// Keep transparency for sources that may have it
+	return sourceMimeType === "image/jpeg" || sourceMimeType === "image/jpg" ? "jpeg" : "png";
+}
+
+/**
+ * Serve a resized / re-encoded image derived from a stored file
+ * GET /api/images/:fileId?w=&h=&fit=&format=&q=
+ */
+export async function handleImageTransform(c: Context) {
+	const childLogger = apiLogger;
+
+	const params = imageTransformParamsSchema.safeParse({ fileId: c.req.param("fileId") });
+	const query = imageTransformQuerySchema.safeParse(c.req.query());
+	if (!params.success || !query.success) {
+		return c.json({ error: "Invalid image parameters" }, 400);
+	}
+	const { w, h, fit, format, q } = query.data;
+
+	try {
+		const viewable = await findViewableFile(params.data.fileId, c.req.raw.headers);
+		if (!viewable) {
+			return c.json({ error: "Image not found" }, 404);
+		}
+		const { file, isPublic } = viewable;
+
+		// SVGs are sanitized on upload and scale on their own
+		if (file.mimeType === "image/svg+xml") {
+			return c.redirect(file.url, 302);
+		}
+
+		if (!TRANSFORMABLE_IMAGE_TYPES.includes(file.mimeType)) {
+			return c.json({ error: "File is not a transformable image" }, 415);
+		}
+
+		const variant = await getImageVariant(file.fileName, {
+			width: w,
+			height: h,
+			fit,
+			format: format ?? negotiateFormat(c.req.header("accept"), file.mimeType),
+			quality: normalizeVariantQuality(q),
+		});
+
+		const headers: Record<string, string> = {
+			"Content-Type": variant.contentType,
+			"Content-Length": variant.buffer.length.toString(),
+			"Cache-Control": isPublic
+				? `public, max-age=${PUBLIC_MAX_AGE}`
+				: `private, max-age=${PRIVATE_MAX_AGE}`,
+			"X-Variant-Cache": variant.cached ? "HIT" : "MISS",
+		};
+		if (!format) {
+			headers["Vary"] = "Accept";
+		}
+
+		return c.body(new Uint8Array(variant.buffer), 200, headers);
+	} catch (error) {
+		childLogger.error({
+			event: "image.transform.error",
+			message: `Image transform failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			fileId: params.data.fileId,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+
+		return c.json({ error: "Failed to transform image" }, 500);
+	}
+}
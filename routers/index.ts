@@ -2,6 +2,17 @@ import { protectedProcedure, publicProcedure, router } from "@/lib/api/trpc";
 import { testRouter } from "./test";
 import { uploadRouter } from "./upload";
 import { logsRouter } from "./logs";
+import { shareRouter } from "./share";
+import { uploadSessionRouter } from "./upload-session";
+import { fileVersionsRouter } from "./file-versions";
+import { categoriesRouter } from "./categories";
+import { searchRouter } from "./search";
+import { adminRouter } from "./admin";
+import { trashRouter } from "./trash";
+import { archiveRouter } from "./archive";
+import { directUploadRouter } from "./direct-upload";
+import { watermarksRouter } from "./watermarks";
+import { fileRequestsRouter } from "./file-requests";
 import z from "zod";
 
 export const appRouter = router({
@@ -19,6 +30,17 @@ export const appRouter = router({
 	test: testRouter,
 	upload: uploadRouter,
 	logs: logsRouter,
+	share: shareRouter,
+	uploadSession: uploadSessionRouter,
+	versions: fileVersionsRouter,
+	categories: categoriesRouter,
+	search: searchRouter,
+	admin: adminRouter,
+	trash: trashRouter,
+	archive: archiveRouter,
+	directUpload: directUploadRouter,
+	watermarks: watermarksRouter,
+	fileRequests: fileRequestsRouter,
 	hello: publicProcedure
 		.input(
 			z
@@ -1,4 +1,4 @@
-import { protectedProcedure, publicProcedure, router } from "@/lib/api/trpc";
+import { adminProcedure, publicProcedure, router } from "@/lib/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { db } from "@/db";
 import { logs, logStats } from "@/db/schema/logs";
@@ -19,7 +19,7 @@ export * from "../types/logs";
 
 export const logsRouter = router({
 	// Get logs with filtering
-	getLogs: protectedProcedure
+	getLogs: adminProcedure
 		.input(getLogsSchema)
 		.query(async ({ input, ctx }) => {
 			try {
@@ -93,7 +93,7 @@ export const logsRouter = router({
 		}),
 
 	// Get log statistics
-	getStats: protectedProcedure
+	getStats: adminProcedure
 		.input(getLogStatsSchema)
 		.query(async ({ input }) => {
 			try {
@@ -207,7 +207,7 @@ export const logsRouter = router({
 		}),
 
 	// Get specific log by ID
-	getLogById: protectedProcedure
+	getLogById: adminProcedure
 		.input(z.object({ id: z.string() }))
 		.query(async ({ input }) => {
 			try {
@@ -235,18 +235,10 @@ export const logsRouter = router({
 		}),
 
 	// Delete old logs
-	deleteOldLogs: protectedProcedure
+	deleteOldLogs: adminProcedure
 		.input(deleteOldLogsSchema)
 		.mutation(async ({ input, ctx }) => {
 			try {
-				// TODO: Check for admin permissions
-				// if (!ctx.session.user.isAdmin) {
-				//   throw new TRPCError({
-				//     code: "FORBIDDEN",
-				//     message: "Only admins can delete logs",
-				//   });
-				// }
-
 				const cutoffDate = new Date();
 				cutoffDate.setDate(cutoffDate.getDate() - input.olderThanDays);
 
@@ -273,6 +265,13 @@ export const logsRouter = router({
 					await db.delete(logs).where(and(...conditions));
 				}
 
+				apiLogger.info({
+					event: "logs.deleted",
+					message: `Admin deleted ${count} logs older than ${input.olderThanDays} days`,
+					userId: ctx.session.user.id,
+					deletedCount: count,
+				});
+
 				return {
 					deletedCount: count,
 					message: `Deleted ${count} logs older than ${input.olderThanDays} days`,
@@ -287,7 +286,7 @@ export const logsRouter = router({
 		}),
 
 	// Get distinct events
-	getEvents: protectedProcedure.query(async () => {
+	getEvents: adminProcedure.query(async () => {
 		try {
 			const events = await db
 				.selectDistinct({
@@ -308,7 +307,7 @@ export const logsRouter = router({
 	}),
 
 	// Get user sessions
-	getUserSessions: protectedProcedure
+	getUserSessions: adminProcedure
 		.input(getUserSessionsSchema)
 		.query(async ({ input }) => {
 			try {
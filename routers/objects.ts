@@ -0,0 +1,169 @@
+import { apiLogger } from "@/lib/logger";
+import { auth } from "@/lib/auth";
+import {
+	getFile,
+	getFileMetadata,
+	getFileRange,
+	OBJECT_ROUTE,
+} from "@/lib/services/storage/minio";
+import { getObjectAccess } from "@/lib/services/storage/access";
+import { isQuarantinedObject } from "@/lib/services/scanning";
+import { verifyObjectSignature } from "@/lib/services/storage/signed-urls";
+import { formatContentDisposition } from "@/lib/api/upload";
+import type { Context } from "hono";
+import { toResponseStream } from "./downloads";
+
+// Import schemas from global types
+import { objectQuerySchema } from "../types/objects";
+
+// Export types for use in other files
+export * from "../types/objects";
+
+const PUBLIC_MAX_AGE = 60 * 60;
+const PRIVATE_MAX_AGE = 5 * 60;
+
+/**
+ * Object name from the request path (segments are URL-encoded by getObjectUrl)
+ */
+function getRequestedObjectName(c: Context): string | null {
+	const index = c.req.path.indexOf(OBJECT_ROUTE);
+	if (index === -1) return null;
+
+	try {
+		return c.req.path
+			.slice(index + OBJECT_ROUTE.length)
+			.split("/")
+			.map(decodeURIComponent)
+			.join("/");
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Parse a single "bytes=start-end" range. Returns null for no / unsupported
+ * ranges (the whole object is sent) and "invalid" for unsatisfiable ones.
+ */
+function parseRange(
+	header: string | undefined,
+	size: number,
+): { start: number; end: number } | "invalid" | null {
+	const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+	if (!match || (!match[1] && !match[2])) return null;
+
+	const start = match[1] ? parseInt(match[1]) : Math.max(0, size - parseInt(match[2]));
+	const end = match[1] && match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+
+	return start <= end && start < size ? { start, end } : "invalid";
+}
+
+/**
+ * Serve a stored object from the private bucket
+ * GET /api/objects/<object name>[?expires=&signature=]
+ * Signed URLs work without a session; otherwise the object must belong to a
+ * public file or to the signed-in user.
+ */
+export async function handleObjectDownload(c: Context) {
+	const childLogger = apiLogger;
+
+	const objectName = getRequestedObjectName(c);
+	const query = objectQuerySchema.safeParse(c.req.query());
+	if (!objectName || !query.success) {
+		return c.json({ error: "Invalid object request" }, 400);
+	}
+
+	// Infected objects are never served, not even to their owner
+	if (isQuarantinedObject(objectName)) {
+		return c.json({ error: "Not found" }, 404);
+	}
+
+	try {
+		let cacheControl: string;
+		if (query.data.expires || query.data.signature) {
+			const remaining = verifyObjectSignature(
+				objectName,
+				query.data.expires,
+				query.data.signature,
+			);
+			if (remaining === null) {
+				return c.json({ error: "Link is invalid or has expired" }, 403);
+			}
+			cacheControl = `private, max-age=${Math.min(remaining, PRIVATE_MAX_AGE)}`;
+		} else {
+			const access = await getObjectAccess(objectName);
+			if (access.isPublic) {
+				cacheControl = `public, max-age=${PUBLIC_MAX_AGE}`;
+			} else {
+				// 404 rather than 401/403 so private object names are not confirmed
+				const session = await auth.api.getSession({ headers: c.req.raw.headers });
+				if (!session?.user || !access.ownerIds.includes(session.user.id)) {
+					return c.json({ error: "Not found" }, 404);
+				}
+				cacheControl = `private, max-age=${PRIVATE_MAX_AGE}`;
+			}
+		}
+
+		let stat: Awaited<ReturnType<typeof getFileMetadata>>;
+		try {
+			stat = await getFileMetadata(objectName);
+		} catch (error) {
+			if ((error as { code?: string }).code === "NotFound") {
+				return c.json({ error: "Not found" }, 404);
+			}
+			throw error;
+		}
+
+		const contentType = stat.metaData["content-type"] || "application/octet-stream";
+		const originalName = stat.metaData["x-original-name"];
+		const headers: Record<string, string> = {
+			"Content-Type": contentType,
+			"Cache-Control": cacheControl,
+			"Accept-Ranges": "bytes",
+			ETag: `"${stat.etag}"`,
+			"Last-Modified": stat.lastModified.toUTCString(),
+			// Objects are served from the app's origin, so nothing may run as a page
+			"X-Content-Type-Options": "nosniff",
+		};
+		if (contentType === "image/svg+xml") {
+			headers["Content-Security-Policy"] = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+		}
+		if (originalName) {
+			headers["Content-Disposition"] = formatContentDisposition(originalName, "inline");
+		}
+
+		if (c.req.header("if-none-match") === headers.ETag) {
+			return c.body(null, 304, headers);
+		}
+
+		const range = parseRange(c.req.header("range"), stat.size);
+		if (range === "invalid") {
+			return c.body(null, 416, { ...headers, "Content-Range": `bytes */${stat.size}` });
+		}
+		if (range) {
+			const length = range.end - range.start + 1;
+			const objectStream = await getFileRange(objectName, range.start, length);
+
+			return c.body(toResponseStream(objectStream), 206, {
+				...headers,
+				"Content-Length": length.toString(),
+				"Content-Range": `bytes ${range.start}-${range.end}/${stat.size}`,
+			});
+		}
+
+		const objectStream = await getFile(objectName);
+
+		return c.body(toResponseStream(objectStream), 200, {
+			...headers,
+			"Content-Length": stat.size.toString(),
+		});
+	} catch (error) {
+		childLogger.error({
+			event: "object.download.error",
+			message: `Object download failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			objectName,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+
+		return c.json({ error: "Failed to read file" }, 500);
+	}
+}
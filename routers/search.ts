@@ -0,0 +1,288 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { files, fileSearchIndex } from "@/db/schema/files";
+import { eq, desc, and, or, like, sql, type SQL } from "drizzle-orm";
+import { formatFileSize, getFileCategory } from "@/lib/api/upload";
+import { normalizeTags, parseTags, upsertSearchIndex } from "@/lib/services/search";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	searchFilesSchema,
+	updateFileTagsSchema,
+	getFileTagsSchema,
+	type HighlightRange,
+	type SearchFilesResponse,
+	type TagFacet,
+} from "../types/search";
+
+// Export types for use in other files
+export * from "../types/search";
+
+// Relevance weights per matched term
+const NAME_WEIGHT = 10;
+const TAG_WEIGHT = 5;
+const CONTENT_WEIGHT = 1;
+
+const MAX_QUERY_TERMS = 5;
+const SNIPPET_LENGTH = 160;
+const MAX_FACETS = 20;
+const MAX_FACET_ROWS = 1000;
+
+/**
+ * Split a query into lowercase, deduped terms
+ */
+function tokenize(query: string): string[] {
+	const terms = query.toLowerCase().split(/\s+/).filter((term) => term.length > 0);
+	return [...new Set(terms)].slice(0, MAX_QUERY_TERMS);
+}
+
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Find every (non-overlapping) occurrence of the terms in a string
+ */
+function findHighlights(text: string, terms: string[]): HighlightRange[] {
+	const lower = text.toLowerCase();
+	const ranges: HighlightRange[] = [];
+
+	for (const term of terms) {
+		let index = lower.indexOf(term);
+		while (index !== -1) {
+			ranges.push({ start: index, end: index + term.length });
+			index = lower.indexOf(term, index + term.length);
+		}
+	}
+
+	ranges.sort((a, b) => a.start - b.start);
+
+	return ranges.filter(
+		(range, i) => i === 0 || range.start >= ranges[i - 1].end,
+	);
+}
+
+/**
+ * Cut a window of content around the first match
+ */
+function buildSnippet(
+	content: string | null,
+	terms: string[],
+): { snippet: string | null; highlights: HighlightRange[] } {
+	if (!content) return { snippet: null, highlights: [] };
+
+	const first = findHighlights(content, terms)[0];
+	if (!first) return { snippet: null, highlights: [] };
+
+	const start = Math.max(0, first.start - Math.floor(SNIPPET_LENGTH / 3));
+	const end = Math.min(content.length, start + SNIPPET_LENGTH);
+	const prefix = start > 0 ? "…" : "";
+	const snippet = `${prefix}${content.slice(start, end)}${end < content.length ? "…" : ""}`;
+
+	return { snippet, highlights: findHighlights(snippet, terms) };
+}
+
+/**
+ * Make sure the file is active and belongs to the user
+ */
+async function assertOwnedFile(fileId: string, userId: string): Promise<void> {
+	const file = await db
+		.select({ id: files.id })
+		.from(files)
+		.where(
+			and(
+				eq(files.id, fileId),
+				eq(files.userId, userId),
+				eq(files.status, "active"),
+			),
+		)
+		.limit(1);
+
+	if (!file[0]) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "File not found",
+		});
+	}
+}
+
+export const searchRouter = router({
+	// Full-text search over names, tags and extracted content
+	search: protectedProcedure
+		.input(searchFilesSchema)
+		.query(async ({ input, ctx }): Promise<SearchFilesResponse> => {
+			try {
+				const terms = tokenize(input.query);
+
+				const conditions: SQL[] = [
+					eq(files.userId, ctx.session.user.id),
+					eq(files.status, "active"),
+				];
+				const scoreParts: SQL[] = [];
+
+				for (const term of terms) {
+					const pattern = `%${escapeLike(term)}%`;
+
+					// Every term has to match somewhere
+					conditions.push(
+						or(
+							like(files.originalName, pattern),
+							like(fileSearchIndex.tags, pattern),
+							like(fileSearchIndex.content, pattern),
+						)!,
+					);
+
+					scoreParts.push(
+						sql`(case when ${files.originalName} like ${pattern} then ${NAME_WEIGHT} else 0 end)`,
+						sql`(case when ${fileSearchIndex.tags} like ${pattern} then ${TAG_WEIGHT} else 0 end)`,
+						sql`(case when ${fileSearchIndex.content} like ${pattern} then ${CONTENT_WEIGHT} else 0 end)`,
+					);
+				}
+
+				for (const tag of input.tags ?? []) {
+					conditions.push(
+						sql`find_in_set(${tag.trim().toLowerCase()}, ${fileSearchIndex.tags}) > 0`,
+					);
+				}
+
+				const score = sql<number>`${sql.join(scoreParts, sql` + `)}`;
+				const where = and(...conditions);
+
+				const [rows, countResult, tagRows] = await Promise.all([
+					db
+						.select({
+							id: files.id,
+							originalName: files.originalName,
+							mimeType: files.mimeType,
+							size: files.size,
+							url: files.url,
+							thumbnailUrl: files.thumbnailUrl,
+							createdAt: files.createdAt,
+							tags: fileSearchIndex.tags,
+							content: fileSearchIndex.content,
+							score,
+						})
+						.from(files)
+						.leftJoin(fileSearchIndex, eq(fileSearchIndex.fileId, files.id))
+						.where(where)
+						.orderBy(desc(score), desc(files.createdAt))
+						.limit(input.limit)
+						.offset(input.offset),
+					db
+						.select({ count: sql<number>`count(*)` })
+						.from(files)
+						.leftJoin(fileSearchIndex, eq(fileSearchIndex.fileId, files.id))
+						.where(where),
+					db
+						.select({ tags: fileSearchIndex.tags })
+						.from(files)
+						.innerJoin(fileSearchIndex, eq(fileSearchIndex.fileId, files.id))
+						.where(where)
+						.limit(MAX_FACET_ROWS),
+				]);
+
+				// Tag facets across the whole result set, not just this page
+				const tagCounts = new Map<string, number>();
+				for (const row of tagRows) {
+					for (const tag of parseTags(row.tags)) {
+						tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+					}
+				}
+				const facets: TagFacet[] = [...tagCounts.entries()]
+					.map(([tag, count]) => ({ tag, count }))
+					.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+					.slice(0, MAX_FACETS);
+
+				const total = Number(countResult[0]?.count || 0);
+
+				return {
+					results: rows.map(({ content, tags, score, ...file }) => {
+						const { snippet, highlights } = buildSnippet(content, terms);
+						return {
+							...file,
+							formattedSize: formatFileSize(file.size),
+							category: getFileCategory(file.mimeType),
+							tags: parseTags(tags),
+							score: Number(score),
+							nameHighlights: findHighlights(file.originalName, terms),
+							snippet,
+							snippetHighlights: highlights,
+						};
+					}),
+					facets,
+					pagination: {
+						total,
+						limit: input.limit,
+						offset: input.offset,
+						hasMore: input.offset + input.limit < total,
+					},
+				};
+			} catch (error) {
+				logger.error({ message: "Search files error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to search files",
+				});
+			}
+		}),
+
+	// Get the tags of a file
+	getTags: protectedProcedure
+		.input(getFileTagsSchema)
+		.query(async ({ input, ctx }) => {
+			try {
+				await assertOwnedFile(input.fileId, ctx.session.user.id);
+
+				const entry = await db
+					.select({ tags: fileSearchIndex.tags })
+					.from(fileSearchIndex)
+					.where(eq(fileSearchIndex.fileId, input.fileId))
+					.limit(1);
+
+				return {
+					fileId: input.fileId,
+					tags: parseTags(entry[0]?.tags),
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Get file tags error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to fetch tags",
+				});
+			}
+		}),
+
+	// Replace the tags of a file
+	updateTags: protectedProcedure
+		.input(updateFileTagsSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				await assertOwnedFile(input.fileId, ctx.session.user.id);
+
+				const tags = normalizeTags(input.tags);
+				await upsertSearchIndex(input.fileId, { tags });
+
+				logger.info({
+					event: "file.tags.updated",
+					message: `Tags updated for file: ${input.fileId}`,
+					fileId: input.fileId,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					fileId: input.fileId,
+					tags,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Update file tags error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to update tags",
+				});
+			}
+		}),
+});
@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { Hono } from "hono";
+import { Readable } from "stream";
+import * as minio from "@/lib/services/storage/minio";
+import type { fileSharingLinks, files } from "@/db/schema/files";
+import { createFileRecord } from "@/test/files";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+import { createTestContext } from "@/test/trpc";
+
+const getFile = mock(async () => Readable.from([Buffer.from("quarterly numbers")]));
+const getFileBuffer = mock(async () => Buffer.from("quarterly numbers"));
+
+mock.module("@/lib/services/storage/minio", () => ({ ...minio, getFile, getFileBuffer }));
+
+const { handleShareDownload, handleShareZip, shareRouter } = await import("./share");
+
+const app = new Hono()
+	.get("/api/share/:token/download", handleShareDownload)
+	.get("/api/share/:token/zip", handleShareZip);
+
+function createShareLink(
+	overrides: Partial<typeof fileSharingLinks.$inferSelect> = {},
+): typeof fileSharingLinks.$inferSelect {
+	return {
+		id: "link-1",
+		targetType: "file",
+		fileId: "file-1",
+		targetPath: null,
+		categoryId: null,
+		token: "token-1",
+		password: null,
+		maxDownloads: null,
+		downloadCount: 0,
+		expiresAt: null,
+		createdBy: "user-1",
+		watermarkProfileId: null,
+		createdAt: new Date(),
+		lastAccessedAt: null,
+		revokedAt: null,
+		...overrides,
+	};
+}
+
+function download(file: typeof files.$inferSelect) {
+	queueResults([{ link: createShareLink(), file }]);
+	return app.request("/api/share/token-1/download");
+}
+
+describe("handleShareDownload", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		getFile.mockClear();
+		getFileBuffer.mockClear();
+	});
+
+	test("refuses a file that is still being scanned", async () => {
+		const response = await download(createFileRecord({ scanStatus: "pending" }));
+
+		expect(response.status).toBe(403);
+		expect(await response.json()).toEqual({
+			error: "File is still being scanned, try again shortly",
+		});
+		expect(getFile).not.toHaveBeenCalled();
+	});
+
+	test("hides an infected file", async () => {
+		const response = await download(createFileRecord({ scanStatus: "infected" }));
+
+		expect(response.status).toBe(404);
+		expect(getFile).not.toHaveBeenCalled();
+	});
+
+	test("hides a file that points at a quarantined object", async () => {
+		const fileName = `${minio.QUARANTINE_PREFIX}/uploads/report-1.txt`;
+		const response = await download(createFileRecord({ scanStatus: "clean", fileName }));
+
+		expect(response.status).toBe(404);
+		expect(getFile).not.toHaveBeenCalled();
+	});
+
+	test("serves a clean file", async () => {
+		const response = await download(createFileRecord({ scanStatus: "clean" }));
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe("quarterly numbers");
+	});
+
+	test("streams files a watermark does not apply to", async () => {
+		queueResults(
+			[
+				{
+					link: createShareLink({ watermarkProfileId: "profile-1" }),
+					file: createFileRecord({ scanStatus: "clean", mimeType: "application/pdf" }),
+				},
+			],
+			[{ id: "profile-1", userId: "user-1", type: "text", text: "Confidential" }],
+		);
+
+		const response = await app.request("/api/share/token-1/download");
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe("quarterly numbers");
+		expect(getFileBuffer).not.toHaveBeenCalled();
+	});
+});
+
+describe("handleShareZip", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		getFile.mockClear();
+	});
+
+	test("leaves quarantined files out of a folder archive", async () => {
+		queueResults(
+			[
+				{
+					link: createShareLink({ targetType: "path", fileId: null, targetPath: "uploads" }),
+					file: null,
+				},
+			],
+			[
+				createFileRecord({
+					id: "file-2",
+					scanStatus: "clean",
+					fileName: `${minio.QUARANTINE_PREFIX}/uploads/report-2.txt`,
+				}),
+			],
+		);
+
+		const response = await app.request("/api/share/token-1/zip");
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({ error: "Nothing to download" });
+		expect(getFile).not.toHaveBeenCalled();
+	});
+});
+
+describe("share link management", () => {
+	const caller = shareRouter.createCaller(createTestContext());
+
+	beforeEach(() => {
+		resetFakeDb();
+	});
+
+	function findLinkUpdate() {
+		return getQueries().find(
+			(query) => query.operation === "update" && query.table === "file_sharing_links",
+		)?.values;
+	}
+
+	test("getLink shows no thumbnail of a locked file until the password is checked", async () => {
+		const bcrypt = await import("bcryptjs");
+		const link = createShareLink({ password: await bcrypt.hash("open sesame", 4) });
+		const file = createFileRecord({
+			scanStatus: "clean",
+			thumbnailUrl: minio.getObjectUrl("thumbnails/report-1.webp"),
+		});
+
+		queueResults([{ link, file }]);
+		const locked = await caller.getLink({ token: "token-1" });
+
+		expect(locked.locked).toBe(true);
+		expect(locked.files[0].originalName).toBe(file.originalName);
+		expect(locked.files[0].thumbnailUrl).toBeNull();
+
+		resetFakeDb();
+		queueResults([{ link, file }]);
+		const { shared } = await caller.verifyPassword({ token: "token-1", password: "open sesame" });
+
+		expect(shared?.locked).toBe(false);
+		expect(shared?.files[0].thumbnailUrl).toStartWith(file.thumbnailUrl!);
+	});
+
+	test("listLinks reports why a link stopped working", async () => {
+		queueResults([
+			createShareLink({ id: "active" }),
+			createShareLink({ id: "revoked", revokedAt: new Date() }),
+			createShareLink({ id: "expired", expiresAt: new Date(Date.now() - 1000) }),
+			createShareLink({ id: "exhausted", maxDownloads: 3, downloadCount: 3 }),
+		]);
+
+		const links = await caller.listLinks({});
+
+		expect(links.map((link) => [link.id, link.status])).toEqual([
+			["active", "active"],
+			["revoked", "revoked"],
+			["expired", "expired"],
+			["exhausted", "exhausted"],
+		]);
+		expect(links[3].remainingDownloads).toBe(0);
+	});
+
+	test("revokeLink stops the link from downloading", async () => {
+		queueResults([{ link: createShareLink() }]);
+
+		const revoked = await caller.revokeLink({ id: "link-1" });
+
+		expect(revoked.status).toBe("revoked");
+		expect(findLinkUpdate()).toEqual({ revokedAt: revoked.revokedAt });
+
+		resetFakeDb();
+		queueResults([
+			{
+				link: createShareLink({ revokedAt: revoked.revokedAt }),
+				file: createFileRecord({ scanStatus: "clean" }),
+			},
+		]);
+		const response = await app.request("/api/share/token-1/download");
+
+		expect(response.status).toBe(403);
+		expect(await response.json()).toEqual({ error: "Share link has been revoked" });
+	});
+
+	test("updateLink stores a hash of the new password", async () => {
+		queueResults([{ link: createShareLink() }], [{ affectedRows: 1 }]);
+
+		const updated = await caller.updateLink({ id: "link-1", password: "open sesame" });
+
+		expect(updated.requiresPassword).toBe(true);
+		const { password } = findLinkUpdate() as { password: string };
+		expect(password).not.toBe("open sesame");
+		const bcrypt = await import("bcryptjs");
+		expect(await bcrypt.compare("open sesame", password)).toBe(true);
+	});
+
+	test("updateLink refuses a revoked link", async () => {
+		queueResults([{ link: createShareLink({ revokedAt: new Date() }) }]);
+
+		await expect(caller.updateLink({ id: "link-1", maxDownloads: 5 })).rejects.toThrow(
+			"Revoked share links cannot be changed",
+		);
+		expect(findLinkUpdate()).toBeUndefined();
+	});
+
+	test("linkAccessLog pages through the link's downloads", async () => {
+		const log = {
+			id: "log-1",
+			action: "share",
+			ipAddress: "203.0.113.7",
+			userAgent: null,
+			createdAt: new Date(),
+		};
+		queueResults([{ link: createShareLink() }], [log], [{ count: 3 }]);
+
+		const result = await caller.linkAccessLog({ id: "link-1", limit: 1, offset: 0 });
+
+		expect(result.logs).toEqual([log]);
+		expect(result.pagination).toEqual({ total: 3, limit: 1, offset: 0, hasMore: true });
+	});
+});
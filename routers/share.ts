@@ -0,0 +1,790 @@
+import { protectedProcedure, publicProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { db } from "@/db";
+import {
+	files,
+	fileAccessLogs,
+	fileCategories,
+	fileCategoryRelations,
+	fileSharingLinks,
+	fileSharingLinkFiles,
+} from "@/db/schema/files";
+import { eq, and, or, isNull, lt, sql, desc, asc, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getFile, getFileBuffer } from "@/lib/services/storage/minio";
+import {
+	applyWatermarkProfile,
+	getWatermarkProfile,
+	isWatermarkable,
+	type WatermarkProfile,
+} from "@/lib/services/watermarks";
+import { ZIP_MAX_FILES } from "@/lib/services/storage/zip";
+import { checkPasswordAttempt } from "@/lib/services/redis";
+import { isScanCleared, isQuarantined } from "@/lib/services/scanning";
+import { signStoredUrl } from "@/lib/services/storage/signed-urls";
+import {
+	formatFileSize,
+	getFileCategory,
+	formatContentDisposition,
+} from "@/lib/api/upload";
+import { apiLogger, logger } from "@/lib/logger";
+import { getClientIp } from "@/lib/middleware/rate-limiter";
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+	checkZipLimits,
+	filesUnderPath,
+	getZipEntryName,
+	sendZip,
+	toResponseStream,
+	toZipEntry,
+} from "./downloads";
+
+// Import schemas from global types
+import {
+	getShareLinkSchema,
+	verifySharePasswordSchema,
+	listShareLinksSchema,
+	updateShareLinkSchema,
+	revokeShareLinkSchema,
+	shareLinkAccessLogSchema,
+	type SharedFileResponse,
+	type ShareLinkItem,
+	type ShareLinkStatus,
+	type ShareLinkAccessLogResponse,
+	type VerifySharePasswordResponse,
+} from "../types/share";
+
+// Export types for use in other files
+export * from "../types/share";
+
+type ShareLink = typeof fileSharingLinks.$inferSelect;
+type FileRecord = typeof files.$inferSelect;
+
+/**
+ * Load a share link (with its file for single-file links) and make sure
+ * it is still usable
+ */
+async function findActiveShareLink(token: string) {
+	const result = await db
+		.select({ link: fileSharingLinks, file: files })
+		.from(fileSharingLinks)
+		.leftJoin(files, eq(fileSharingLinks.fileId, files.id))
+		.where(eq(fileSharingLinks.token, token))
+		.limit(1);
+
+	if (!result[0]) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Share link not found",
+		});
+	}
+
+	const { link, file } = result[0];
+
+	// Single-file shares only open once the file has passed the malware scan;
+	// multi-file shares just leave out files that have not
+	if (link.targetType === "file") {
+		if (!file || file.status !== "active" || isQuarantined(file)) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "Share link not found",
+			});
+		}
+		if (file.scanStatus === "pending") {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "File is still being scanned, try again shortly",
+			});
+		}
+	}
+
+	if (link.revokedAt) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Share link has been revoked",
+		});
+	}
+
+	if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Share link has expired",
+		});
+	}
+
+	if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Share link download limit reached",
+		});
+	}
+
+	return { link, file };
+}
+
+/**
+ * Files a link shares right now. Folder and category links follow their
+ * target, so files added later are included. Quarantined files are never
+ * part of a share.
+ */
+async function getSharedFiles(link: ShareLink, file: FileRecord | null): Promise<FileRecord[]> {
+	if (link.targetType === "file") {
+		return file && !isQuarantined(file) ? [file] : [];
+	}
+	if (!link.createdBy) {
+		return [];
+	}
+
+	const conditions = [
+		eq(files.userId, link.createdBy),
+		eq(files.status, "active"),
+		isScanCleared(),
+	];
+	if (link.targetType === "path") {
+		conditions.push(filesUnderPath(link.targetPath ?? ""));
+	} else if (link.targetType === "category") {
+		conditions.push(
+			inArray(
+				files.id,
+				db
+					.select({ fileId: fileCategoryRelations.fileId })
+					.from(fileCategoryRelations)
+					.where(eq(fileCategoryRelations.categoryId, link.categoryId ?? "")),
+			),
+		);
+	} else {
+		conditions.push(
+			inArray(
+				files.id,
+				db
+					.select({ fileId: fileSharingLinkFiles.fileId })
+					.from(fileSharingLinkFiles)
+					.where(eq(fileSharingLinkFiles.linkId, link.id)),
+			),
+		);
+	}
+
+	const shared = await db
+		.select()
+		.from(files)
+		.where(and(...conditions))
+		.orderBy(asc(files.path), asc(files.originalName))
+		.limit(ZIP_MAX_FILES);
+
+	return shared.filter((sharedFile) => !isQuarantined(sharedFile));
+}
+
+/**
+ * Display name of a link: the file, folder or category it shares
+ */
+async function getShareName(link: ShareLink, file: FileRecord | null): Promise<string> {
+	switch (link.targetType) {
+		case "file":
+			return file?.originalName ?? "Shared file";
+		case "path":
+			return link.targetPath?.split("/").pop() || "Shared folder";
+		case "category": {
+			const category = await db
+				.select({ name: fileCategories.name })
+				.from(fileCategories)
+				.where(eq(fileCategories.id, link.categoryId ?? ""))
+				.limit(1);
+			return category[0]?.name ?? "Shared folder";
+		}
+		default:
+			return "Shared files";
+	}
+}
+
+/**
+ * Public view of a link. Password-protected contents stay hidden until unlocked.
+ */
+async function toSharedResponse(
+	link: ShareLink,
+	file: FileRecord | null,
+	unlocked: boolean,
+): Promise<SharedFileResponse> {
+	const locked = !!link.password && !unlocked;
+	// Single-file links have always shown the file name up front
+	const sharedFiles = locked && link.targetType !== "file" ? [] : await getSharedFiles(link, file);
+	const totalSize = sharedFiles.reduce((sum, shared) => sum + shared.size, 0);
+
+	return {
+		token: link.token,
+		targetType: link.targetType,
+		name: await getShareName(link, file),
+		requiresPassword: !!link.password,
+		locked,
+		files: sharedFiles.map((shared) => ({
+			id: shared.id,
+			originalName: shared.originalName,
+			mimeType: shared.mimeType,
+			size: shared.size,
+			formattedSize: formatFileSize(shared.size),
+			category: getFileCategory(shared.mimeType),
+			// Stored thumbnails are unwatermarked and show the contents, so locked and
+			// watermarked links get none; visitors have no session, so the URL is signed
+			thumbnailUrl:
+				locked || link.watermarkProfileId || !shared.thumbnailUrl
+					? null
+					: signStoredUrl(shared.thumbnailUrl),
+			path: link.targetType === "file" ? null : shared.path,
+		})),
+		totalSize,
+		formattedSize: formatFileSize(totalSize),
+		expiresAt: link.expiresAt,
+		remainingDownloads:
+			link.maxDownloads !== null ? link.maxDownloads - link.downloadCount : null,
+		downloadUrl: getShareDownloadUrl(link.token),
+		zipUrl: `${process.env.NEXT_PUBLIC_SERVER_URL}/api/share/${link.token}/zip`,
+	};
+}
+
+/**
+ * Compare a candidate password against the link's bcrypt hash. Wrong passwords
+ * are counted per link and client; past the limit every attempt is refused.
+ */
+async function checkSharePassword(
+	link: ShareLink,
+	clientIp: string,
+	password?: string,
+): Promise<boolean> {
+	if (!link.password) return true;
+	if (!password) return false;
+
+	return checkPasswordAttempt(`share:${link.id}`, clientIp, password, link.password);
+}
+
+function getShareDownloadUrl(token: string): string {
+	return `${process.env.NEXT_PUBLIC_SERVER_URL}/api/share/${token}/download`;
+}
+
+export function getSharePageUrl(token: string): string {
+	return `${process.env.NEXT_PUBLIC_SERVER_URL}/share/${token}`;
+}
+
+function getShareLinkStatus(link: ShareLink): ShareLinkStatus {
+	if (link.revokedAt) return "revoked";
+	if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) return "expired";
+	if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) return "exhausted";
+	return "active";
+}
+
+function toShareLinkItem(link: ShareLink): ShareLinkItem {
+	return {
+		id: link.id,
+		token: link.token,
+		url: getSharePageUrl(link.token),
+		targetType: link.targetType,
+		fileId: link.fileId,
+		targetPath: link.targetPath,
+		categoryId: link.categoryId,
+		status: getShareLinkStatus(link),
+		requiresPassword: !!link.password,
+		downloadCount: link.downloadCount,
+		maxDownloads: link.maxDownloads,
+		remainingDownloads:
+			link.maxDownloads !== null
+				? Math.max(0, link.maxDownloads - link.downloadCount)
+				: null,
+		expiresAt: link.expiresAt,
+		lastAccessedAt: link.lastAccessedAt,
+		watermarkProfileId: link.watermarkProfileId,
+		createdAt: link.createdAt,
+		revokedAt: link.revokedAt,
+	};
+}
+
+/**
+ * Load a share link the user created or that is on one of their files
+ */
+async function findOwnedShareLink(id: string, userId: string): Promise<ShareLink> {
+	const result = await db
+		.select({ link: fileSharingLinks })
+		.from(fileSharingLinks)
+		.leftJoin(files, eq(fileSharingLinks.fileId, files.id))
+		.where(
+			and(
+				eq(fileSharingLinks.id, id),
+				or(eq(files.userId, userId), eq(fileSharingLinks.createdBy, userId)),
+			),
+		)
+		.limit(1);
+
+	if (!result[0]) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Share link not found",
+		});
+	}
+
+	return result[0].link;
+}
+
+export const shareRouter = router({
+	// Resolve a share token to public file information
+	getLink: publicProcedure
+		.input(getShareLinkSchema)
+		.query(async ({ input }): Promise<SharedFileResponse> => {
+			try {
+				const { link, file } = await findActiveShareLink(input.token);
+
+				return await toSharedResponse(link, file, false);
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				apiLogger.error({ message: "Get share link error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to resolve share link",
+				});
+			}
+		}),
+
+	// Check a password before downloading; a valid one also unlocks the contents
+	verifyPassword: publicProcedure
+		.input(verifySharePasswordSchema)
+		.mutation(async ({ input, ctx }): Promise<VerifySharePasswordResponse> => {
+			try {
+				const { link, file } = await findActiveShareLink(input.token);
+				const valid = await checkSharePassword(link, ctx.clientIp, input.password);
+
+				return {
+					valid,
+					shared: valid ? await toSharedResponse(link, file, true) : null,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				apiLogger.error({ message: "Verify share password error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to verify password",
+				});
+			}
+		}),
+
+	// List the links on one of the user's files, or all links the user created
+	listLinks: protectedProcedure
+		.input(listShareLinksSchema)
+		.query(async ({ input, ctx }): Promise<ShareLinkItem[]> => {
+			try {
+				if (input.fileId) {
+					const file = await db
+						.select({ id: files.id })
+						.from(files)
+						.where(and(eq(files.id, input.fileId), eq(files.userId, ctx.session.user.id)))
+						.limit(1);
+
+					if (!file[0]) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "File not found",
+						});
+					}
+				}
+
+				const links = await db
+					.select()
+					.from(fileSharingLinks)
+					.where(
+						input.fileId
+							? eq(fileSharingLinks.fileId, input.fileId)
+							: eq(fileSharingLinks.createdBy, ctx.session.user.id),
+					)
+					.orderBy(desc(fileSharingLinks.createdAt));
+
+				return links.map(toShareLinkItem);
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "List share links error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to list share links",
+				});
+			}
+		}),
+
+	// Change a link's password, expiry or download limit
+	updateLink: protectedProcedure
+		.input(updateShareLinkSchema)
+		.mutation(async ({ input, ctx }): Promise<ShareLinkItem> => {
+			try {
+				const link = await findOwnedShareLink(input.id, ctx.session.user.id);
+
+				if (link.revokedAt) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "Revoked share links cannot be changed",
+					});
+				}
+
+				const updates: Partial<ShareLink> = {};
+				if (input.password !== undefined) {
+					const bcrypt = await import("bcryptjs");
+					updates.password = input.password ? await bcrypt.hash(input.password, 10) : null;
+				}
+				if (input.expiresInHours !== undefined) {
+					updates.expiresAt = input.expiresInHours
+						? new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000)
+						: null;
+				}
+				if (input.maxDownloads !== undefined) {
+					updates.maxDownloads = input.maxDownloads;
+				}
+
+				if (Object.keys(updates).length > 0) {
+					await db
+						.update(fileSharingLinks)
+						.set(updates)
+						.where(eq(fileSharingLinks.id, link.id));
+				}
+
+				logger.info({
+					event: "share_link.updated",
+					message: `Share link updated: ${link.id}`,
+					linkId: link.id,
+					fileId: link.fileId,
+					userId: ctx.session.user.id,
+					fields: Object.keys(updates),
+				});
+
+				return toShareLinkItem({ ...link, ...updates });
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Update share link error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to update share link",
+				});
+			}
+		}),
+
+	// Revoke a link; it stops working but keeps its access history
+	revokeLink: protectedProcedure
+		.input(revokeShareLinkSchema)
+		.mutation(async ({ input, ctx }): Promise<ShareLinkItem> => {
+			try {
+				const link = await findOwnedShareLink(input.id, ctx.session.user.id);
+
+				const revokedAt = link.revokedAt ?? new Date();
+				if (!link.revokedAt) {
+					await db
+						.update(fileSharingLinks)
+						.set({ revokedAt })
+						.where(eq(fileSharingLinks.id, link.id));
+
+					logger.info({
+						event: "share_link.revoked",
+						message: `Share link revoked: ${link.id}`,
+						linkId: link.id,
+						fileId: link.fileId,
+						userId: ctx.session.user.id,
+					});
+				}
+
+				return toShareLinkItem({ ...link, revokedAt });
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Revoke share link error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to revoke share link",
+				});
+			}
+		}),
+
+	// Downloads made through a link, newest first
+	linkAccessLog: protectedProcedure
+		.input(shareLinkAccessLogSchema)
+		.query(async ({ input, ctx }): Promise<ShareLinkAccessLogResponse> => {
+			try {
+				const link = await findOwnedShareLink(input.id, ctx.session.user.id);
+				const conditions = eq(fileAccessLogs.linkId, link.id);
+
+				const [logs, countResult] = await Promise.all([
+					db
+						.select({
+							id: fileAccessLogs.id,
+							action: fileAccessLogs.action,
+							ipAddress: fileAccessLogs.ipAddress,
+							userAgent: fileAccessLogs.userAgent,
+							createdAt: fileAccessLogs.createdAt,
+						})
+						.from(fileAccessLogs)
+						.where(conditions)
+						.orderBy(desc(fileAccessLogs.createdAt))
+						.limit(input.limit)
+						.offset(input.offset),
+					db
+						.select({ count: sql<number>`count(*)` })
+						.from(fileAccessLogs)
+						.where(conditions),
+				]);
+
+				const total = countResult[0]?.count || 0;
+
+				return {
+					logs,
+					pagination: {
+						total,
+						limit: input.limit,
+						offset: input.offset,
+						hasMore: input.offset + input.limit < total,
+					},
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Share link access log error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to fetch share link access log",
+				});
+			}
+		}),
+});
+
+/**
+ * Check the link password and load what it shares. POST requests carry the
+ * password (and `fileId` for one file of a multi-file link) as form fields.
+ */
+async function openShareRequest(c: Context, token: string) {
+	const { link, file } = await findActiveShareLink(token);
+
+	const body = c.req.method === "POST" ? await c.req.parseBody() : {};
+	const password = typeof body.password === "string" ? body.password : undefined;
+
+	if (!(await checkSharePassword(link, getClientIp(c), password))) {
+		throw new TRPCError({
+			code: "UNAUTHORIZED",
+			message: "Invalid password",
+		});
+	}
+
+	return {
+		link,
+		sharedFiles: await getSharedFiles(link, file),
+		fileId: typeof body.fileId === "string" ? body.fileId : c.req.query("fileId"),
+	};
+}
+
+/**
+ * Count a download against the link's limit and log the files it covers
+ */
+async function claimShareDownload(
+	c: Context,
+	link: ShareLink,
+	downloaded: FileRecord[],
+): Promise<void> {
+	// Claim the download in a single statement so concurrent requests
+	// cannot push downloadCount past maxDownloads
+	const [claim] = await db
+		.update(fileSharingLinks)
+		.set({
+			downloadCount: sql`${fileSharingLinks.downloadCount} + 1`,
+			lastAccessedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(fileSharingLinks.id, link.id),
+				or(
+					isNull(fileSharingLinks.maxDownloads),
+					lt(fileSharingLinks.downloadCount, fileSharingLinks.maxDownloads),
+				),
+			),
+		);
+
+	if (claim.affectedRows === 0) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Share link download limit reached",
+		});
+	}
+
+	await db.insert(fileAccessLogs).values(
+		downloaded.map((file) => ({
+			id: nanoid(),
+			fileId: file.id,
+			linkId: link.id,
+			action: "share" as const,
+			ipAddress: getClientIp(c),
+			userAgent: c.req.header("user-agent") || null,
+		})),
+	);
+}
+
+/**
+ * The profile downloads through the link are watermarked with, if any
+ */
+async function getShareWatermark(link: ShareLink): Promise<WatermarkProfile | null> {
+	if (!link.watermarkProfileId) {
+		return null;
+	}
+
+	const profile = link.createdBy
+		? await getWatermarkProfile(link.watermarkProfileId, link.createdBy)
+		: null;
+	if (!profile) {
+		throw new Error(`Watermark profile ${link.watermarkProfileId} not found`);
+	}
+
+	return profile;
+}
+
+/**
+ * Handle share link download endpoint (Hono handler)
+ * GET for open links, POST with a `password` form field for protected ones
+ */
+export async function handleShareDownload(c: Context) {
+	const childLogger = apiLogger;
+	const token = c.req.param("token");
+
+	try {
+		const { link, sharedFiles, fileId } = await openShareRequest(c, token);
+		const file =
+			link.targetType === "file"
+				? sharedFiles[0]
+				: sharedFiles.find((shared) => shared.id === fileId);
+		if (!file) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "File not found in this share",
+			});
+		}
+
+		const watermark = await getShareWatermark(link);
+
+		const headers = {
+			"Content-Type": file.mimeType,
+			"Content-Disposition": formatContentDisposition(file.originalName),
+			"Cache-Control": "no-store",
+		};
+
+		// Watermarked links stamp a copy of images per download; the stored file
+		// is untouched and other files are streamed as they are
+		if (watermark && isWatermarkable(file.mimeType)) {
+			const watermarked = await applyWatermarkProfile(
+				await getFileBuffer(file.fileName),
+				file.mimeType,
+				watermark,
+			);
+			await claimShareDownload(c, link, [file]);
+
+			childLogger.info({
+				event: "share_link.download",
+				message: `Shared file downloaded with watermark: ${file.fileName}`,
+				linkId: link.id,
+				fileId: file.id,
+			});
+
+			return c.body(new Uint8Array(watermarked), 200, {
+				...headers,
+				"Content-Length": watermarked.length.toString(),
+			});
+		}
+
+		// Open the object before claiming so a missing object does not use up the link
+		const objectStream = await getFile(file.fileName);
+		try {
+			await claimShareDownload(c, link, [file]);
+		} catch (error) {
+			objectStream.destroy();
+			throw error;
+		}
+
+		childLogger.info({
+			event: "share_link.download",
+			message: `Shared file downloaded: ${file.fileName}`,
+			linkId: link.id,
+			fileId: file.id,
+		});
+
+		return c.body(toResponseStream(objectStream), 200, {
+			...headers,
+			"Content-Length": file.size.toString(),
+		});
+	} catch (error) {
+		if (error instanceof TRPCError) {
+			return c.json(
+				{ error: error.message },
+				getHTTPStatusCodeFromError(error) as ContentfulStatusCode,
+			);
+		}
+
+		childLogger.error({
+			event: "share_link.download.error",
+			message: `Share download failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+
+		return c.json({ error: "Failed to download shared file" }, 500);
+	}
+}
+
+/**
+ * Handle share link ZIP download endpoint (Hono handler)
+ * Same access rules as a single download; the archive counts as one download
+ */
+export async function handleShareZip(c: Context) {
+	const childLogger = apiLogger;
+	const token = c.req.param("token");
+
+	try {
+		const { link, sharedFiles } = await openShareRequest(c, token);
+		if (sharedFiles.length === 0) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "Nothing to download",
+			});
+		}
+
+		const limitError = checkZipLimits(sharedFiles);
+		if (limitError) {
+			throw new TRPCError({
+				code: "PAYLOAD_TOO_LARGE",
+				message: limitError,
+			});
+		}
+
+		const watermark = await getShareWatermark(link);
+		await claimShareDownload(c, link, sharedFiles);
+
+		const prefix = link.targetType === "path" ? link.targetPath : null;
+		const entries = sharedFiles.map((file) => {
+			const entry = toZipEntry(file, getZipEntryName(file, prefix));
+			if (watermark && isWatermarkable(file.mimeType)) {
+				entry.open = async () =>
+					applyWatermarkProfile(await getFileBuffer(file.fileName), file.mimeType, watermark);
+			}
+			return entry;
+		});
+
+		childLogger.info({
+			event: "share_link.zip",
+			message: `Shared files downloaded as ZIP: ${sharedFiles.length} files`,
+			linkId: link.id,
+			fileCount: sharedFiles.length,
+		});
+
+		const name =
+			link.targetType === "file"
+				? sharedFiles[0].originalName.replace(/\.[^.]*$/, "")
+				: await getShareName(link, null);
+		return sendZip(c, name || "shared", entries);
+	} catch (error) {
+		if (error instanceof TRPCError) {
+			return c.json(
+				{ error: error.message },
+				getHTTPStatusCodeFromError(error) as ContentfulStatusCode,
+			);
+		}
+
+		childLogger.error({
+			event: "share_link.zip.error",
+			message: `Share ZIP download failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			error: error instanceof Error ? error.message : "Unknown error",
+		});
+
+		return c.json({ error: "Failed to download shared files" }, 500);
+	}
+}
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as minio from "@/lib/services/storage/minio";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+import { createTestContext } from "@/test/trpc";
+
+let objectExists = true;
+
+mock.module("@/lib/services/storage/minio", () => ({
+	...minio,
+	fileExists: mock(async () => objectExists),
+}));
+
+const { trashRouter } = await import("./trash");
+
+describe("trash.restoreFile", () => {
+	const caller = trashRouter.createCaller(createTestContext());
+
+	beforeEach(() => {
+		resetFakeDb();
+		objectExists = true;
+	});
+
+	test("restores a trashed file whose object is still stored", async () => {
+		queueResults([{ fileName: "uploads/a.txt" }]);
+
+		await caller.restoreFile({ id: "file-1" });
+
+		expect(
+			getQueries().find((query) => query.operation === "update" && query.table === "files")
+				?.values,
+		).toMatchObject({ status: "active", deletedAt: null });
+	});
+
+	test("refuses a file whose object was already deleted", async () => {
+		objectExists = false;
+		queueResults([{ fileName: "uploads/a.txt" }]);
+
+		await expect(caller.restoreFile({ id: "file-1" })).rejects.toThrow(
+			"The file's contents were permanently deleted and cannot be restored",
+		);
+		expect(getQueries().some((query) => query.operation === "update")).toBe(false);
+	});
+});
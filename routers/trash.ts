@@ -0,0 +1,208 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { files, fileAccessLogs } from "@/db/schema/files";
+import { eq, desc, and, inArray, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { formatFileSize, getFileCategory } from "@/lib/api/upload";
+import {
+	purgeFiles,
+	getPurgeDate,
+	getTrashRetentionDays,
+} from "@/lib/services/storage/trash";
+import { fileExists } from "@/lib/services/storage/minio";
+import { invalidateCache } from "@/lib/services/redis";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	listTrashSchema,
+	restoreFileSchema,
+	emptyTrashSchema,
+	type ListTrashResponse,
+} from "../types/trash";
+
+// Export types for use in other files
+export * from "../types/trash";
+
+export const trashRouter = router({
+	// List the user's trashed files
+	listTrash: protectedProcedure
+		.input(listTrashSchema)
+		.query(async ({ input, ctx }): Promise<ListTrashResponse> => {
+			try {
+				const conditions = and(
+					eq(files.userId, ctx.session.user.id),
+					eq(files.status, "deleted"),
+				);
+
+				const [trashed, countResult] = await Promise.all([
+					db
+						.select({
+							id: files.id,
+							originalName: files.originalName,
+							mimeType: files.mimeType,
+							size: files.size,
+							thumbnailUrl: files.thumbnailUrl,
+							deletedAt: files.deletedAt,
+						})
+						.from(files)
+						.where(conditions)
+						.orderBy(desc(files.deletedAt))
+						.limit(input.limit)
+						.offset(input.offset),
+					db
+						.select({ count: sql<number>`count(*)` })
+						.from(files)
+						.where(conditions),
+				]);
+
+				const total = countResult[0]?.count || 0;
+
+				return {
+					files: trashed.map((file) => ({
+						...file,
+						formattedSize: formatFileSize(file.size),
+						category: getFileCategory(file.mimeType),
+						purgeAt: file.deletedAt ? getPurgeDate(file.deletedAt) : null,
+					})),
+					retentionDays: getTrashRetentionDays(),
+					pagination: {
+						total,
+						limit: input.limit,
+						offset: input.offset,
+						hasMore: input.offset + input.limit < total,
+					},
+				};
+			} catch (error) {
+				logger.error({ message: "List trash error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to fetch trash",
+				});
+			}
+		}),
+
+	// Restore a trashed file
+	restoreFile: protectedProcedure
+		.input(restoreFileSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const conditions = and(
+					eq(files.id, input.id),
+					eq(files.userId, ctx.session.user.id),
+					eq(files.status, "deleted"),
+				);
+
+				const trashed = await db
+					.select({ fileName: files.fileName })
+					.from(files)
+					.where(conditions)
+					.limit(1);
+
+				if (!trashed[0]) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "File not found in trash",
+					});
+				}
+
+				// Deletes from before the trash existed removed the object right away
+				if (!(await fileExists(trashed[0].fileName))) {
+					throw new TRPCError({
+						code: "PRECONDITION_FAILED",
+						message: "The file's contents were permanently deleted and cannot be restored",
+					});
+				}
+
+				const [result] = await db
+					.update(files)
+					.set({ status: "active", deletedAt: null, updatedAt: new Date() })
+					.where(conditions);
+
+				if (result.affectedRows === 0) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "File not found in trash",
+					});
+				}
+
+				await db.insert(fileAccessLogs).values({
+					id: nanoid(),
+					fileId: input.id,
+					userId: ctx.session.user.id,
+					action: "restore",
+				});
+
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+				await invalidateCache("files:public:*");
+
+				logger.info({
+					event: "file.restored",
+					message: `File restored from trash: ${input.id}`,
+					fileId: input.id,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					id: input.id,
+					message: "File restored successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Restore file error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to restore file",
+				});
+			}
+		}),
+
+	// Permanently delete trashed files (all of them, or the given ids)
+	emptyTrash: protectedProcedure
+		.input(emptyTrashSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const conditions = [
+					eq(files.userId, ctx.session.user.id),
+					eq(files.status, "deleted"),
+				];
+
+				if (input?.ids) {
+					conditions.push(inArray(files.id, input.ids));
+				}
+
+				const trashed = await db
+					.select({ id: files.id })
+					.from(files)
+					.where(and(...conditions));
+
+				// Purge in chunks so each storage request stays bounded
+				let deletedCount = 0;
+				for (let i = 0; i < trashed.length; i += 100) {
+					deletedCount += await purgeFiles(
+						trashed.slice(i, i + 100).map((file) => file.id),
+					);
+				}
+
+				logger.info({
+					event: "trash.emptied",
+					message: `Trash emptied: ${deletedCount} files`,
+					deletedCount,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					deletedCount,
+					message: `Permanently deleted ${deletedCount} files`,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Empty trash error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to empty trash",
+				});
+			}
+		}),
+});
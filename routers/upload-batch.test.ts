@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createFileRecord } from "@/test/files";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+import { getRedisCommands, resetFakeRedis } from "@/test/fake-redis";
+import { createTestContext } from "@/test/trpc";
+import { uploadBatchRouter } from "./upload-batch";
+
+function invalidatedPatterns(): unknown[] {
+	return getRedisCommands()
+		.filter(([command]) => command === "keys")
+		.map(([, pattern]) => pattern);
+}
+
+describe("uploadBatch", () => {
+	const caller = uploadBatchRouter.createCaller(createTestContext());
+
+	beforeEach(() => {
+		resetFakeDb();
+		resetFakeRedis();
+	});
+
+	test("delete drops trashed files from the public listings", async () => {
+		queueResults([createFileRecord()]);
+
+		const result = await caller.delete({ ids: ["file-1"] });
+
+		expect(result.succeeded).toBe(1);
+		expect(invalidatedPatterns()).toContain("files:public:*");
+	});
+
+	test("archive drops archived files from the public listings", async () => {
+		queueResults([createFileRecord()]);
+
+		const result = await caller.archive({ ids: ["file-1"] });
+
+		expect(result.succeeded).toBe(1);
+		expect(invalidatedPatterns()).toContain("files:public:*");
+	});
+
+	test("move leaves infected files where they are", async () => {
+		queueResults([createFileRecord({ scanStatus: "infected" })]);
+
+		const result = await caller.move({ ids: ["file-1"], path: "reports" });
+
+		expect(result.results).toEqual([
+			{ id: "file-1", success: false, error: "File failed the malware scan" },
+		]);
+		expect(
+			getQueries().some((query) => query.operation === "update" && query.table === "files"),
+		).toBe(false);
+	});
+});
@@ -0,0 +1,352 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import {
+	files,
+	fileAccessLogs,
+	fileVersions,
+	fileCategories,
+	fileCategoryRelations,
+} from "@/db/schema/files";
+import { eq, and, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { deleteFile, copyFile, getObjectUrl } from "@/lib/services/storage/minio";
+import {
+	retainObject,
+	releaseObjects,
+	isObjectReferenced,
+} from "@/lib/services/storage/objects";
+import { invalidateCache } from "@/lib/services/redis";
+import { deleteImageVariants } from "@/lib/services/images";
+import { isQuarantined } from "@/lib/services/scanning";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	batchFileIdsSchema,
+	batchSetVisibilitySchema,
+	batchMoveFilesSchema,
+	type BatchOperationResponse,
+} from "../types/upload-batch";
+
+// Export types for use in other files
+export * from "../types/upload-batch";
+
+type FileRecord = typeof files.$inferSelect;
+type FileStatus = FileRecord["status"];
+
+/**
+ * Load the user's files in the given statuses (active by default), keyed by id
+ */
+async function findOwnedFiles(
+	ids: string[],
+	userId: string,
+	statuses: FileStatus[] = ["active"],
+): Promise<Map<string, FileRecord>> {
+	const owned = await db
+		.select()
+		.from(files)
+		.where(
+			and(
+				inArray(files.id, ids),
+				eq(files.userId, userId),
+				inArray(files.status, statuses),
+			),
+		);
+
+	return new Map(owned.map((file) => [file.id, file]));
+}
+
+/**
+ * Build per-item results in request order
+ */
+function buildBatchResponse(
+	ids: string[],
+	failures: Map<string, string>,
+	action: string,
+): BatchOperationResponse {
+	const results = [...new Set(ids)].map((id) => {
+		const error = failures.get(id);
+		return error ? { id, success: false, error } : { id, success: true };
+	});
+	const succeeded = results.filter((result) => result.success).length;
+	const failed = results.length - succeeded;
+
+	return {
+		results,
+		succeeded,
+		failed,
+		message:
+			failed > 0
+				? `${action} ${succeeded} files, ${failed} failed`
+				: `${action} ${succeeded} files`,
+	};
+}
+
+function missingFailures(ids: string[], owned: Map<string, FileRecord>): Map<string, string> {
+	return new Map(
+		ids.filter((id) => !owned.has(id)).map((id) => [id, "File not found"]),
+	);
+}
+
+export const uploadBatchRouter = router({
+	// Move many files to the trash
+	delete: protectedProcedure
+		.input(batchFileIdsSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const owned = await findOwnedFiles(input.ids, ctx.session.user.id, [
+					"active",
+					"archived",
+				]);
+				const failures = missingFailures(input.ids, owned);
+				const deletedIds = [...owned.keys()];
+
+				if (deletedIds.length > 0) {
+					// Objects are kept until the trash is emptied or purged
+					await db
+						.update(files)
+						.set({
+							status: "deleted",
+							deletedAt: new Date(),
+						})
+						.where(inArray(files.id, deletedIds));
+
+					await db.insert(fileAccessLogs).values(
+						deletedIds.map((fileId) => ({
+							id: nanoid(),
+							fileId,
+							userId: ctx.session.user.id,
+							action: "delete" as const,
+						})),
+					);
+
+					await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+					await invalidateCache("files:public:*");
+				}
+
+				logger.info({
+					event: "file.batch.deleted",
+					message: `Batch moved ${deletedIds.length} files to trash`,
+					fileIds: deletedIds,
+					userId: ctx.session.user.id,
+				});
+
+				return buildBatchResponse(input.ids, failures, "Trashed");
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Batch delete files error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to delete files",
+				});
+			}
+		}),
+
+	// Make many files public or private
+	setVisibility: protectedProcedure
+		.input(batchSetVisibilitySchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const owned = await findOwnedFiles(input.ids, ctx.session.user.id);
+				const failures = missingFailures(input.ids, owned);
+
+				if (owned.size > 0) {
+					await db
+						.update(files)
+						.set({ isPublic: input.isPublic, updatedAt: new Date() })
+						.where(inArray(files.id, [...owned.keys()]));
+
+					await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+					await invalidateCache("files:public:*");
+				}
+
+				logger.info({
+					event: "file.batch.visibility",
+					message: `Batch set ${owned.size} files to ${input.isPublic ? "public" : "private"}`,
+					fileIds: [...owned.keys()],
+					userId: ctx.session.user.id,
+				});
+
+				return buildBatchResponse(input.ids, failures, "Updated");
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Batch set visibility error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to update files",
+				});
+			}
+		}),
+
+	// Move many files to a folder path and/or a category
+	move: protectedProcedure
+		.input(batchMoveFilesSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const owned = await findOwnedFiles(input.ids, ctx.session.user.id);
+				const failures = missingFailures(input.ids, owned);
+
+				// Moving would take a quarantined object out from under the prefix
+				for (const file of owned.values()) {
+					if (isQuarantined(file)) {
+						failures.set(file.id, "File failed the malware scan");
+					}
+				}
+
+				if (input.categoryId) {
+					const category = await db
+						.select({ id: fileCategories.id })
+						.from(fileCategories)
+						.where(
+							and(
+								eq(fileCategories.id, input.categoryId),
+								eq(fileCategories.userId, ctx.session.user.id),
+							),
+						)
+						.limit(1);
+
+					if (!category[0]) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Category not found",
+						});
+					}
+				}
+
+				if (input.path !== undefined) {
+					const path = input.path;
+
+					for (const file of owned.values()) {
+						if (failures.has(file.id)) continue;
+
+						const baseName = file.fileName.split("/").pop() ?? file.fileName;
+						const destination = path ? `${path}/${baseName}` : baseName;
+						if (destination === file.fileName) continue;
+
+						try {
+							await copyFile(file.fileName, destination);
+
+							const url = getObjectUrl(destination);
+							await db
+								.update(files)
+								.set({ fileName: destination, url, path, updatedAt: new Date() })
+								.where(eq(files.id, file.id));
+							// This file's versions that point at the moved object follow it
+							await db
+								.update(fileVersions)
+								.set({ fileName: destination, url })
+								.where(
+									and(
+										eq(fileVersions.fileId, file.id),
+										eq(fileVersions.fileName, file.fileName),
+									),
+								);
+
+							await retainObject(destination, {
+								contentHash: file.contentHash,
+								size: file.size,
+							});
+							const [released] = await releaseObjects([file.fileName]);
+
+							// Deduplicated copies elsewhere may still use the old object
+							if (released && !(await isObjectReferenced(file.fileName))) {
+								try {
+									await deleteFile(file.fileName);
+								} catch (error) {
+									logger.warn({ message: `Failed to remove moved object: ${file.fileName}`, error });
+								}
+								await deleteImageVariants([file.fileName]);
+							}
+						} catch (error) {
+							logger.error({ message: `Failed to move file: ${file.id}`, error });
+							failures.set(file.id, "Failed to move file in storage");
+						}
+					}
+				}
+
+				if (input.categoryId !== undefined) {
+					const movableIds = [...owned.keys()].filter((id) => !failures.has(id));
+
+					if (movableIds.length > 0) {
+						// Moving replaces any existing category assignment
+						await db
+							.delete(fileCategoryRelations)
+							.where(inArray(fileCategoryRelations.fileId, movableIds));
+
+						if (input.categoryId) {
+							const categoryId = input.categoryId;
+							await db.insert(fileCategoryRelations).values(
+								movableIds.map((fileId) => ({
+									id: nanoid(),
+									fileId,
+									categoryId,
+								})),
+							);
+						}
+					}
+				}
+
+				if (owned.size > 0) {
+					await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+					await invalidateCache("files:public:*");
+				}
+
+				const movedIds = [...owned.keys()].filter((id) => !failures.has(id));
+
+				logger.info({
+					event: "file.batch.moved",
+					message: `Batch moved ${movedIds.length} files`,
+					fileIds: movedIds,
+					path: input.path,
+					categoryId: input.categoryId,
+					userId: ctx.session.user.id,
+				});
+
+				return buildBatchResponse(input.ids, failures, "Moved");
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Batch move files error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to move files",
+				});
+			}
+		}),
+
+	// Archive many files (hidden from listings, kept in storage)
+	archive: protectedProcedure
+		.input(batchFileIdsSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const owned = await findOwnedFiles(input.ids, ctx.session.user.id);
+				const failures = missingFailures(input.ids, owned);
+
+				if (owned.size > 0) {
+					await db
+						.update(files)
+						.set({ status: "archived", updatedAt: new Date() })
+						.where(inArray(files.id, [...owned.keys()]));
+
+					await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+					await invalidateCache("files:public:*");
+				}
+
+				logger.info({
+					event: "file.batch.archived",
+					message: `Batch archived ${owned.size} files`,
+					fileIds: [...owned.keys()],
+					userId: ctx.session.user.id,
+				});
+
+				return buildBatchResponse(input.ids, failures, "Archived");
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Batch archive files error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to archive files",
+				});
+			}
+		}),
+});
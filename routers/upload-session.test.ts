@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as minio from "@/lib/services/storage/minio";
+import type { uploadSessions } from "@/db/schema/files";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+import { createTestContext } from "@/test/trpc";
+
+const completeMultipartUpload = mock(async (objectName: string) => ({
+	fileName: objectName,
+	url: minio.getObjectUrl(objectName),
+	size: 900,
+}));
+const deleteFile = mock(async () => {});
+
+mock.module("@/lib/services/storage/minio", () => ({
+	...minio,
+	completeMultipartUpload,
+	deleteFile,
+}));
+
+const { uploadSessionRouter } = await import("./upload-session");
+
+function createSession(): typeof uploadSessions.$inferSelect {
+	const now = new Date();
+
+	return {
+		id: "session-1",
+		userId: "user-1",
+		fileName: "video.mp4",
+		mimeType: "video/mp4",
+		totalSize: 1000,
+		uploadedSize: 1000,
+		chunkSize: 500,
+		totalChunks: 2,
+		uploadedChunks: 2,
+		status: "uploading",
+		metadata: {
+			objectName: "uploads/video-1.mp4",
+			uploadId: "multipart-1",
+			parts: [
+				{ part: 1, etag: "a", size: 500 },
+				{ part: 2, etag: "b", size: 500 },
+			],
+		},
+		expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+		completedAt: null,
+		createdAt: now,
+		updatedAt: now,
+	};
+}
+
+describe("uploadSession.complete", () => {
+	beforeEach(() => {
+		resetFakeDb();
+		deleteFile.mockClear();
+	});
+
+	test("deletes the assembled object when its size differs from the session", async () => {
+		queueResults([createSession()]);
+		const caller = uploadSessionRouter.createCaller(createTestContext());
+
+		await expect(caller.complete({ sessionId: "session-1" })).rejects.toThrow(
+			"Uploaded size does not match the declared size",
+		);
+
+		expect(deleteFile).toHaveBeenCalledWith("uploads/video-1.mp4");
+		const queries = getQueries();
+		expect(
+			queries.find((query) => query.operation === "update" && query.table === "upload_sessions")
+				?.values,
+		).toEqual({ status: "failed" });
+		expect(queries.some((query) => query.operation === "insert")).toBe(false);
+	});
+});
@@ -0,0 +1,483 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { files, uploadSessions } from "@/db/schema/files";
+import { eq, and } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import {
+	createMultipartUpload,
+	uploadPart,
+	completeMultipartUpload,
+	abortMultipartUpload,
+	deleteFile,
+} from "@/lib/services/storage/minio";
+import { verifyStoredObject } from "@/lib/services/storage/content";
+import { getWatermarkProfile, watermarkStoredObject } from "@/lib/services/watermarks";
+import { scheduleUploadSessionSweep } from "@/lib/services/storage/upload-sessions";
+import { assertStorageQuota } from "@/lib/services/storage/quota";
+import {
+	isValidFileType,
+	isValidFileSize,
+	CHUNKED_UPLOAD,
+} from "@/lib/api/upload";
+import { invalidateCache } from "@/lib/services/redis";
+import { enqueueFileProcessing, withMalwareScan } from "@/lib/services/processing";
+import { getInitialScanStatus } from "@/lib/services/scanning";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	initUploadSessionSchema,
+	uploadChunkSchema,
+	uploadSessionIdSchema,
+	type UploadSessionResponse,
+} from "../types/upload-session";
+
+// Export types for use in other files
+export * from "../types/upload-session";
+
+type UploadSession = typeof uploadSessions.$inferSelect;
+
+/**
+ * Load an open session owned by the user
+ */
+async function findOpenSession(sessionId: string, userId: string) {
+	const session = await db
+		.select()
+		.from(uploadSessions)
+		.where(
+			and(eq(uploadSessions.id, sessionId), eq(uploadSessions.userId, userId)),
+		)
+		.limit(1);
+
+	if (!session[0] || !session[0].metadata) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Upload session not found",
+		});
+	}
+
+	if (session[0].status !== "pending" && session[0].status !== "uploading") {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Upload session is ${session[0].status}`,
+		});
+	}
+
+	if (session[0].expiresAt.getTime() <= Date.now()) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "Upload session has expired",
+		});
+	}
+
+	return session[0] as UploadSession & {
+		metadata: NonNullable<UploadSession["metadata"]>;
+	};
+}
+
+function toSessionResponse(session: UploadSession): UploadSessionResponse {
+	return {
+		id: session.id,
+		fileName: session.fileName,
+		mimeType: session.mimeType,
+		totalSize: session.totalSize,
+		uploadedSize: session.uploadedSize,
+		chunkSize: session.chunkSize,
+		totalChunks: session.totalChunks,
+		uploadedChunks: session.uploadedChunks,
+		uploadedChunkIndexes: (session.metadata?.parts ?? []).map((p) => p.part - 1),
+		status: session.status,
+		expiresAt: session.expiresAt,
+	};
+}
+
+export const uploadSessionRouter = router({
+	// Start a chunked upload
+	init: protectedProcedure
+		.input(initUploadSessionSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				if (!isValidFileType(input.mimeType)) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: `File type ${input.mimeType} is not allowed`,
+					});
+				}
+
+				if (!isValidFileSize(input.size, input.mimeType)) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "File size exceeds the maximum allowed size",
+					});
+				}
+
+				await assertStorageQuota(ctx.session.user.id, input.size);
+
+				if (
+					input.watermarkProfileId &&
+					!(await getWatermarkProfile(input.watermarkProfileId, ctx.session.user.id))
+				) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Watermark profile not found",
+					});
+				}
+
+				// Opportunistically clean up abandoned sessions
+				await scheduleUploadSessionSweep();
+
+				const chunkSize = input.chunkSize ?? CHUNKED_UPLOAD.defaultChunkSize;
+				const totalChunks = Math.max(1, Math.ceil(input.size / chunkSize));
+
+				const ext = input.fileName.split(".").pop() || "";
+				const objectName = input.path
+					? `${input.path}/${nanoid()}.${ext}`
+					: `${nanoid()}.${ext}`;
+
+				const uploadId = await createMultipartUpload(objectName, input.mimeType, {
+					"X-Original-Name": input.fileName,
+					userId: ctx.session.user.id,
+					...input.metadata,
+				});
+
+				const sessionId = nanoid();
+				const expiresAt = new Date(
+					Date.now() + CHUNKED_UPLOAD.sessionTtlHours * 60 * 60 * 1000,
+				);
+
+				await db.insert(uploadSessions).values({
+					id: sessionId,
+					userId: ctx.session.user.id,
+					fileName: input.fileName,
+					mimeType: input.mimeType,
+					totalSize: input.size,
+					chunkSize,
+					totalChunks,
+					status: "pending",
+					metadata: {
+						objectName,
+						uploadId,
+						path: input.path,
+						isPublic: input.isPublic,
+						stripMetadata: input.stripMetadata,
+						watermarkProfileId: input.watermarkProfileId,
+						parts: [],
+					},
+					expiresAt,
+				});
+
+				logger.info({
+					event: "upload_session.created",
+					message: `Upload session created: ${input.fileName}`,
+					sessionId,
+					userId: ctx.session.user.id,
+					totalChunks,
+				});
+
+				const session = await db
+					.select()
+					.from(uploadSessions)
+					.where(eq(uploadSessions.id, sessionId))
+					.limit(1);
+
+				return toSessionResponse(session[0]);
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Init upload session error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to start upload",
+				});
+			}
+		}),
+
+	// Get session state (used to resume after a refresh)
+	get: protectedProcedure
+		.input(uploadSessionIdSchema)
+		.query(async ({ input, ctx }) => {
+			const session = await db
+				.select()
+				.from(uploadSessions)
+				.where(
+					and(
+						eq(uploadSessions.id, input.sessionId),
+						eq(uploadSessions.userId, ctx.session.user.id),
+					),
+				)
+				.limit(1);
+
+			if (!session[0]) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Upload session not found",
+				});
+			}
+
+			return toSessionResponse(session[0]);
+		}),
+
+	// Upload a single chunk (re-sending a chunk replaces it)
+	uploadChunk: protectedProcedure
+		.input(uploadChunkSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const session = await findOpenSession(input.sessionId, ctx.session.user.id);
+
+				if (input.chunkIndex >= session.totalChunks) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "Chunk index out of range",
+					});
+				}
+
+				const buffer = Buffer.from(input.chunkData, "base64");
+				const isLastChunk = input.chunkIndex === session.totalChunks - 1;
+				const expectedSize = isLastChunk
+					? session.totalSize - session.chunkSize * (session.totalChunks - 1)
+					: session.chunkSize;
+
+				if (buffer.length !== expectedSize) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: `Chunk ${input.chunkIndex} must be ${expectedSize} bytes`,
+					});
+				}
+
+				const partNumber = input.chunkIndex + 1;
+				const etag = await uploadPart(
+					session.metadata.objectName,
+					session.metadata.uploadId,
+					partNumber,
+					buffer,
+				);
+
+				const parts = [
+					...session.metadata.parts.filter((p) => p.part !== partNumber),
+					{ part: partNumber, etag, size: buffer.length },
+				];
+
+				await db
+					.update(uploadSessions)
+					.set({
+						status: "uploading",
+						uploadedChunks: parts.length,
+						uploadedSize: parts.reduce((sum, p) => sum + p.size, 0),
+						metadata: { ...session.metadata, parts },
+					})
+					.where(eq(uploadSessions.id, session.id));
+
+				return {
+					chunkIndex: input.chunkIndex,
+					uploadedChunks: parts.length,
+					totalChunks: session.totalChunks,
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Upload chunk error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to upload chunk",
+				});
+			}
+		}),
+
+	// Assemble the chunks and register the file
+	complete: protectedProcedure
+		.input(uploadSessionIdSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const session = await findOpenSession(input.sessionId, ctx.session.user.id);
+				const { metadata } = session;
+
+				if (metadata.parts.length !== session.totalChunks) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: `Uploaded ${metadata.parts.length} of ${session.totalChunks} chunks`,
+					});
+				}
+
+				// Usage may have grown since the session was started
+				await assertStorageQuota(ctx.session.user.id, session.totalSize);
+
+				// The profile may have been deleted since the session was started
+				const watermarkProfile = metadata.watermarkProfileId
+					? await getWatermarkProfile(metadata.watermarkProfileId, ctx.session.user.id)
+					: null;
+				if (metadata.watermarkProfileId && !watermarkProfile) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "Watermark profile not found",
+					});
+				}
+
+				const uploadResult = await completeMultipartUpload(
+					metadata.objectName,
+					metadata.uploadId,
+					metadata.parts,
+				);
+
+				if (uploadResult.size !== session.totalSize) {
+					// The assembled object is never registered, so nothing else would remove it
+					try {
+						await deleteFile(uploadResult.fileName);
+					} catch (error) {
+						logger.warn({
+							message: `Failed to delete mismatched upload: ${uploadResult.fileName}`,
+							error,
+						});
+					}
+					await db
+						.update(uploadSessions)
+						.set({ status: "failed" })
+						.where(eq(uploadSessions.id, session.id));
+
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "Uploaded size does not match the declared size",
+					});
+				}
+
+				// The declared type is client-controlled, so check the assembled bytes
+				const content = await verifyStoredObject(
+					uploadResult.fileName,
+					session.mimeType,
+					uploadResult.size,
+					{ "X-Original-Name": session.fileName },
+					{ stripMetadata: metadata.stripMetadata ?? true },
+				);
+				if (!content.valid) {
+					try {
+						await deleteFile(uploadResult.fileName);
+					} catch (error) {
+						logger.warn({
+							message: `Failed to delete rejected upload: ${uploadResult.fileName}`,
+							error,
+						});
+					}
+					await db
+						.update(uploadSessions)
+						.set({ status: "failed" })
+						.where(eq(uploadSessions.id, session.id));
+
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: content.error,
+					});
+				}
+				const { mimeType, imageMetadata } = content;
+				const size = watermarkProfile
+					? ((await watermarkStoredObject(uploadResult.fileName, mimeType, watermarkProfile, {
+							"X-Original-Name": session.fileName,
+						})) ?? content.size)
+					: content.size;
+
+				const fileId = nanoid();
+				await db.insert(files).values({
+					id: fileId,
+					originalName: session.fileName,
+					fileName: uploadResult.fileName,
+					mimeType,
+					size,
+					url: uploadResult.url,
+					thumbnailUrl: null,
+					path: metadata.path,
+					userId: ctx.session.user.id,
+					metadata: {
+						originalName: session.fileName,
+						fileName: uploadResult.fileName,
+						mimeType,
+						size,
+						...imageMetadata,
+					},
+					isPublic: metadata.isPublic ?? true,
+					status: "active",
+					processingStatus: "completed",
+					scanStatus: getInitialScanStatus(),
+				});
+
+				// Hashing runs in the worker (after the malware scan, if enabled) and
+				// queues the regular processing afterwards
+				await enqueueFileProcessing(
+					fileId,
+					withMalwareScan([{ type: "deduplication", priority: 1 }]),
+				);
+
+				await db
+					.update(uploadSessions)
+					.set({
+						status: "completed",
+						completedAt: new Date(),
+						metadata: { ...metadata, fileId },
+					})
+					.where(eq(uploadSessions.id, session.id));
+
+				await invalidateCache(`files:user:${ctx.session.user.id}:*`);
+
+				logger.info({
+					event: "file.uploaded",
+					message: `File uploaded in chunks: ${session.fileName}`,
+					fileId,
+					sessionId: session.id,
+					userId: ctx.session.user.id,
+					size,
+				});
+
+				return {
+					id: fileId,
+					url: uploadResult.url,
+					thumbnailUrl: null,
+					fileName: uploadResult.fileName,
+					originalName: session.fileName,
+					size,
+					mimeType,
+					duplicateOf: null, // known once the deduplication job has run
+					message: "File uploaded successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Complete upload session error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to complete upload",
+				});
+			}
+		}),
+
+	// Cancel a chunked upload and discard uploaded parts
+	abort: protectedProcedure
+		.input(uploadSessionIdSchema)
+		.mutation(async ({ input, ctx }) => {
+			try {
+				const session = await findOpenSession(input.sessionId, ctx.session.user.id);
+
+				await abortMultipartUpload(
+					session.metadata.objectName,
+					session.metadata.uploadId,
+				);
+
+				await db
+					.update(uploadSessions)
+					.set({ status: "cancelled" })
+					.where(eq(uploadSessions.id, session.id));
+
+				logger.info({
+					event: "upload_session.aborted",
+					message: `Upload session aborted: ${session.fileName}`,
+					sessionId: session.id,
+					userId: ctx.session.user.id,
+				});
+
+				return {
+					message: "Upload cancelled",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Abort upload session error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to cancel upload",
+				});
+			}
+		}),
+});
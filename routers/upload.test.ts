@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Hono } from "hono";
+import * as minio from "@/lib/services/storage/minio";
+import { auth } from "@/lib/auth";
+import { createEicarScanner, setMalwareScanner } from "@/lib/services/scanning";
+import { EICAR_TEST_FILE } from "@/test/eicar";
+import { createFileRecord } from "@/test/files";
+import { getQueries, queueResults, resetFakeDb } from "@/test/fake-db";
+
+const uploadFile = mock(async (buffer: Buffer, fileName: string) => ({
+	fileName: `uploads/${fileName}`,
+	url: minio.getObjectUrl(`uploads/${fileName}`),
+	size: buffer.length,
+}));
+const uploadFileWithPath = mock(async () => {
+	throw new Error("Rejected uploads must not be stored");
+});
+
+mock.module("@/lib/services/storage/minio", () => ({ ...minio, uploadFile, uploadFileWithPath }));
+
+const { handleDirectUpload } = await import("./upload");
+
+const app = new Hono().post("/api/upload", handleDirectUpload);
+const getSession = spyOn(auth.api, "getSession");
+const fetchSpy = spyOn(globalThis, "fetch");
+
+afterAll(() => {
+	getSession.mockRestore();
+});
+
+// A PDF signature in front, so the content type check lets the bytes through
+function upload(content: string, fields: Record<string, string> = {}) {
+	const body = new FormData();
+	body.set(
+		"file",
+		new File([`%PDF-1.4\n${content}`], "notes.pdf", { type: "application/pdf" }),
+	);
+	for (const [name, value] of Object.entries(fields)) {
+		body.set(name, value);
+	}
+	return app.request("/api/upload", { method: "POST", body });
+}
+
+describe("handleDirectUpload malware scanning", () => {
+	beforeAll(() => {
+		process.env.DIRECT_UPLOAD_MODE = "anonymous";
+		process.env.CAPTCHA_SECRET_KEY = "captcha-secret";
+		fetchSpy.mockResolvedValue(Response.json({ success: true }));
+		setMalwareScanner(createEicarScanner());
+	});
+
+	afterAll(() => {
+		delete process.env.DIRECT_UPLOAD_MODE;
+		delete process.env.CAPTCHA_SECRET_KEY;
+		fetchSpy.mockRestore();
+		setMalwareScanner(null);
+	});
+
+	beforeEach(() => {
+		resetFakeDb();
+		uploadFile.mockClear();
+		uploadFileWithPath.mockClear();
+	});
+
+	test("rejects an infected anonymous upload before storing it", async () => {
+		getSession.mockResolvedValue(null as never);
+
+		const response = await upload(EICAR_TEST_FILE, { captchaToken: "token" });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ error: "File failed the malware scan" });
+		expect(uploadFileWithPath).not.toHaveBeenCalled();
+		expect(getQueries().some((query) => query.operation === "insert")).toBe(false);
+	});
+
+	test("holds a signed-in upload back until the worker has scanned it", async () => {
+		getSession.mockResolvedValue({ user: { id: "user-1" }, session: {} } as never);
+
+		const response = await upload("quarterly numbers");
+
+		expect(response.status).toBe(200);
+		expect(uploadFile).toHaveBeenCalled();
+		const queries = getQueries();
+		expect(
+			queries.find((query) => query.operation === "insert" && query.table === "files")?.values,
+		).toMatchObject({ scanStatus: "pending" });
+		const jobs = queries.find(
+			(query) => query.operation === "insert" && query.table === "file_processing_queue",
+		)?.values as { processingType: string }[];
+		expect(jobs[0].processingType).toBe("virus_scan");
+	});
+});
+
+describe("handleDirectUpload storage quota", () => {
+	// Usage is read as file objects, version objects, then the account
+	const FULL_ACCOUNT = [[{ total: 1000 }], [{ total: 0 }], [{ plan: "free", storageQuota: 1000 }]];
+
+	beforeAll(() => {
+		getSession.mockResolvedValue({ user: { id: "user-1" }, session: {} } as never);
+	});
+
+	afterAll(() => {
+		delete process.env.DEDUP_SCOPE;
+	});
+
+	beforeEach(() => {
+		resetFakeDb();
+		uploadFile.mockClear();
+	});
+
+	test("rejects a new upload over the quota before storing it", async () => {
+		queueResults([], ...FULL_ACCOUNT);
+
+		const response = await upload("quarterly numbers");
+
+		expect(response.status).toBe(403);
+		expect(((await response.json()) as { error: string }).error).toStartWith(
+			"Storage quota exceeded",
+		);
+		expect(uploadFile).not.toHaveBeenCalled();
+	});
+
+	test("a copy of the user's own file costs no quota", async () => {
+		const duplicate = createFileRecord({ fileName: "uploads/notes-1.pdf" });
+		queueResults([duplicate]);
+
+		const response = await upload("quarterly numbers");
+
+		expect(response.status).toBe(200);
+		expect(uploadFile).not.toHaveBeenCalled();
+		expect(
+			getQueries().find((query) => query.operation === "insert" && query.table === "files")
+				?.values,
+		).toMatchObject({ fileName: duplicate.fileName });
+	});
+
+	test("a copy of someone else's file counts against the quota", async () => {
+		process.env.DEDUP_SCOPE = "global";
+		queueResults([createFileRecord({ userId: "user-2" })], ...FULL_ACCOUNT);
+
+		const response = await upload("quarterly numbers");
+
+		expect(response.status).toBe(403);
+	});
+});
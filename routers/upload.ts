@@ -1,44 +1,260 @@
 import { protectedProcedure, publicProcedure, router } from "@/lib/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { db } from "@/db";
-import { files, fileAccessLogs, fileSharingLinks } from "@/db/schema/files";
-import { eq, desc, and, like, sql } from "drizzle-orm";
+import {
+	files,
+	fileAccessLogs,
+	fileSharingLinks,
+	fileSharingLinkFiles,
+	fileCategories,
+	fileCategoryRelations,
+} from "@/db/schema/files";
+import { eq, desc, and, like, sql, inArray, type SQL } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import {
 	uploadFile,
-	deleteFile,
-	getPresignedUrl,
 	uploadFileWithPath,
-	getFile,
-	listFiles,
 } from "@/lib/services/storage/minio";
 import {
 	processUploadedFile,
 	isValidFileType,
 	isValidFileSize,
-	generateUniqueFilename,
 	formatFileSize,
 	getFileCategory,
 } from "@/lib/api/upload";
+import { calculateFileHash } from "@/lib/api/upload/server";
+import { prepareUploadContent } from "@/lib/api/upload/content-type";
+import {
+	applyWatermarkProfile,
+	getWatermarkProfile,
+	isWatermarkable,
+} from "@/lib/services/watermarks";
 import { cache, invalidateCache } from "@/lib/services/redis";
+import {
+	enqueueFileProcessing,
+	getProcessingJobs,
+	getDuplicateProcessingJobs,
+	withMalwareScan,
+} from "@/lib/services/processing";
+import {
+	getMalwareScanner,
+	getInitialScanStatus,
+	isScanCleared,
+} from "@/lib/services/scanning";
+import { assertStorageQuota, getStorageQuota } from "@/lib/services/storage/quota";
+import {
+	ANONYMOUS_UPLOAD_PREFIX,
+	getAnonymousUploadTtlHours,
+	getDirectUploadMode,
+	verifyCaptcha,
+} from "@/lib/services/storage/anonymous-uploads";
+import { signObjectUrl } from "@/lib/services/storage/signed-urls";
+import { findDuplicateFile, retainObject } from "@/lib/services/storage/objects";
 import { logger, apiLogger } from "@/lib/logger";
+import { getClientIp } from "@/lib/middleware/rate-limiter";
 import type { Context } from "hono";
+import { Readable } from "stream";
 import { auth } from "@/lib/auth";
+import { uploadBatchRouter } from "./upload-batch";
+import { getSharePageUrl } from "./share";
+import { filesUnderPath } from "./downloads";
 
 // Import schemas from global types
 import {
 	uploadFileSchema,
 	getFilesSchema,
+	type GetFilesInput,
 	deleteFileSchema,
 	getFileByIdSchema,
 	createShareLinkSchema,
+	type CreateShareLinkInput,
 	getPresignedUrlSchema,
 	updateFileSchema,
+	type DirectUploadResponse,
+	type DuplicateOf,
+	type UploadFileResponse,
 } from "../types/upload";
 
 // Export types for use in other files
 export * from "../types/upload";
 
+type FileRecord = typeof files.$inferSelect;
+type StoredFileValues = Pick<
+	typeof files.$inferInsert,
+	"fileName" | "url" | "size" | "thumbnailUrl" | "metadata"
+>;
+
+/**
+ * Hash uploaded bytes and look for an existing copy the user may share.
+ * Storing a copy of the user's own object costs no quota.
+ */
+async function findUploadDuplicate(buffer: Buffer, userId: string) {
+	const contentHash = await calculateFileHash(buffer);
+	const duplicate = await findDuplicateFile(contentHash, userId);
+
+	if (!duplicate || duplicate.userId !== userId) {
+		await assertStorageQuota(userId, buffer.length);
+	}
+
+	return { contentHash, duplicate };
+}
+
+/**
+ * The duplicate as reported to the uploader. Other users' files (global
+ * deduplication) are never disclosed.
+ */
+function toDuplicateOf(duplicate: FileRecord | null, userId: string): DuplicateOf | null {
+	if (!duplicate || duplicate.userId !== userId) return null;
+	return { id: duplicate.id, originalName: duplicate.originalName };
+}
+
+/**
+ * Row values that point a new upload at a duplicate's object
+ */
+function duplicateFileValues(
+	duplicate: FileRecord,
+	originalName: string,
+	userId: string,
+): StoredFileValues {
+	return {
+		fileName: duplicate.fileName,
+		url: duplicate.url,
+		size: duplicate.size,
+		thumbnailUrl: duplicate.processingStatus === "completed" ? duplicate.thumbnailUrl : null,
+		metadata: {
+			...duplicate.metadata,
+			originalName,
+			duplicateOf: toDuplicateOf(duplicate, userId)?.id,
+		},
+	};
+}
+
+/**
+ * Listing filters on the photo details captured from EXIF at upload
+ */
+function getPhotoFilterConditions(input: GetFilesInput): SQL[] {
+	const conditions: SQL[] = [];
+	const capturedAt = sql`json_unquote(json_extract(${files.metadata}, '$.capturedAt'))`;
+
+	if (input.camera) {
+		conditions.push(
+			sql`concat_ws(' ', json_unquote(json_extract(${files.metadata}, '$.camera.make')), json_unquote(json_extract(${files.metadata}, '$.camera.model'))) like ${`%${input.camera}%`}`,
+		);
+	}
+
+	// Stored as ISO strings, so they compare in date order
+	if (input.capturedAfter) {
+		conditions.push(sql`${capturedAt} >= ${input.capturedAfter.toISOString()}`);
+	}
+
+	if (input.capturedBefore) {
+		conditions.push(sql`${capturedAt} <= ${input.capturedBefore.toISOString()}`);
+	}
+
+	return conditions;
+}
+
+/**
+ * Check the target of a new share link belongs to the user.
+ * Collections keep their (deduplicated) file ids; other targets are followed live.
+ */
+async function resolveShareTarget(input: CreateShareLinkInput, userId: string) {
+	const activeOwned = and(eq(files.userId, userId), eq(files.status, "active"));
+
+	if (input.fileId) {
+		const file = await db
+			.select()
+			.from(files)
+			.where(and(eq(files.id, input.fileId), activeOwned))
+			.limit(1);
+
+		if (!file[0]) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "File not found",
+			});
+		}
+
+		if (file[0].scanStatus === "infected") {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "File failed the malware scan and cannot be shared",
+			});
+		}
+
+		return {
+			targetType: "file" as const,
+			file: file[0],
+			targetPath: null,
+			categoryId: null,
+			fileIds: [],
+		};
+	}
+
+	if (input.path) {
+		const targetPath = input.path;
+		const inFolder = await db
+			.select({ id: files.id })
+			.from(files)
+			.where(and(activeOwned, filesUnderPath(targetPath)))
+			.limit(1);
+
+		if (!inFolder[0]) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "Folder not found",
+			});
+		}
+
+		return { targetType: "path" as const, file: null, targetPath, categoryId: null, fileIds: [] };
+	}
+
+	if (input.categoryId) {
+		const category = await db
+			.select({ id: fileCategories.id })
+			.from(fileCategories)
+			.where(and(eq(fileCategories.id, input.categoryId), eq(fileCategories.userId, userId)))
+			.limit(1);
+
+		if (!category[0]) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "Category not found",
+			});
+		}
+
+		return {
+			targetType: "category" as const,
+			file: null,
+			targetPath: null,
+			categoryId: input.categoryId,
+			fileIds: [],
+		};
+	}
+
+	const fileIds = [...new Set(input.fileIds ?? [])];
+	const owned = await db
+		.select({ id: files.id, scanStatus: files.scanStatus })
+		.from(files)
+		.where(and(inArray(files.id, fileIds), activeOwned));
+
+	if (owned.length !== fileIds.length) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "One or more files not found",
+		});
+	}
+
+	if (owned.some((file) => file.scanStatus === "infected")) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Files that failed the malware scan cannot be shared",
+		});
+	}
+
+	return { targetType: "collection" as const, file: null, targetPath: null, categoryId: null, fileIds };
+}
+
 export const uploadRouter = router({
 	// Upload file (protected - requires authentication)
 	upload: protectedProcedure
@@ -61,57 +277,82 @@ export const uploadRouter = router({
 					});
 				}
 
-				// Convert base64 to buffer
-				const buffer = Buffer.from(input.fileData, "base64");
+				// Convert base64 to buffer; the declared type is client-controlled,
+				// so the stored type comes from the bytes themselves
+				const content = await prepareUploadContent(
+					Buffer.from(input.fileData, "base64"),
+					input.mimeType,
+					{ stripMetadata: input.stripMetadata },
+				);
+				if (!content.valid) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: content.error,
+					});
+				}
+				const { mimeType, imageMetadata } = content;
+				let buffer = content.buffer;
+
+				// Watermark before hashing so the stamped bytes are what gets deduplicated
+				if (input.watermarkProfileId) {
+					const profile = await getWatermarkProfile(
+						input.watermarkProfileId,
+						ctx.session.user.id,
+					);
+					if (!profile) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Watermark profile not found",
+						});
+					}
+					buffer = await applyWatermarkProfile(buffer, mimeType, profile);
+				}
 
-				// Process the file (generate thumbnail if image, extract metadata, etc.)
-				const processed = await processUploadedFile(
+				const { contentHash, duplicate } = await findUploadDuplicate(
 					buffer,
-					input.fileName,
-					input.mimeType,
-					{
-						generateThumbnail: input.mimeType.startsWith("image/"),
-						maxWidth: 2000,
-						maxHeight: 2000,
-						quality: 85,
-					},
+					ctx.session.user.id,
 				);
 
-				// Upload to MinIO
-				const uploadResult = input.path
-					? await uploadFileWithPath(
-							processed.buffer,
-							input.path,
-							input.fileName,
-							input.mimeType,
-							{
-								userId: ctx.session.user.id,
-								...input.metadata,
-							},
-						)
-					: await uploadFile(
-							processed.buffer,
-							input.fileName,
-							input.mimeType,
-							{
-								userId: ctx.session.user.id,
-								...input.metadata,
-							},
-						);
-
-				// Upload thumbnail if exists
-				let thumbnailUrl: string | null = null;
-				if (processed.thumbnailBuffer) {
-					const thumbnailResult = await uploadFile(
-						processed.thumbnailBuffer,
-						`thumb_${processed.metadata.fileName}`,
-						"image/jpeg",
-						{
-							isThumb: "true",
-							parentFile: uploadResult.fileName,
+				// Identical bytes reuse the stored object instead of uploading again
+				let stored: StoredFileValues;
+				if (duplicate) {
+					stored = duplicateFileValues(duplicate, input.fileName, ctx.session.user.id);
+				} else {
+					// Upload to MinIO (resizing, thumbnails and metadata run in the processing worker)
+					const uploadResult = input.path
+						? await uploadFileWithPath(
+								buffer,
+								input.path,
+								input.fileName,
+								mimeType,
+								{
+									userId: ctx.session.user.id,
+									...input.metadata,
+								},
+							)
+						: await uploadFile(
+								buffer,
+								input.fileName,
+								mimeType,
+								{
+									userId: ctx.session.user.id,
+									...input.metadata,
+								},
+							);
+
+					stored = {
+						fileName: uploadResult.fileName,
+						url: uploadResult.url,
+						size: uploadResult.size,
+						thumbnailUrl: null,
+						metadata: {
+							originalName: input.fileName,
+							fileName: uploadResult.fileName,
+							mimeType,
+							size: uploadResult.size,
+							...imageMetadata,
 						},
-					);
-					thumbnailUrl = thumbnailResult.url;
+					};
 				}
 
 				// Save to database
@@ -119,18 +360,27 @@ export const uploadRouter = router({
 				await db.insert(files).values({
 					id: fileId,
 					originalName: input.fileName,
-					fileName: uploadResult.fileName,
-					mimeType: input.mimeType,
-					size: uploadResult.size,
-					url: uploadResult.url,
-					thumbnailUrl,
+					mimeType,
 					path: input.path,
 					userId: ctx.session.user.id,
-					metadata: processed.metadata,
+					contentHash,
+					...stored,
 					isPublic: input.isPublic,
 					status: "active",
 					processingStatus: "completed",
+					scanStatus: getInitialScanStatus(),
 				});
+				await retainObject(stored.fileName, { contentHash, size: stored.size });
+
+				// Queue background processing
+				await enqueueFileProcessing(
+					fileId,
+					withMalwareScan(
+						duplicate
+							? getDuplicateProcessingJobs(mimeType, duplicate)
+							: getProcessingJobs(mimeType),
+					),
+				);
 
 				// Log access
 				await db.insert(fileAccessLogs).values({
@@ -150,20 +400,28 @@ export const uploadRouter = router({
 					fileId,
 					userId: ctx.session.user.id,
 					fileName: input.fileName,
-					size: uploadResult.size,
+					size: stored.size,
+					duplicateOf: duplicate?.id,
 				});
 
-				return {
+				const duplicateOf = toDuplicateOf(duplicate, ctx.session.user.id);
+				const response: UploadFileResponse = {
 					id: fileId,
-					url: uploadResult.url,
-					thumbnailUrl,
-					fileName: uploadResult.fileName,
+					url: stored.url,
+					thumbnailUrl: stored.thumbnailUrl ?? null,
+					fileName: stored.fileName,
 					originalName: input.fileName,
-					size: uploadResult.size,
-					mimeType: input.mimeType,
-					message: "File uploaded successfully",
+					size: stored.size,
+					mimeType,
+					duplicateOf,
+					message: duplicateOf
+						? `File is identical to ${duplicateOf.originalName}`
+						: "File uploaded successfully",
 				};
+
+				return response;
 			} catch (error) {
+				if (error instanceof TRPCError) throw error;
 				logger.error({ message: "Upload error", error });
 				throw new TRPCError({
 					code: "INTERNAL_SERVER_ERROR",
@@ -196,6 +454,24 @@ export const uploadRouter = router({
 							conditions.push(like(files.mimeType, `${input.category}/%`));
 						}
 
+						conditions.push(...getPhotoFilterConditions(input));
+
+						if (input.fileRequestId) {
+							conditions.push(eq(files.fileRequestId, input.fileRequestId));
+						}
+
+						if (input.categoryId) {
+							conditions.push(
+								inArray(
+									files.id,
+									db
+										.select({ id: fileCategoryRelations.fileId })
+										.from(fileCategoryRelations)
+										.where(eq(fileCategoryRelations.categoryId, input.categoryId)),
+								),
+							);
+						}
+
 						const sortColumn =
 							input.sortBy === "size"
 								? files.size
@@ -256,6 +532,7 @@ export const uploadRouter = router({
 					const conditions = [
 						eq(files.isPublic, true),
 						eq(files.status, "active"),
+						isScanCleared(),
 					];
 
 					if (input.search) {
@@ -266,6 +543,8 @@ export const uploadRouter = router({
 						conditions.push(like(files.mimeType, `${input.category}/%`));
 					}
 
+					conditions.push(...getPhotoFilterConditions(input));
+
 					const sortColumn =
 						input.sortBy === "size"
 							? files.size
@@ -383,7 +662,7 @@ export const uploadRouter = router({
 						and(
 							eq(files.id, input.id),
 							eq(files.userId, ctx.session.user.id),
-							eq(files.status, "active"),
+							inArray(files.status, ["active", "archived"]),
 						),
 					)
 					.limit(1);
@@ -395,20 +674,7 @@ export const uploadRouter = router({
 					});
 				}
 
-				// Delete from MinIO
-				await deleteFile(file[0].fileName);
-
-				// Delete thumbnail if exists
-				if (file[0].thumbnailUrl) {
-					const thumbnailFileName = `thumb_${file[0].fileName}`;
-					try {
-						await deleteFile(thumbnailFileName);
-					} catch (error) {
-						logger.warn(`Failed to delete thumbnail: ${thumbnailFileName}`);
-					}
-				}
-
-				// Soft delete in database
+				// Move to trash; objects are kept until the file is purged
 				await db
 					.update(files)
 					.set({
@@ -430,14 +696,14 @@ export const uploadRouter = router({
 
 				logger.info({
 					event: "file.deleted",
-					message: `File deleted: ${file[0].fileName}`,
+					message: `File moved to trash: ${file[0].fileName}`,
 					fileId: input.id,
 					userId: ctx.session.user.id,
 					fileName: file[0].fileName,
 				});
 
 				return {
-					message: "File deleted successfully",
+					message: "File moved to trash",
 				};
 			} catch (error) {
 				if (error instanceof TRPCError) throw error;
@@ -454,24 +720,22 @@ export const uploadRouter = router({
 		.input(createShareLinkSchema)
 		.mutation(async ({ input, ctx }) => {
 			try {
-				// Check if file exists and belongs to user
-				const file = await db
-					.select()
-					.from(files)
-					.where(
-						and(
-							eq(files.id, input.fileId),
-							eq(files.userId, ctx.session.user.id),
-							eq(files.status, "active"),
-						),
-					)
-					.limit(1);
-
-				if (!file[0]) {
-					throw new TRPCError({
-						code: "NOT_FOUND",
-						message: "File not found",
-					});
+				const target = await resolveShareTarget(input, ctx.session.user.id);
+
+				if (input.watermarkProfileId) {
+					// Multi-file links watermark the images among their files
+					if (target.file && !isWatermarkable(target.file.mimeType)) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "Only images can be watermarked",
+						});
+					}
+					if (!(await getWatermarkProfile(input.watermarkProfileId, ctx.session.user.id))) {
+						throw new TRPCError({
+							code: "NOT_FOUND",
+							message: "Watermark profile not found",
+						});
+					}
 				}
 
 				// Create share link
@@ -491,20 +755,30 @@ export const uploadRouter = router({
 
 				await db.insert(fileSharingLinks).values({
 					id: linkId,
-					fileId: input.fileId,
+					targetType: target.targetType,
+					fileId: target.file?.id ?? null,
+					targetPath: target.targetPath,
+					categoryId: target.categoryId,
 					token,
 					password: hashedPassword,
 					maxDownloads: input.maxDownloads,
 					expiresAt,
 					createdBy: ctx.session.user.id,
+					watermarkProfileId: input.watermarkProfileId ?? null,
 				});
+				if (target.fileIds.length > 0) {
+					await db.insert(fileSharingLinkFiles).values(
+						target.fileIds.map((fileId) => ({ id: nanoid(), linkId, fileId })),
+					);
+				}
 
-				const shareUrl = `${process.env.NEXT_PUBLIC_SERVER_URL}/share/${token}`;
+				const shareUrl = getSharePageUrl(token);
 
 				logger.info({
 					event: "share_link.created",
-					message: `Share link created for file: ${input.fileId}`,
+					message: `Share link created for ${target.targetType}: ${input.fileId ?? input.path ?? input.categoryId ?? `${target.fileIds.length} files`}`,
 					linkId,
+					targetType: target.targetType,
 					fileId: input.fileId,
 					userId: ctx.session.user.id,
 					expiresAt,
@@ -519,6 +793,7 @@ export const uploadRouter = router({
 					message: "Share link created successfully",
 				};
 			} catch (error) {
+				if (error instanceof TRPCError) throw error;
 				logger.error({ message: "Create share link error", error });
 				throw new TRPCError({
 					code: "INTERNAL_SERVER_ERROR",
@@ -552,11 +827,15 @@ export const uploadRouter = router({
 					});
 				}
 
-				// Generate presigned URL
-				const url = await getPresignedUrl(
-					file[0].fileName,
-					input.expiresInSeconds,
-				);
+				if (file[0].scanStatus === "infected") {
+					throw new TRPCError({
+						code: "FORBIDDEN",
+						message: "File failed the malware scan",
+					});
+				}
+
+				// Signed proxy URL; the bucket itself is not reachable without credentials
+				const url = signObjectUrl(file[0].fileName, input.expiresInSeconds);
 
 				// Log access
 				await db.insert(fileAccessLogs).values({
@@ -572,6 +851,7 @@ export const uploadRouter = router({
 					message: "Presigned URL generated successfully",
 				};
 			} catch (error) {
+				if (error instanceof TRPCError) throw error;
 				logger.error({ message: "Get presigned URL error", error });
 				throw new TRPCError({
 					code: "INTERNAL_SERVER_ERROR",
@@ -647,52 +927,65 @@ export const uploadRouter = router({
 		try {
 			const cacheKey = `stats:user:${ctx.session.user.id}`;
 
-			return await cache(
-				cacheKey,
-				async () => {
-					const stats = await db
-						.select({
-							totalFiles: sql<number>`count(*)`,
-							totalSize: sql<number>`sum(${files.size})`,
-						})
-						.from(files)
-						.where(
-							and(
-								eq(files.userId, ctx.session.user.id),
-								eq(files.status, "active"),
-							),
-						);
-
-					const categoryStats = await db
-						.select({
-							category: sql<string>`
-								CASE
-									WHEN ${files.mimeType} LIKE 'image/%' THEN 'image'
-									WHEN ${files.mimeType} LIKE 'video/%' THEN 'video'
-									WHEN ${files.mimeType} LIKE 'application/pdf' THEN 'pdf'
-									ELSE 'other'
-								END
-							`,
-							count: sql<number>`count(*)`,
-						})
-						.from(files)
-						.where(
-							and(
-								eq(files.userId, ctx.session.user.id),
-								eq(files.status, "active"),
-							),
-						)
-						.groupBy(sql`category`);
+			const [stats, quota] = await Promise.all([
+				cache(
+					cacheKey,
+					async () => {
+						const stats = await db
+							.select({
+								totalFiles: sql<number>`count(*)`,
+								totalSize: sql<number>`sum(${files.size})`,
+							})
+							.from(files)
+							.where(
+								and(
+									eq(files.userId, ctx.session.user.id),
+									eq(files.status, "active"),
+								),
+							);
+
+						const categoryStats = await db
+							.select({
+								category: sql<string>`
+									CASE
+										WHEN ${files.mimeType} LIKE 'image/%' THEN 'image'
+										WHEN ${files.mimeType} LIKE 'video/%' THEN 'video'
+										WHEN ${files.mimeType} LIKE 'application/pdf' THEN 'pdf'
+										ELSE 'other'
+									END
+								`,
+								count: sql<number>`count(*)`,
+							})
+							.from(files)
+							.where(
+								and(
+									eq(files.userId, ctx.session.user.id),
+									eq(files.status, "active"),
+								),
+							)
+							.groupBy(sql`category`);
 
-					return {
-						totalFiles: stats[0]?.totalFiles || 0,
-						totalSize: stats[0]?.totalSize || 0,
-						formattedTotalSize: formatFileSize(stats[0]?.totalSize || 0),
-						categoryBreakdown: categoryStats,
-					};
+						return {
+							totalFiles: stats[0]?.totalFiles || 0,
+							totalSize: stats[0]?.totalSize || 0,
+							formattedTotalSize: formatFileSize(stats[0]?.totalSize || 0),
+							categoryBreakdown: categoryStats,
+						};
+					},
+					3600, // Cache for 1 hour
+				),
+				// Quota usage is always live so users see the effect of deletes right away
+				getStorageQuota(ctx.session.user.id),
+			]);
+
+			return {
+				...stats,
+				quota: {
+					...quota,
+					formattedUsed: formatFileSize(quota.used),
+					formattedLimit: quota.limit === null ? null : formatFileSize(quota.limit),
 				},
-				3600, // Cache for 1 hour
-			);
+			};
 		} catch (error) {
 			logger.error({ message: "Get stats error", error });
 			throw new TRPCError({
@@ -701,16 +994,33 @@ export const uploadRouter = router({
 			});
 			}
 		}),
+
+	// Bulk operations (upload.batch.*)
+	batch: uploadBatchRouter,
 });
 
 /**
  * Handle direct file upload endpoint (Hono handler)
- * This endpoint receives file uploads via FormData
+ * This endpoint receives file uploads via FormData. Who may use it depends on
+ * DIRECT_UPLOAD_MODE; anonymous callers send a `captchaToken` field and their
+ * files are temporary.
  */
 export async function handleDirectUpload(c: Context) {
 	const childLogger = apiLogger;
 
 	try {
+		const mode = getDirectUploadMode();
+		if (mode === "disabled") {
+			return c.json({ error: "Direct uploads are disabled" }, 403);
+		}
+
+		const session = await auth.api.getSession({
+			headers: c.req.raw.headers,
+		});
+		if (!session?.user && mode !== "anonymous") {
+			return c.json({ error: "Unauthorized" }, 401);
+		}
+
 		// Get form data
 		const formData = await c.req.formData();
 		const file = formData.get("file") as File;
@@ -719,50 +1029,96 @@ export async function handleDirectUpload(c: Context) {
 			return c.json({ error: "No file provided" }, 400);
 		}
 
-		// Convert File to Buffer
+		if (!session?.user) {
+			const captchaToken = formData.get("captchaToken");
+			if (
+				typeof captchaToken !== "string" ||
+				!(await verifyCaptcha(captchaToken, getClientIp(c)))
+			) {
+				return c.json({ error: "Captcha verification failed" }, 403);
+			}
+		}
+
+		// Convert File to Buffer and check the bytes against the declared type.
+		// Photo metadata is stripped unless the form sends stripMetadata=false.
 		const arrayBuffer = await file.arrayBuffer();
-		const buffer = Buffer.from(arrayBuffer);
+		const content = await prepareUploadContent(Buffer.from(arrayBuffer), file.type, {
+			stripMetadata: formData.get("stripMetadata") !== "false",
+		});
+		if (!content.valid) {
+			return c.json({ error: content.error }, 400);
+		}
+		const { mimeType, imageMetadata } = content;
+		let buffer = content.buffer;
 
-		// Process the file
-		const processed = await processUploadedFile(
-			buffer,
-			file.name,
-			file.type,
-			{
-				generateThumbnail: file.type.startsWith("image/"),
-				maxWidth: 2000,
-				maxHeight: 2000,
-				quality: 85,
+		if (session?.user) {
+			const watermarkProfileId = formData.get("watermarkProfileId");
+			if (typeof watermarkProfileId === "string" && watermarkProfileId) {
+				const profile = await getWatermarkProfile(watermarkProfileId, session.user.id);
+				if (!profile) {
+					return c.json({ error: "Watermark profile not found" }, 404);
+				}
+				buffer = await applyWatermarkProfile(buffer, mimeType, profile);
 			}
-		);
 
-		// Upload to MinIO
-		const uploadResult = await uploadFile(
-			processed.buffer,
-			file.name,
-			file.type,
-		);
+			if (!isValidFileSize(buffer.length, mimeType)) {
+				return c.json({ error: "File size exceeds the maximum allowed size" }, 400);
+			}
 
-		// Save to database if user is authenticated
-		const session = await auth.api.getSession({
-			headers: c.req.raw.headers,
-		});
+			let duplicateCheck: Awaited<ReturnType<typeof findUploadDuplicate>>;
+			try {
+				duplicateCheck = await findUploadDuplicate(buffer, session.user.id);
+			} catch (error) {
+				if (error instanceof TRPCError) {
+					return c.json({ error: error.message }, 403);
+				}
+				throw error;
+			}
+			const { contentHash, duplicate } = duplicateCheck;
+
+			// Upload the original unless the bytes are already stored; processing is queued for the worker
+			let stored: StoredFileValues;
+			if (duplicate) {
+				stored = duplicateFileValues(duplicate, file.name, session.user.id);
+			} else {
+				const uploadResult = await uploadFile(buffer, file.name, mimeType);
+				stored = {
+					fileName: uploadResult.fileName,
+					url: uploadResult.url,
+					size: uploadResult.size,
+					metadata: {
+						originalName: file.name,
+						fileName: uploadResult.fileName,
+						mimeType,
+						size: uploadResult.size,
+						...imageMetadata,
+					},
+				};
+			}
 
-		if (session?.user) {
 			const fileId = nanoid();
 			await db.insert(files).values({
 				id: fileId,
 				originalName: file.name,
-				fileName: uploadResult.fileName,
-				mimeType: file.type,
-				size: uploadResult.size,
-				url: uploadResult.url,
+				mimeType,
 				userId: session.user.id,
-				metadata: processed.metadata,
+				contentHash,
+				...stored,
 				isPublic: true,
 				status: "active",
 				processingStatus: "completed",
+				scanStatus: getInitialScanStatus(),
 			});
+			await retainObject(stored.fileName, { contentHash, size: stored.size });
+
+			await enqueueFileProcessing(
+				fileId,
+				withMalwareScan(
+					duplicate
+						? getDuplicateProcessingJobs(mimeType, duplicate)
+						: getProcessingJobs(mimeType),
+				),
+			);
 
 			childLogger.info({
 				event: "direct.upload.success",
@@ -770,30 +1126,110 @@ export async function handleDirectUpload(c: Context) {
 				fileId,
 				userId: session.user.id,
 				fileName: file.name,
-				size: uploadResult.size,
+				size: stored.size,
+				duplicateOf: duplicate?.id,
 			});
 
-			return c.json({
+			const response: DirectUploadResponse = {
 				id: fileId,
-				url: uploadResult.url,
-				fileName: uploadResult.fileName,
-				size: uploadResult.size,
-			});
+				url: stored.url,
+				fileName: stored.fileName,
+				size: stored.size,
+				duplicateOf: toDuplicateOf(duplicate, session.user.id),
+			};
+
+			return c.json(response);
+		}
+
+		// Anonymous uploads are scanned and processed inline: nobody owns the row
+		// the worker would report to
+		const scanner = getMalwareScanner();
+		if (scanner) {
+			const scan = await scanner.scan(Readable.from(buffer));
+			if (scan.infected) {
+				childLogger.warn({
+					event: "direct.upload.infected",
+					message: `Anonymous upload rejected by malware scan: ${file.name}`,
+					signature: scan.signature,
+				});
+				return c.json({ error: "File failed the malware scan" }, 400);
+			}
+		}
+
+		if (!isValidFileSize(buffer.length, mimeType)) {
+			return c.json({ error: "File size exceeds the maximum allowed size" }, 400);
 		}
 
-		// Anonymous upload
+		const processed = await processUploadedFile(
+			buffer,
+			file.name,
+			mimeType,
+			{
+				maxWidth: 2000,
+				maxHeight: 2000,
+				quality: 85,
+			}
+		);
+
+		// Temporary prefix: expired by the bucket lifecycle rule as well as the purge
+		const uploadResult = await uploadFileWithPath(
+			processed.buffer,
+			ANONYMOUS_UPLOAD_PREFIX,
+			file.name,
+			mimeType,
+			{ anonymous: "true" },
+		);
+		const contentHash = await calculateFileHash(processed.buffer);
+		const expiresAt = new Date(Date.now() + getAnonymousUploadTtlHours() * 60 * 60 * 1000);
+
+		// Every object gets a row so anonymous uploads can be audited and purged
+		const fileId = nanoid();
+		await db.insert(files).values({
+			id: fileId,
+			originalName: file.name,
+			fileName: uploadResult.fileName,
+			mimeType,
+			size: uploadResult.size,
+			url: uploadResult.url,
+			userId: null,
+			contentHash,
+			metadata: {
+				...imageMetadata,
+				...processed.metadata,
+				anonymous: true,
+				ipAddress: getClientIp(c),
+				userAgent: c.req.header("user-agent") || null,
+			},
+			isPublic: false,
+			status: "active",
+			processingStatus: "completed",
+			scanStatus: scanner ? "clean" : null,
+			expiresAt,
+		});
+		await retainObject(uploadResult.fileName, { contentHash, size: uploadResult.size });
+
 		childLogger.info({
 			event: "direct.upload.anonymous",
 			message: `Anonymous upload successful: ${file.name}`,
+			fileId,
 			fileName: file.name,
 			size: uploadResult.size,
+			expiresAt,
 		});
 
-		return c.json({
-			url: uploadResult.url,
+		// Nobody owns the row, so the uploader gets a URL signed for the file's lifetime
+		const response: DirectUploadResponse = {
+			id: fileId,
+			url: signObjectUrl(
+				uploadResult.fileName,
+				Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+			),
 			fileName: uploadResult.fileName,
 			size: uploadResult.size,
-		});
+			expiresAt,
+		};
+
+		return c.json(response);
 	} catch (error) {
 		childLogger.error({
 			event: "direct.upload.error",
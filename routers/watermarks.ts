@@ -0,0 +1,257 @@
+import { protectedProcedure, router } from "@/lib/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@/db";
+import { fileSharingLinks, watermarkProfiles } from "@/db/schema/files";
+import { eq, and, asc, isNull } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import {
+	deleteFile,
+	getObjectUrl,
+	uploadFileWithPath,
+} from "@/lib/services/storage/minio";
+import { prepareUploadContent } from "@/lib/api/upload/content-type";
+import { getExtensionFromMimeType } from "@/lib/api/upload/client";
+import {
+	getWatermarkProfile,
+	isWatermarkable,
+	WATERMARK_PREFIX,
+	type WatermarkProfile,
+} from "@/lib/services/watermarks";
+import { logger } from "@/lib/logger";
+
+// Import schemas from global types
+import {
+	createWatermarkProfileSchema,
+	updateWatermarkProfileSchema,
+	deleteWatermarkProfileSchema,
+	type WatermarkProfileItem,
+} from "../types/watermarks";
+
+// Export types for use in other files
+export * from "../types/watermarks";
+
+// Logos and stamps are small; anything bigger is scaled down on every use
+const MAX_WATERMARK_IMAGE_SIZE = 2 * 1024 * 1024;
+
+function toProfileItem(profile: WatermarkProfile): WatermarkProfileItem {
+	return {
+		id: profile.id,
+		name: profile.name,
+		type: profile.type,
+		text: profile.text,
+		imageUrl: profile.imageFileName ? getObjectUrl(profile.imageFileName) : null,
+		position: profile.position,
+		opacity: profile.opacity,
+		scale: profile.scale,
+		createdAt: profile.createdAt,
+		updatedAt: profile.updatedAt,
+	};
+}
+
+/**
+ * Load a profile owned by the user
+ */
+async function findOwnedProfile(id: string, userId: string): Promise<WatermarkProfile> {
+	const profile = await getWatermarkProfile(id, userId);
+
+	if (!profile) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Watermark profile not found",
+		});
+	}
+
+	return profile;
+}
+
+export const watermarksRouter = router({
+	// Create a text or image watermark profile
+	create: protectedProcedure
+		.input(createWatermarkProfileSchema)
+		.mutation(async ({ input, ctx }): Promise<WatermarkProfileItem> => {
+			const userId = ctx.session.user.id;
+
+			try {
+				let imageFileName: string | null = null;
+
+				if (input.type === "image") {
+					const raw = Buffer.from(input.fileData, "base64");
+					if (raw.length > MAX_WATERMARK_IMAGE_SIZE) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "Watermark image must be 2 MB or smaller",
+						});
+					}
+
+					const content = await prepareUploadContent(raw, input.mimeType);
+					if (!content.valid) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: content.error,
+						});
+					}
+					if (!isWatermarkable(content.mimeType)) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "Watermark image must be a PNG, WebP, JPEG or AVIF",
+						});
+					}
+
+					const uploaded = await uploadFileWithPath(
+						content.buffer,
+						`${WATERMARK_PREFIX}/${userId}`,
+						`watermark.${getExtensionFromMimeType(content.mimeType)}`,
+						content.mimeType,
+					);
+					imageFileName = uploaded.fileName;
+				}
+
+				const id = nanoid();
+				await db.insert(watermarkProfiles).values({
+					id,
+					userId,
+					name: input.name,
+					type: input.type,
+					text: input.type === "text" ? input.text : null,
+					imageFileName,
+					position: input.position,
+					opacity: input.opacity,
+					scale: input.scale,
+				});
+
+				logger.info({
+					event: "watermark.profile.created",
+					message: `Watermark profile created: ${input.name}`,
+					profileId: id,
+					userId,
+				});
+
+				return toProfileItem(await findOwnedProfile(id, userId));
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Create watermark profile error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create watermark profile",
+				});
+			}
+		}),
+
+	// Change a profile's settings (the image of an image profile is fixed)
+	update: protectedProcedure
+		.input(updateWatermarkProfileSchema)
+		.mutation(async ({ input, ctx }): Promise<WatermarkProfileItem> => {
+			const userId = ctx.session.user.id;
+
+			try {
+				const profile = await findOwnedProfile(input.id, userId);
+
+				if (input.text !== undefined && profile.type !== "text") {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "Only text profiles have text",
+					});
+				}
+
+				await db
+					.update(watermarkProfiles)
+					.set({
+						name: input.name ?? profile.name,
+						text: input.text ?? profile.text,
+						position: input.position ?? profile.position,
+						opacity: input.opacity ?? profile.opacity,
+						scale: input.scale ?? profile.scale,
+					})
+					.where(eq(watermarkProfiles.id, profile.id));
+
+				logger.info({
+					event: "watermark.profile.updated",
+					message: `Watermark profile updated: ${profile.id}`,
+					profileId: profile.id,
+					userId,
+				});
+
+				return toProfileItem(await findOwnedProfile(profile.id, userId));
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Update watermark profile error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to update watermark profile",
+				});
+			}
+		}),
+
+	// Delete a profile that no live share link uses
+	delete: protectedProcedure
+		.input(deleteWatermarkProfileSchema)
+		.mutation(async ({ input, ctx }) => {
+			const userId = ctx.session.user.id;
+
+			try {
+				const profile = await findOwnedProfile(input.id, userId);
+
+				const inUse = await db
+					.select({ id: fileSharingLinks.id })
+					.from(fileSharingLinks)
+					.where(
+						and(
+							eq(fileSharingLinks.watermarkProfileId, profile.id),
+							isNull(fileSharingLinks.revokedAt),
+						),
+					)
+					.limit(1);
+				if (inUse[0]) {
+					throw new TRPCError({
+						code: "CONFLICT",
+						message: "Watermark profile is used by a share link",
+					});
+				}
+
+				await db.delete(watermarkProfiles).where(eq(watermarkProfiles.id, profile.id));
+
+				if (profile.imageFileName) {
+					await deleteFile(profile.imageFileName).catch(() => {
+						logger.warn(`Failed to delete watermark image: ${profile.imageFileName}`);
+					});
+				}
+
+				logger.info({
+					event: "watermark.profile.deleted",
+					message: `Watermark profile deleted: ${profile.name}`,
+					profileId: profile.id,
+					userId,
+				});
+
+				return {
+					message: "Watermark profile deleted successfully",
+				};
+			} catch (error) {
+				if (error instanceof TRPCError) throw error;
+				logger.error({ message: "Delete watermark profile error", error });
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to delete watermark profile",
+				});
+			}
+		}),
+
+	// List the user's profiles
+	list: protectedProcedure.query(async ({ ctx }): Promise<WatermarkProfileItem[]> => {
+		try {
+			const profiles = await db
+				.select()
+				.from(watermarkProfiles)
+				.where(eq(watermarkProfiles.userId, ctx.session.user.id))
+				.orderBy(asc(watermarkProfiles.name));
+
+			return profiles.map(toProfileItem);
+		} catch (error) {
+			logger.error({ message: "List watermark profiles error", error });
+			throw new TRPCError({
+				code: "INTERNAL_SERVER_ERROR",
+				message: "Failed to list watermark profiles",
+			});
+		}
+	}),
+});
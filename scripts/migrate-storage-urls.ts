@@ -0,0 +1,19 @@
+/**
+ * One-off migration to the private bucket: rewrites stored file URLs to the
+ * /api/objects proxy and removes the public bucket policy.
+ *
+ * Usage: bun run storage:migrate-urls
+ */
+import { migrateStoredUrls } from "@/lib/services/storage/url-migration";
+
+migrateStoredUrls()
+	.then((result) => {
+		console.log(
+			`Rewrote URLs of ${result.files} files and ${result.versions} file versions; the bucket is now private`,
+		);
+		process.exit(0);
+	})
+	.catch((error) => {
+		console.error("Storage URL migration failed:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,54 @@
+/**
+ * Grant the admin role to an existing account. Used to bootstrap the first
+ * admin; further admins are promoted from the admin panel.
+ *
+ * Usage: bun run admin:promote <email>
+ */
+import { db } from "@/db";
+import { user } from "@/db/schema/auth";
+import { eq } from "drizzle-orm";
+import { logger } from "@/lib/logger";
+
+async function promoteAdmin(email: string): Promise<void> {
+	const target = await db
+		.select({ id: user.id, email: user.email, role: user.role })
+		.from(user)
+		.where(eq(user.email, email.trim().toLowerCase()))
+		.limit(1);
+
+	if (!target[0]) {
+		throw new Error(`No account registered with ${email}`);
+	}
+
+	if (target[0].role === "admin") {
+		console.log(`${target[0].email} is already an admin`);
+		return;
+	}
+
+	await db
+		.update(user)
+		.set({ role: "admin", updatedAt: new Date() })
+		.where(eq(user.id, target[0].id));
+
+	logger.info({
+		event: "user.role.updated",
+		message: `User ${target[0].email} role changed from ${target[0].role} to admin from the command line`,
+		targetUserId: target[0].id,
+		previousRole: target[0].role,
+		role: "admin",
+	});
+	console.log(`${target[0].email} is now an admin`);
+}
+
+const email = process.argv[2];
+if (!email) {
+	console.error("Usage: bun run admin:promote <email>");
+	process.exit(1);
+}
+
+promoteAdmin(email)
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("Promoting admin failed:", error);
+		process.exit(1);
+	});
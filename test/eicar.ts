@@ -0,0 +1,3 @@
+// The standard antivirus test file; harmless, but every scanner flags it
+export const EICAR_TEST_FILE =
+	"X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!H+H*";
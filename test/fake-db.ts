@@ -0,0 +1,83 @@
+import { getTableName, isTable, type Table } from "drizzle-orm";
+
+type Operation = "select" | "insert" | "update" | "delete";
+
+export interface RecordedQuery {
+	operation: Operation;
+	table?: string; // from / into / update target
+	values?: unknown; // insert values or update set
+}
+
+// What mysql2 resolves writes with when a test does not say otherwise
+const WRITE_RESULT = [{ affectedRows: 1, insertId: 0 }];
+
+let results: unknown[] = [];
+let queries: RecordedQuery[] = [];
+
+/**
+ * Stand-in for the drizzle client. Every query builder chain resolves, when
+ * awaited, to the next queued result; unqueued selects resolve to no rows
+ * and writes to one affected row. Subqueries that are never awaited do not
+ * take a result.
+ */
+function createQuery(operation: Operation, table?: Table): unknown {
+	const query: RecordedQuery = { operation, table: table ? getTableName(table) : undefined };
+
+	const chain: unknown = new Proxy(() => {}, {
+		get(_target, property) {
+			if (property === "then") {
+				return (resolve: (value: unknown) => void, reject: (error: unknown) => void) => {
+					queries.push(query);
+					const result = results.length
+						? results.shift()
+						: operation === "select"
+							? []
+							: WRITE_RESULT;
+					return (result instanceof Error ? Promise.reject(result) : Promise.resolve(result)).then(
+						resolve,
+						reject,
+					);
+				};
+			}
+
+			return (...args: unknown[]) => {
+				if ((property === "from" || property === "leftJoin") && isTable(args[0])) {
+					query.table ??= getTableName(args[0]);
+				}
+				if (property === "values" || property === "set") {
+					query.values = args[0];
+				}
+				return chain;
+			};
+		},
+	});
+
+	return chain;
+}
+
+export const fakeDb = {
+	select: () => createQuery("select"),
+	selectDistinct: () => createQuery("select"),
+	insert: (table: Table) => createQuery("insert", table),
+	update: (table: Table) => createQuery("update", table),
+	delete: (table: Table) => createQuery("delete", table),
+};
+
+/**
+ * Results for the next awaited queries, in order. An Error rejects the query.
+ */
+export function queueResults(...next: unknown[]): void {
+	results.push(...next);
+}
+
+/**
+ * Queries awaited since the last reset
+ */
+export function getQueries(): RecordedQuery[] {
+	return queries;
+}
+
+export function resetFakeDb(): void {
+	results = [];
+	queries = [];
+}
@@ -0,0 +1,47 @@
+let commands: unknown[][] = [];
+let replies = new Map<string, unknown>();
+
+/**
+ * Stand-in for the ioredis client: event listeners are ignored, SET answers
+ * "OK" so locks are acquired, KEYS finds nothing and every other command
+ * resolves to null unless setRedisReply says otherwise. Commands are recorded
+ * with their arguments.
+ */
+export const fakeRedis: unknown = new Proxy(
+	{},
+	{
+		get(_target, command) {
+			if (command === "then") return undefined;
+			if (command === "on") return () => fakeRedis;
+
+			return async (...args: unknown[]) => {
+				commands.push([command, ...args]);
+				if (typeof command === "string" && replies.has(command)) {
+					return replies.get(command);
+				}
+				if (command === "set") return "OK";
+				if (command === "keys") return [];
+				return null;
+			};
+		},
+	},
+);
+
+/**
+ * Commands sent since the last reset, e.g. ["keys", "files:public:*"]
+ */
+export function getRedisCommands(): unknown[][] {
+	return commands;
+}
+
+/**
+ * Answer every call of a command with the same reply, e.g. ("get", "10")
+ */
+export function setRedisReply(command: string, reply: unknown): void {
+	replies.set(command, reply);
+}
+
+export function resetFakeRedis(): void {
+	commands = [];
+	replies = new Map();
+}
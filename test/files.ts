@@ -0,0 +1,35 @@
+import type { files } from "@/db/schema/files";
+
+type FileRecord = typeof files.$inferSelect;
+
+/**
+ * A stored file row with sensible defaults
+ */
+export function createFileRecord(overrides: Partial<FileRecord> = {}): FileRecord {
+	const now = new Date();
+
+	return {
+		id: "file-1",
+		originalName: "report.txt",
+		fileName: "uploads/report-1.txt",
+		mimeType: "text/plain",
+		size: 68,
+		url: "http://localhost:3000/api/objects/uploads/report-1.txt",
+		thumbnailUrl: null,
+		path: "uploads",
+		contentHash: "a".repeat(64),
+		userId: "user-1",
+		fileRequestId: null,
+		metadata: {},
+		status: "active",
+		isPublic: true,
+		processingStatus: "pending",
+		processingError: null,
+		scanStatus: "pending",
+		createdAt: now,
+		updatedAt: now,
+		deletedAt: null,
+		expiresAt: null,
+		...overrides,
+	};
+}
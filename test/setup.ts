@@ -0,0 +1,16 @@
+import { mock } from "bun:test";
+import { fakeDb } from "./fake-db";
+import { fakeRedis } from "./fake-redis";
+
+// Tests never reach MySQL or Redis
+mock.module("@/db", () => ({ db: fakeDb }));
+mock.module("@/lib/services/redis/client", () => ({
+	redis: fakeRedis,
+	default: fakeRedis,
+	isRedisHealthy: async () => true,
+	closeRedisConnection: async () => {},
+}));
+
+process.env.NEXT_PUBLIC_SERVER_URL ||= "http://localhost:3000";
+process.env.BETTER_AUTH_SECRET ||= "test-secret-that-is-long-enough-for-tests";
+process.env.CORS_ORIGIN ||= "http://localhost:3000";
@@ -0,0 +1,11 @@
+import type { Context } from "@/lib/api/trpc";
+
+/**
+ * Request context for calling procedures directly; null signs the caller out
+ */
+export function createTestContext(userId: string | null = "user-1"): Context {
+	return {
+		session: userId ? ({ user: { id: userId }, session: {} } as Context["session"]) : null,
+		clientIp: "203.0.113.7",
+	};
+}
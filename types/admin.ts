@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+/**
+ * Admin Router Types
+ *
+ * Contains all schemas, response types, and inferred types for user and role management
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const userRoleSchema = z.enum(["user", "admin"]);
+
+export const storagePlanSchema = z.enum(["free", "pro", "unlimited"]);
+
+export const listUsersSchema = z.object({
+	limit: z.number().min(1).max(100).optional().default(20),
+	offset: z.number().min(0).optional().default(0),
+	search: z.string().optional(), // matches name or email
+	role: userRoleSchema.optional(),
+});
+
+export const setUserRoleSchema = z.object({
+	userId: z.string().min(1),
+	role: userRoleSchema,
+});
+
+export const setUserQuotaSchema = z
+	.object({
+		userId: z.string().min(1),
+		plan: storagePlanSchema.optional(),
+		storageQuota: z.number().int().min(0).nullable().optional(), // bytes; null falls back to the plan
+	})
+	.refine((value) => value.plan !== undefined || value.storageQuota !== undefined, {
+		message: "Provide a plan or a storageQuota",
+	});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type ListUsersInput = z.infer<typeof listUsersSchema>;
+export type SetUserRoleInput = z.infer<typeof setUserRoleSchema>;
+export type StoragePlanInput = z.infer<typeof storagePlanSchema>;
+export type SetUserQuotaInput = z.infer<typeof setUserQuotaSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface AdminUserItem {
+	id: string;
+	name: string;
+	email: string;
+	role: UserRole;
+	plan: StoragePlanInput;
+	storageQuota: number | null;
+	createdAt: Date;
+}
+
+export interface ListUsersResponse {
+	users: AdminUserItem[];
+	pagination: {
+		total: number;
+		limit: number;
+		offset: number;
+		hasMore: boolean;
+	};
+}
+
+export interface SetUserRoleResponse {
+	userId: string;
+	role: UserRole;
+	message: string;
+}
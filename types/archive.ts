@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+/**
+ * Archive Router Types
+ *
+ * Contains all schemas, response types, and inferred types for archived files
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const listArchivedSchema = z.object({
+	limit: z.number().min(1).max(100).optional().default(20),
+	offset: z.number().min(0).optional().default(0),
+	search: z.string().optional(),
+});
+
+export const archiveFileSchema = z.object({
+	id: z.string().min(1),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type ListArchivedInput = z.infer<typeof listArchivedSchema>;
+export type ArchiveFileInput = z.infer<typeof archiveFileSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface ArchivedFileItem {
+	id: string;
+	originalName: string;
+	mimeType: string;
+	size: number;
+	formattedSize: string;
+	category: string;
+	url: string;
+	thumbnailUrl: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface ListArchivedResponse {
+	files: ArchivedFileItem[];
+	pagination: {
+		total: number;
+		limit: number;
+		offset: number;
+		hasMore: boolean;
+	};
+}
+
+export interface ArchiveFileResponse {
+	id: string;
+	message: string;
+}
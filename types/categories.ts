@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+/**
+ * Categories Router Types
+ *
+ * Contains all schemas, response types, and inferred types for folder/category management
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const createCategorySchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	description: z.string().max(1000).optional(),
+	parentId: z.string().min(1).optional(),
+	isPublic: z.boolean().optional().default(false),
+});
+
+export const renameCategorySchema = z.object({
+	id: z.string().min(1),
+	name: z.string().trim().min(1).max(100),
+	description: z.string().max(1000).nullish(),
+});
+
+export const moveCategorySchema = z.object({
+	id: z.string().min(1),
+	parentId: z.string().min(1).nullable(), // null moves to the root
+});
+
+export const deleteCategorySchema = z.object({
+	id: z.string().min(1),
+});
+
+export const categoryFilesSchema = z.object({
+	categoryId: z.string().min(1),
+	fileIds: z.array(z.string().min(1)).min(1).max(100),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type RenameCategoryInput = z.infer<typeof renameCategorySchema>;
+export type MoveCategoryInput = z.infer<typeof moveCategorySchema>;
+export type DeleteCategoryInput = z.infer<typeof deleteCategorySchema>;
+export type CategoryFilesInput = z.infer<typeof categoryFilesSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface CategoryItem {
+	id: string;
+	name: string;
+	slug: string;
+	description: string | null;
+	parentId: string | null;
+	isPublic: boolean;
+	createdAt: Date;
+}
+
+export interface CategoryNode extends CategoryItem {
+	fileCount: number;
+	children: CategoryNode[];
+}
+
+export interface CategoryFilesResponse {
+	categoryId: string;
+	count: number;
+	message: string;
+}
+
+export interface DeleteCategoryResponse {
+	message: string;
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { folderPathSchema } from "./upload";
+
+/**
+ * Direct Upload Router Types
+ *
+ * Contains all schemas, response types, and inferred types for presigned browser-to-MinIO uploads
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const createDirectUploadSchema = z.object({
+	fileName: z.string().min(1).max(255),
+	mimeType: z.string().min(1).max(100),
+	size: z.number().int().positive(),
+	isPublic: z.boolean().optional().default(true),
+	path: folderPathSchema.optional(),
+	stripMetadata: z.boolean().optional().default(true), // drop GPS and other private EXIF tags
+	watermarkProfileId: z.string().min(1).optional(), // stamped into images before storing
+});
+
+export const confirmUploadSchema = z.object({
+	uploadId: z.string().min(1),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type CreateDirectUploadInput = z.infer<typeof createDirectUploadSchema>;
+export type ConfirmUploadInput = z.infer<typeof confirmUploadSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface DirectUploadUrlResponse {
+	uploadId: string;
+	uploadUrl: string; // POST a multipart form here
+	fields: Record<string, string>; // form fields to send before the file
+	expiresAt: Date;
+}
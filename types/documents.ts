@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { IMAGE_VARIANT_SIZES } from "@/lib/services/images/variants";
+
+/**
+ * Document Router Types
+ *
+ * Contains all schemas and inferred types for the document page preview endpoint
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const documentPageParamsSchema = z.object({
+	fileId: z.string().min(1).max(36),
+	page: z.coerce.number().int().min(1).max(10000),
+});
+
+export const documentPageQuerySchema = z.object({
+	w: z.coerce
+		.number()
+		.int()
+		.refine((size) => IMAGE_VARIANT_SIZES.includes(size) && size <= 2048, {
+			message: "Unsupported page width",
+		})
+		.default(828),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type DocumentPageParams = z.infer<typeof documentPageParamsSchema>;
+export type DocumentPageQuery = z.infer<typeof documentPageQuerySchema>;
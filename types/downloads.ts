@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+/**
+ * Download Types
+ *
+ * Contains schemas and inferred types for multi-file (ZIP) downloads
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const zipDownloadSchema = z
+	.object({
+		fileIds: z.array(z.string().min(1).max(36)).max(1000).optional(),
+		path: z.string().trim().min(1).max(255).optional(), // folder prefix, subfolders included
+		name: z.string().trim().min(1).max(200).optional(), // archive name without .zip
+	})
+	.refine((input) => (input.fileIds?.length ?? 0) > 0 || !!input.path, {
+		message: "Provide fileIds or a path",
+	});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type ZipDownloadInput = z.infer<typeof zipDownloadSchema>;
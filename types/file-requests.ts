@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { folderPathSchema } from "./upload";
+
+/**
+ * File Request Router Types
+ *
+ * Contains all schemas, response types, and inferred types for file request router
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+// A MIME type or a "type/*" wildcard
+const allowedTypeSchema = z
+	.string()
+	.trim()
+	.toLowerCase()
+	.regex(/^[a-z0-9.+-]+\/([a-z0-9.+-]+|\*)$/, "Invalid MIME type");
+
+export const createFileRequestSchema = z.object({
+	title: z.string().trim().min(1).max(100),
+	description: z.string().trim().max(1000).optional(),
+	path: folderPathSchema.optional(), // destination folder
+	categoryId: z.string().min(1).optional(),
+	allowedTypes: z.array(allowedTypeSchema).min(1).max(50).optional(), // omitted allows every accepted type
+	maxFileSize: z.number().int().positive().optional(), // bytes
+	maxFiles: z.number().int().positive().max(1000).optional(),
+	expiresInHours: z.number().positive().max(720).optional().default(168), // Max 30 days, default 7
+	password: z.string().min(1).optional(),
+});
+
+export const revokeFileRequestSchema = z.object({
+	id: z.string().min(1),
+});
+
+export const getFileRequestSchema = z.object({
+	token: z.string().min(1).max(100),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type CreateFileRequestInput = z.infer<typeof createFileRequestSchema>;
+export type RevokeFileRequestInput = z.infer<typeof revokeFileRequestSchema>;
+export type GetFileRequestInput = z.infer<typeof getFileRequestSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export type FileRequestStatus = "active" | "expired" | "full" | "revoked";
+
+// Owner's view of a request
+export interface FileRequestItem {
+	id: string;
+	token: string;
+	url: string; // public upload page
+	title: string;
+	description: string | null;
+	targetPath: string | null;
+	categoryId: string | null;
+	allowedTypes: string[] | null;
+	maxFileSize: number | null;
+	maxFiles: number | null;
+	uploadCount: number;
+	status: FileRequestStatus;
+	requiresPassword: boolean;
+	expiresAt: Date | null;
+	createdAt: Date;
+	lastUploadAt: Date | null;
+	revokedAt: Date | null;
+}
+
+// What an uploader sees before sending files
+export interface PublicFileRequestResponse {
+	token: string;
+	title: string;
+	description: string | null;
+	requiresPassword: boolean;
+	allowedTypes: string[] | null;
+	maxFileSize: number | null; // the global per-type limits still apply
+	formattedMaxFileSize: string | null;
+	remainingFiles: number | null;
+	expiresAt: Date | null;
+	uploadUrl: string;
+}
+
+export interface FileRequestUploadResponse {
+	fileName: string; // name as sent by the uploader
+	size: number;
+	remainingFiles: number | null;
+}
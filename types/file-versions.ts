@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+/**
+ * File Versions Router Types
+ *
+ * Contains all schemas, response types, and inferred types for file versioning
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const uploadFileVersionSchema = z.object({
+	fileId: z.string().min(1),
+	fileName: z.string().min(1).max(255),
+	mimeType: z.string().min(1).max(100),
+	size: z.number().positive(),
+	fileData: z.string(), // Base64 encoded file data
+	changeDescription: z.string().max(1000).optional(),
+	stripMetadata: z.boolean().optional().default(true), // drop GPS and other private EXIF tags
+	watermarkProfileId: z.string().min(1).optional(), // stamped into images before storing
+});
+
+export const listFileVersionsSchema = z.object({
+	fileId: z.string().min(1),
+});
+
+export const downloadFileVersionSchema = z.object({
+	fileId: z.string().min(1),
+	versionNumber: z.number().int().positive(),
+	expiresInSeconds: z.number().positive().max(3600).optional().default(3600),
+});
+
+export const restoreFileVersionSchema = z.object({
+	fileId: z.string().min(1),
+	versionNumber: z.number().int().positive(),
+	changeDescription: z.string().max(1000).optional(),
+});
+
+export const purgeFileVersionSchema = z.object({
+	fileId: z.string().min(1),
+	versionNumber: z.number().int().positive(),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type UploadFileVersionInput = z.infer<typeof uploadFileVersionSchema>;
+export type ListFileVersionsInput = z.infer<typeof listFileVersionsSchema>;
+export type DownloadFileVersionInput = z.infer<typeof downloadFileVersionSchema>;
+export type RestoreFileVersionInput = z.infer<typeof restoreFileVersionSchema>;
+export type PurgeFileVersionInput = z.infer<typeof purgeFileVersionSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface FileVersionItem {
+	id: string;
+	versionNumber: number;
+	fileName: string;
+	mimeType: string | null;
+	size: number;
+	formattedSize: string;
+	url: string;
+	thumbnailUrl: string | null;
+	changeDescription: string | null;
+	createdBy: string | null;
+	createdAt: Date;
+	isCurrent: boolean;
+}
+
+export interface FileVersionResponse {
+	fileId: string;
+	versionNumber: number;
+	url: string;
+	thumbnailUrl: string | null;
+	size: number;
+	message: string;
+}
+
+export interface DownloadFileVersionResponse {
+	url: string;
+	versionNumber: number;
+	expiresInSeconds: number;
+	message: string;
+}
+
+export interface PurgeFileVersionResponse {
+	message: string;
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import {
+	IMAGE_VARIANT_SIZES,
+	IMAGE_VARIANT_FORMATS,
+	IMAGE_VARIANT_FITS,
+} from "@/lib/services/images/variants";
+
+/**
+ * Image Router Types
+ *
+ * Contains all schemas and inferred types for the image transform endpoint
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+const variantSizeSchema = z.coerce
+	.number()
+	.int()
+	.refine((size) => IMAGE_VARIANT_SIZES.includes(size), {
+		message: `Size must be one of ${IMAGE_VARIANT_SIZES.join(", ")}`,
+	});
+
+export const imageTransformParamsSchema = z.object({
+	fileId: z.string().min(1).max(36),
+});
+
+export const imageTransformQuerySchema = z.object({
+	w: variantSizeSchema.optional(),
+	h: variantSizeSchema.optional(),
+	fit: z.enum(IMAGE_VARIANT_FITS).default("inside"),
+	format: z.enum(IMAGE_VARIANT_FORMATS).optional(),
+	q: z.coerce.number().int().min(1).max(100).default(75),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type ImageTransformParams = z.infer<typeof imageTransformParamsSchema>;
+export type ImageTransformQuery = z.infer<typeof imageTransformQuerySchema>;
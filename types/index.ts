@@ -10,3 +10,50 @@ export * from "./upload";
 // Export logs types
 export * from "./logs";
 
+// Export share types
+export * from "./share";
+
+// Export upload session types
+export * from "./upload-session";
+
+// Export file version types
+export * from "./file-versions";
+
+// Export category types
+export * from "./categories";
+
+// Export search types
+export * from "./search";
+
+// Export admin types
+export * from "./admin";
+
+// Export batch upload types
+export * from "./upload-batch";
+
+// Export trash types
+export * from "./trash";
+
+// Export archive types
+export * from "./archive";
+
+// Export direct upload types
+export * from "./direct-upload";
+
+// Export image transform types
+export * from "./images";
+
+// Export document preview types
+export * from "./documents";
+
+// Export watermark profile types
+export * from "./watermarks";
+
+// Export download types
+export * from "./downloads";
+
+// Export file request types
+export * from "./file-requests";
+
+// Export stored object proxy types
+export * from "./objects";
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+/**
+ * Object Router Types
+ *
+ * Contains all schemas and inferred types for the stored object proxy
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+// Present on signed URLs only; other requests need a public file or the owner's session
+export const objectQuerySchema = z.object({
+	expires: z.string().regex(/^\d+$/).optional(),
+	signature: z.string().max(100).optional(),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type ObjectQueryInput = z.infer<typeof objectQuerySchema>;
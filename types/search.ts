@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+/**
+ * Search Router Types
+ *
+ * Contains all schemas, response types, and inferred types for full-text file search and tags
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const searchFilesSchema = z.object({
+	query: z.string().trim().min(1).max(200),
+	tags: z.array(z.string().min(1).max(50)).max(10).optional(), // files must have every tag
+	limit: z.number().min(1).max(50).optional().default(20),
+	offset: z.number().min(0).optional().default(0),
+});
+
+export const updateFileTagsSchema = z.object({
+	fileId: z.string().min(1),
+	tags: z.array(z.string().trim().min(1).max(50)).max(20),
+});
+
+export const getFileTagsSchema = z.object({
+	fileId: z.string().min(1),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type SearchFilesInput = z.infer<typeof searchFilesSchema>;
+export type UpdateFileTagsInput = z.infer<typeof updateFileTagsSchema>;
+export type GetFileTagsInput = z.infer<typeof getFileTagsSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+// Character offsets of a matched term, end exclusive
+export interface HighlightRange {
+	start: number;
+	end: number;
+}
+
+export interface SearchFileResult {
+	id: string;
+	originalName: string;
+	mimeType: string;
+	size: number;
+	formattedSize: string;
+	category: string;
+	url: string;
+	thumbnailUrl: string | null;
+	createdAt: Date;
+	tags: string[];
+	score: number;
+	nameHighlights: HighlightRange[];
+	snippet: string | null;
+	snippetHighlights: HighlightRange[];
+}
+
+export interface TagFacet {
+	tag: string;
+	count: number;
+}
+
+export interface SearchFilesResponse {
+	results: SearchFileResult[];
+	facets: TagFacet[];
+	pagination: {
+		total: number;
+		limit: number;
+		offset: number;
+		hasMore: boolean;
+	};
+}
+
+export interface FileTagsResponse {
+	fileId: string;
+	tags: string[];
+}
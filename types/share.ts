@@ -0,0 +1,131 @@
+import { z } from "zod";
+
+/**
+ * Share Router Types
+ *
+ * Contains all schemas, response types, and inferred types for share router
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const getShareLinkSchema = z.object({
+	token: z.string().min(1).max(100),
+});
+
+export const verifySharePasswordSchema = z.object({
+	token: z.string().min(1).max(100),
+	password: z.string().min(1),
+});
+
+// Without fileId, all links the user created
+export const listShareLinksSchema = z.object({
+	fileId: z.string().min(1).optional(),
+});
+
+// Omitted fields are left unchanged; null removes the password / expiry / limit
+export const updateShareLinkSchema = z.object({
+	id: z.string().min(1),
+	password: z.string().min(1).nullish(),
+	expiresInHours: z.number().positive().max(720).nullish(), // Max 30 days
+	maxDownloads: z.number().int().positive().nullish(),
+});
+
+export const revokeShareLinkSchema = z.object({
+	id: z.string().min(1),
+});
+
+export const shareLinkAccessLogSchema = z.object({
+	id: z.string().min(1),
+	limit: z.number().min(1).max(100).optional().default(50),
+	offset: z.number().min(0).optional().default(0),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type GetShareLinkInput = z.infer<typeof getShareLinkSchema>;
+export type VerifySharePasswordInput = z.infer<typeof verifySharePasswordSchema>;
+export type ListShareLinksInput = z.infer<typeof listShareLinksSchema>;
+export type UpdateShareLinkInput = z.infer<typeof updateShareLinkSchema>;
+export type RevokeShareLinkInput = z.infer<typeof revokeShareLinkSchema>;
+export type ShareLinkAccessLogInput = z.infer<typeof shareLinkAccessLogSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export type ShareTargetType = "file" | "path" | "category" | "collection";
+
+export interface SharedFileItem {
+	id: string;
+	originalName: string;
+	mimeType: string;
+	size: number;
+	formattedSize: string;
+	category: string;
+	thumbnailUrl: string | null;
+	path: string | null;
+}
+
+export interface SharedFileResponse {
+	token: string;
+	targetType: ShareTargetType;
+	name: string; // file name, folder or category name
+	requiresPassword: boolean;
+	locked: boolean; // password-protected contents are only listed after verifyPassword
+	files: SharedFileItem[];
+	totalSize: number;
+	formattedSize: string;
+	expiresAt: Date | null;
+	remainingDownloads: number | null;
+	downloadUrl: string; // POST with `fileId` (and `password`) for a single file
+	zipUrl: string; // POST with `password` for everything as one ZIP
+}
+
+export interface VerifySharePasswordResponse {
+	valid: boolean;
+	shared: SharedFileResponse | null; // unlocked contents when the password is valid
+}
+
+export type ShareLinkStatus = "active" | "expired" | "exhausted" | "revoked";
+
+export interface ShareLinkItem {
+	id: string;
+	token: string;
+	url: string;
+	targetType: ShareTargetType;
+	fileId: string | null;
+	targetPath: string | null;
+	categoryId: string | null;
+	status: ShareLinkStatus;
+	requiresPassword: boolean;
+	downloadCount: number;
+	maxDownloads: number | null;
+	remainingDownloads: number | null;
+	expiresAt: Date | null;
+	lastAccessedAt: Date | null;
+	watermarkProfileId: string | null;
+	createdAt: Date;
+	revokedAt: Date | null;
+}
+
+export interface ShareLinkAccessLogEntry {
+	id: string;
+	action: string;
+	ipAddress: string | null;
+	userAgent: string | null;
+	createdAt: Date;
+}
+
+export interface ShareLinkAccessLogResponse {
+	logs: ShareLinkAccessLogEntry[];
+	pagination: {
+		total: number;
+		limit: number;
+		offset: number;
+		hasMore: boolean;
+	};
+}
@@ -0,0 +1,71 @@
+import { z } from "zod";
+
+/**
+ * Trash Router Types
+ *
+ * Contains all schemas, response types, and inferred types for the trash bin
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const listTrashSchema = z.object({
+	limit: z.number().min(1).max(100).optional().default(20),
+	offset: z.number().min(0).optional().default(0),
+});
+
+export const restoreFileSchema = z.object({
+	id: z.string().min(1),
+});
+
+export const emptyTrashSchema = z
+	.object({
+		ids: z.array(z.string().min(1)).min(1).max(100).optional(), // omit to empty the whole trash
+	})
+	.optional();
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type ListTrashInput = z.infer<typeof listTrashSchema>;
+export type RestoreFileInput = z.infer<typeof restoreFileSchema>;
+export type EmptyTrashInput = z.infer<typeof emptyTrashSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface TrashItem {
+	id: string;
+	originalName: string;
+	mimeType: string;
+	size: number;
+	formattedSize: string;
+	category: string;
+	thumbnailUrl: string | null;
+	deletedAt: Date | null;
+	purgeAt: Date | null; // when the file will be deleted permanently
+}
+
+export interface ListTrashResponse {
+	files: TrashItem[];
+	retentionDays: number;
+	pagination: {
+		total: number;
+		limit: number;
+		offset: number;
+		hasMore: boolean;
+	};
+}
+
+export interface RestoreFileResponse {
+	id: string;
+	message: string;
+}
+
+export interface EmptyTrashResponse {
+	deletedCount: number;
+	message: string;
+}
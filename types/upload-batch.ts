@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { folderPathSchema } from "./upload";
+
+/**
+ * Batch Upload Router Types
+ *
+ * Contains all schemas, response types, and inferred types for bulk file operations
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+const batchIdsSchema = z.array(z.string().min(1)).min(1).max(100);
+
+export const batchFileIdsSchema = z.object({
+	ids: batchIdsSchema,
+});
+
+export const batchSetVisibilitySchema = z.object({
+	ids: batchIdsSchema,
+	isPublic: z.boolean(),
+});
+
+export const batchMoveFilesSchema = z
+	.object({
+		ids: batchIdsSchema,
+		path: folderPathSchema.nullable().optional(), // null moves to the bucket root
+		categoryId: z.string().min(1).nullable().optional(), // null removes from all categories
+	})
+	.refine((value) => value.path !== undefined || value.categoryId !== undefined, {
+		message: "Provide a path or a categoryId",
+	});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type BatchFileIdsInput = z.infer<typeof batchFileIdsSchema>;
+export type BatchSetVisibilityInput = z.infer<typeof batchSetVisibilitySchema>;
+export type BatchMoveFilesInput = z.infer<typeof batchMoveFilesSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface BatchItemResult {
+	id: string;
+	success: boolean;
+	error?: string;
+}
+
+export interface BatchOperationResponse {
+	results: BatchItemResult[];
+	succeeded: number;
+	failed: number;
+	message: string;
+}
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { folderPathSchema } from "./upload";
+
+/**
+ * Upload Session Router Types
+ *
+ * Contains all schemas, response types, and inferred types for chunked uploads
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const initUploadSessionSchema = z.object({
+	fileName: z.string().min(1).max(255),
+	mimeType: z.string().min(1).max(100),
+	size: z.number().int().positive(),
+	chunkSize: z
+		.number()
+		.int()
+		.min(5 * 1024 * 1024)
+		.max(50 * 1024 * 1024)
+		.optional(),
+	isPublic: z.boolean().optional().default(true),
+	path: folderPathSchema.optional(),
+	metadata: z.record(z.string(), z.any()).optional(),
+	stripMetadata: z.boolean().optional().default(true), // drop GPS and other private EXIF tags
+	watermarkProfileId: z.string().min(1).optional(), // stamped into images before storing
+});
+
+export const uploadChunkSchema = z.object({
+	sessionId: z.string().min(1),
+	chunkIndex: z.number().int().min(0),
+	chunkData: z.string(), // Base64 encoded chunk data
+});
+
+export const uploadSessionIdSchema = z.object({
+	sessionId: z.string().min(1),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type InitUploadSessionInput = z.infer<typeof initUploadSessionSchema>;
+export type UploadChunkInput = z.infer<typeof uploadChunkSchema>;
+export type UploadSessionIdInput = z.infer<typeof uploadSessionIdSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface UploadSessionResponse {
+	id: string;
+	fileName: string;
+	mimeType: string;
+	totalSize: number;
+	uploadedSize: number;
+	chunkSize: number;
+	totalChunks: number;
+	uploadedChunks: number;
+	uploadedChunkIndexes: number[];
+	status: "pending" | "uploading" | "completed" | "failed" | "cancelled";
+	expiresAt: Date;
+}
+
+export interface UploadChunkResponse {
+	chunkIndex: number;
+	uploadedChunks: number;
+	totalChunks: number;
+}
+
+export interface AbortUploadSessionResponse {
+	message: string;
+}
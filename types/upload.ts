@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { VARIANT_PREFIX } from "@/lib/services/images/variants";
+import { QUARANTINE_PREFIX, TEMP_PREFIX } from "@/lib/services/storage/minio";
 
 /**
  * Upload Router Types
@@ -10,14 +12,46 @@ import { z } from "zod";
 // INPUT SCHEMAS
 // ============================================================================
 
+// Top-level prefixes the server keeps for its own objects: temporary uploads,
+// quarantined files and image variants
+const RESERVED_PATH_PREFIXES = [TEMP_PREFIX, QUARANTINE_PREFIX, VARIANT_PREFIX];
+
+/**
+ * Folder path inside the bucket, e.g. "projects/2024". Surrounding slashes are
+ * dropped; "." / ".." segments and the reserved prefixes are rejected.
+ */
+export const folderPathSchema = z
+	.string()
+	.trim()
+	.transform((value) => value.replace(/^\/+|\/+$/g, ""))
+	.pipe(
+		z
+			.string()
+			.min(1)
+			.max(200)
+			.regex(/^[\w\-. ]+(\/[\w\-. ]+)*$/, "Invalid folder path")
+			.refine((value) => !value.split("/").some((part) => part === "." || part === ".."), {
+				message: "Invalid folder path",
+			})
+			.refine(
+				(value) =>
+					!RESERVED_PATH_PREFIXES.some(
+						(prefix) => value === prefix || value.startsWith(`${prefix}/`),
+					),
+				{ message: "This folder is reserved" },
+			),
+	);
+
 export const uploadFileSchema = z.object({
 	fileName: z.string().min(1).max(255),
 	mimeType: z.string().min(1).max(100),
 	size: z.number().positive(),
 	fileData: z.string(), // Base64 encoded file data
 	isPublic: z.boolean().optional().default(true),
-	path: z.string().optional(),
+	path: folderPathSchema.optional(),
 	metadata: z.record(z.string(), z.any()).optional(),
+	stripMetadata: z.boolean().optional().default(true), // drop GPS and other private EXIF tags
+	watermarkProfileId: z.string().min(1).optional(), // stamped into images before storing
 });
 
 export const getFilesSchema = z.object({
@@ -25,6 +59,11 @@ export const getFilesSchema = z.object({
 	offset: z.number().min(0).optional().default(0),
 	search: z.string().optional(),
 	category: z.string().optional(),
+	categoryId: z.string().optional(), // folder filter (own files only)
+	fileRequestId: z.string().optional(), // files received through a file request
+	camera: z.string().max(100).optional(), // matches EXIF make or model
+	capturedAfter: z.coerce.date().optional(),
+	capturedBefore: z.coerce.date().optional(),
 	sortBy: z.enum(["createdAt", "size", "name"]).optional().default("createdAt"),
 	sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
 });
@@ -37,12 +76,25 @@ export const getFileByIdSchema = z.object({
 	id: z.string().min(1),
 });
 
-export const createShareLinkSchema = z.object({
-	fileId: z.string().min(1),
-	password: z.string().optional(),
-	maxDownloads: z.number().positive().optional(),
-	expiresInHours: z.number().positive().max(720).optional(), // Max 30 days
-});
+// Exactly one target: a file, a folder path, a category or a collection of files
+export const createShareLinkSchema = z
+	.object({
+		fileId: z.string().min(1).optional(),
+		path: folderPathSchema.optional(), // subfolders included
+		categoryId: z.string().min(1).optional(),
+		fileIds: z.array(z.string().min(1)).min(1).max(1000).optional(),
+		password: z.string().optional(),
+		maxDownloads: z.number().positive().optional(),
+		expiresInHours: z.number().positive().max(720).optional(), // Max 30 days
+		watermarkProfileId: z.string().min(1).optional(), // stamped on each download, the original stays clean
+	})
+	.refine(
+		(input) =>
+			[input.fileId, input.path, input.categoryId, input.fileIds].filter(
+				(target) => target !== undefined,
+			).length === 1,
+		{ message: "Provide exactly one of fileId, path, categoryId or fileIds" },
+	);
 
 export const getPresignedUrlSchema = z.object({
 	fileId: z.string().min(1),
@@ -72,6 +124,12 @@ export type UpdateFileInput = z.infer<typeof updateFileSchema>;
 // RESPONSE TYPES
 // ============================================================================
 
+// Existing file whose stored object an upload reuses
+export interface DuplicateOf {
+	id: string;
+	originalName: string;
+}
+
 export interface UploadFileResponse {
 	id: string;
 	url: string;
@@ -80,6 +138,7 @@ export interface UploadFileResponse {
 	originalName: string;
 	size: number;
 	mimeType: string;
+	duplicateOf: DuplicateOf | null;
 	message: string;
 }
 
@@ -149,9 +208,11 @@ export interface FileStatsResponse {
 }
 
 export interface DirectUploadResponse {
-	id?: string;
+	id: string;
 	url: string;
 	fileName: string;
 	size: number;
+	duplicateOf?: DuplicateOf | null;
+	expiresAt?: Date | null; // anonymous uploads are deleted after this
 }
 
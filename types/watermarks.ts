@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+/**
+ * Watermarks Router Types
+ *
+ * Contains all schemas, response types, and inferred types for watermark profiles
+ */
+
+// ============================================================================
+// INPUT SCHEMAS
+// ============================================================================
+
+export const watermarkPositionSchema = z.enum([
+	"center",
+	"top-left",
+	"top-right",
+	"bottom-left",
+	"bottom-right",
+]);
+
+const watermarkSettingsSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	position: watermarkPositionSchema.optional().default("bottom-right"),
+	opacity: z.number().int().min(1).max(100).optional().default(70), // percent
+	scale: z.number().int().min(1).max(100).optional().default(20), // percent of the image width
+});
+
+export const createWatermarkProfileSchema = z.discriminatedUnion("type", [
+	watermarkSettingsSchema.extend({
+		type: z.literal("text"),
+		text: z.string().trim().min(1).max(200),
+	}),
+	watermarkSettingsSchema.extend({
+		type: z.literal("image"),
+		fileData: z.string().min(1), // Base64 encoded PNG / WebP / JPEG
+		mimeType: z.string().min(1).max(100),
+	}),
+]);
+
+export const updateWatermarkProfileSchema = z.object({
+	id: z.string().min(1),
+	name: z.string().trim().min(1).max(100).optional(),
+	text: z.string().trim().min(1).max(200).optional(), // text profiles only
+	position: watermarkPositionSchema.optional(),
+	opacity: z.number().int().min(1).max(100).optional(),
+	scale: z.number().int().min(1).max(100).optional(),
+});
+
+export const deleteWatermarkProfileSchema = z.object({
+	id: z.string().min(1),
+});
+
+// ============================================================================
+// INFERRED INPUT TYPES
+// ============================================================================
+
+export type WatermarkPositionInput = z.infer<typeof watermarkPositionSchema>;
+export type CreateWatermarkProfileInput = z.infer<typeof createWatermarkProfileSchema>;
+export type UpdateWatermarkProfileInput = z.infer<typeof updateWatermarkProfileSchema>;
+export type DeleteWatermarkProfileInput = z.infer<typeof deleteWatermarkProfileSchema>;
+
+// ============================================================================
+// RESPONSE TYPES
+// ============================================================================
+
+export interface WatermarkProfileItem {
+	id: string;
+	name: string;
+	type: "image" | "text";
+	text: string | null;
+	imageUrl: string | null;
+	position: WatermarkPositionInput;
+	opacity: number;
+	scale: number;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface DeleteWatermarkProfileResponse {
+	message: string;
+}